@@ -3,6 +3,7 @@ import { createLogger } from '@ace/shared-logging';
 import type { Context, Next } from 'hono';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
 
 const logger = createLogger('api-gateway');
 
@@ -61,7 +62,16 @@ app.post('/ingest', async (c: Context) => {
     const data = await response.json();
 
     if (response.ok) {
-      return c.json(data, 202);
+      // 200 answers a resubmission with the job that already ingested the text
+      return c.json(data, response.status === 200 ? 200 : 202);
+    }
+    if (response.status === 429) {
+      // Pass the backpressure hint through so clients know when to retry
+      c.header('Retry-After', response.headers.get('Retry-After') ?? '30');
+      return c.json(data, 429);
+    }
+    if (response.status === 400 || response.status === 409) {
+      return c.json(data, response.status);
     }
     return c.json(data, 500);
   } catch (error) {
@@ -70,6 +80,75 @@ app.post('/ingest', async (c: Context) => {
   }
 });
 
+app.post('/ingest/preview', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const body = await c.req.json();
+
+  try {
+    const response = await fetch(`${ingestionUrl}/ingest/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      c.header('Retry-After', retryAfter);
+    }
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/previews/:jobId', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const jobId = c.req.param('jobId');
+
+  try {
+    const response = await fetch(`${ingestionUrl}/previews/${jobId}`);
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.post('/previews/:jobId/commit', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const jobId = c.req.param('jobId');
+
+  try {
+    const response = await fetch(`${ingestionUrl}/previews/${jobId}/commit`, { method: 'POST' });
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/jobs', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const query = new URL(c.req.url).search;
+
+  try {
+    const response = await fetch(`${ingestionUrl}/jobs${query}`);
+    const data = await response.json();
+
+    if (response.ok) {
+      return c.json(data, 200);
+    }
+    return c.json(data, 400);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
 app.get('/jobs/:jobId', async (c: Context) => {
   const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
   const jobId = c.req.param('jobId');
@@ -88,6 +167,184 @@ app.get('/jobs/:jobId', async (c: Context) => {
   }
 });
 
+// Batch bodies (NDJSON or multipart) are forwarded as-is with their content type
+app.post('/ingest/batch', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+
+  try {
+    const response = await fetch(`${ingestionUrl}/ingest/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': c.req.header('Content-Type') ?? 'application/x-ndjson' },
+      body: await c.req.arrayBuffer(),
+    });
+    const data = await response.json();
+
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      c.header('Retry-After', retryAfter);
+    }
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/batches/:batchId', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const batchId = c.req.param('batchId');
+
+  try {
+    const response = await fetch(`${ingestionUrl}/batches/${batchId}`);
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.post('/batches/:batchId/cancel', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const batchId = c.req.param('batchId');
+
+  try {
+    const response = await fetch(`${ingestionUrl}/batches/${batchId}/cancel`, { method: 'POST' });
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+// Stream job events through unchanged; the upstream request ends when the client disconnects
+app.get('/jobs/:jobId/events', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const jobId = c.req.param('jobId');
+
+  try {
+    const response = await fetch(`${ingestionUrl}/jobs/${jobId}/events`, {
+      headers: { Accept: 'text/event-stream' },
+      signal: c.req.raw.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json();
+      return c.json(data, response.status as ContentfulStatusCode);
+    }
+
+    return c.body(response.body, 200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+// Job control actions; the engine's status codes (404, 409, 429) are passed through
+for (const action of ['cancel', 'retry']) {
+  app.post(`/jobs/:jobId/${action}`, async (c: Context) => {
+    const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+    const jobId = c.req.param('jobId');
+
+    try {
+      const response = await fetch(`${ingestionUrl}/jobs/${jobId}/${action}`, { method: 'POST' });
+      const data = await response.json();
+
+      const retryAfter = response.headers.get('Retry-After');
+      if (retryAfter) {
+        c.header('Retry-After', retryAfter);
+      }
+      return c.json(data, response.status as ContentfulStatusCode);
+    } catch (error) {
+      logger.error('Error proxying to ingestion engine', { error });
+      return c.json({ error: 'Ingestion service unavailable' }, 503);
+    }
+  });
+}
+
+// Curator review queue: list, edit, approve and reject; the engine's status codes pass through
+app.on(['GET', 'PATCH', 'POST'], ['/quarantine', '/quarantine/*'], async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const url = new URL(c.req.url);
+
+  try {
+    const response = await fetch(`${ingestionUrl}${url.pathname}${url.search}`, {
+      method: c.req.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: c.req.method === 'GET' ? undefined : await c.req.text(),
+    });
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+// Source retraction; the engine's status codes (404, 409) are passed through
+app.delete('/sources/:sourceId', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const sourceId = encodeURIComponent(c.req.param('sourceId'));
+
+  try {
+    const response = await fetch(`${ingestionUrl}/sources/${sourceId}`, { method: 'DELETE' });
+    const data = await response.json();
+    return c.json(data, response.status as ContentfulStatusCode);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/provenance', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+  const query = new URL(c.req.url).search;
+
+  try {
+    const response = await fetch(`${ingestionUrl}/provenance${query}`);
+    const data = await response.json();
+
+    if (response.ok) {
+      return c.json(data, 200);
+    }
+    return c.json(data, response.status === 400 ? 400 : 500);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/relationship-types/unmapped', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+
+  try {
+    const response = await fetch(`${ingestionUrl}/relationship-types/unmapped`);
+    const data = await response.json();
+    return c.json(data, response.ok ? 200 : 500);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
+app.get('/ontology', async (c: Context) => {
+  const ingestionUrl = Bun.env.INGESTION_ENGINE_URL || 'http://localhost:3200';
+
+  try {
+    const response = await fetch(`${ingestionUrl}/ontology`);
+    const data = await response.json();
+    return c.json(data, response.ok ? 200 : 500);
+  } catch (error) {
+    logger.error('Error proxying to ingestion engine', { error });
+    return c.json({ error: 'Ingestion service unavailable' }, 503);
+  }
+});
+
 // Proxy to inference service
 app.post('/workflow/run', async (c: Context) => {
   const inferenceUrl = Bun.env.INFERENCE_SERVICE_URL || 'http://localhost:3100';
@@ -105,6 +362,10 @@ app.post('/workflow/run', async (c: Context) => {
     if (response.ok) {
       return c.json(data, 200);
     }
+    if (response.status === 400) {
+      // Invalid queries and model overrides are the caller's to fix
+      return c.json(data, 400);
+    }
     return c.json(data, 500);
   } catch (error) {
     logger.error('Error proxying to inference service', { error });
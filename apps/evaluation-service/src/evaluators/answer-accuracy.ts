@@ -1,5 +1,11 @@
 import type { AnswerAccuracyResult } from '@ace/core-types';
-import { Ollama } from 'ollama';
+import {
+  chatWithFallback,
+  getLLMProvider,
+  ModelCallError,
+  type RoutedCompletion,
+  stageSettings,
+} from '@ace/llm';
 
 /**
  * Answer Accuracy Evaluator
@@ -7,10 +13,6 @@ import { Ollama } from 'ollama';
  * Used when expected output is available (golden dataset tests)
  */
 
-const ollama = new Ollama({
-  host: Bun.env.OLLAMA_HOST || 'http://localhost:11434',
-});
-
 const ACCURACY_PROMPT = `You are an evaluator measuring answer quality against expected output.
 
 Your task: Compare the Generated Answer with the Expected Answer.
@@ -50,14 +52,14 @@ export async function evaluateAnswerAccuracy(
   query: string,
 ): Promise<AnswerAccuracyResult> {
   const startTime = Date.now();
+  let response: RoutedCompletion | undefined;
 
   try {
     const prompt = ACCURACY_PROMPT.replace('{query}', query)
       .replace('{expected_answer}', expectedOutput)
       .replace('{generated_answer}', generatedText);
 
-    const response = await ollama.chat({
-      model: 'llama3.2:3b',
+    response = await chatWithFallback(getLLMProvider(), stageSettings('judging'), {
       messages: [
         {
           role: 'user',
@@ -65,13 +67,9 @@ export async function evaluateAnswerAccuracy(
         },
       ],
       format: 'json',
-      options: {
-        temperature: 0.1,
-        top_p: 0.9,
-      },
     });
 
-    const rawContent = response.message.content;
+    const rawContent = response.text;
     const parsed: unknown = JSON.parse(rawContent);
 
     const result = parsed as Record<string, unknown>;
@@ -87,16 +85,21 @@ export async function evaluateAnswerAccuracy(
       semanticSimilarity,
       factualConsistency,
       reasoning,
+      model: response.model,
+      timedOut: response.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   } catch (error) {
     console.error('Answer accuracy evaluation failed:', error);
 
+    const attempt = response ?? (error instanceof ModelCallError ? error : undefined);
     return {
       score: 0,
       semanticSimilarity: 0,
       factualConsistency: 0,
       reasoning: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      model: attempt?.model,
+      timedOut: attempt?.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   }
@@ -1,5 +1,11 @@
 import type { EvidenceCoverageResult } from '@ace/core-types';
-import { Ollama } from 'ollama';
+import {
+  chatWithFallback,
+  getLLMProvider,
+  ModelCallError,
+  type RoutedCompletion,
+  stageSettings,
+} from '@ace/llm';
 
 /**
  * Evidence Coverage Evaluator
@@ -7,10 +13,6 @@ import { Ollama } from 'ollama';
  * Ensures completeness of answers
  */
 
-const ollama = new Ollama({
-  host: Bun.env.OLLAMA_HOST || 'http://localhost:11434',
-});
-
 const COVERAGE_PROMPT = `You are an evaluator measuring evidence coverage in AI responses.
 
 Your task: Identify which evidence points from the Context were used in the Generated Text.
@@ -48,14 +50,14 @@ export async function evaluateEvidenceCoverage(
   query: string,
 ): Promise<EvidenceCoverageResult> {
   const startTime = Date.now();
+  let response: RoutedCompletion | undefined;
 
   try {
     const prompt = COVERAGE_PROMPT.replace('{context}', retrievedContext)
       .replace('{generated_text}', generatedText)
       .replace('{query}', query);
 
-    const response = await ollama.chat({
-      model: 'llama3.2:3b',
+    response = await chatWithFallback(getLLMProvider(), stageSettings('judging'), {
       messages: [
         {
           role: 'user',
@@ -63,13 +65,9 @@ export async function evaluateEvidenceCoverage(
         },
       ],
       format: 'json',
-      options: {
-        temperature: 0.1,
-        top_p: 0.9,
-      },
     });
 
-    const rawContent = response.message.content;
+    const rawContent = response.text;
     const parsed: unknown = JSON.parse(rawContent);
 
     const result = parsed as Record<string, unknown>;
@@ -88,17 +86,22 @@ export async function evaluateEvidenceCoverage(
       coveredPoints,
       missedPoints,
       reasoning,
+      model: response.model,
+      timedOut: response.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   } catch (error) {
     console.error('Evidence coverage evaluation failed:', error);
 
+    const attempt = response ?? (error instanceof ModelCallError ? error : undefined);
     return {
       score: 0,
       totalEvidencePoints: 1,
       coveredPoints: 0,
       missedPoints: ['Evaluation failed'],
       reasoning: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      model: attempt?.model,
+      timedOut: attempt?.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   }
@@ -1,5 +1,11 @@
 import type { FaithfulnessResult } from '@ace/core-types';
-import { Ollama } from 'ollama';
+import {
+  chatWithFallback,
+  getLLMProvider,
+  ModelCallError,
+  type RoutedCompletion,
+  stageSettings,
+} from '@ace/llm';
 
 /**
  * Faithfulness Evaluator (LLM-as-a-Judge)
@@ -7,10 +13,6 @@ import { Ollama } from 'ollama';
  * Target: ≥97% faithfulness score (specs/architecture_blueprint.md Section 6.4)
  */
 
-const ollama = new Ollama({
-  host: Bun.env.OLLAMA_HOST || 'http://localhost:11434',
-});
-
 // Faithfulness evaluation prompt template
 const FAITHFULNESS_PROMPT = `You are an expert evaluator assessing the faithfulness of AI-generated content.
 
@@ -52,6 +54,7 @@ export async function evaluateFaithfulness(
   retrievedContext: string,
 ): Promise<FaithfulnessResult> {
   const startTime = Date.now();
+  let response: RoutedCompletion | undefined;
 
   try {
     const prompt = FAITHFULNESS_PROMPT.replace('{context}', retrievedContext).replace(
@@ -59,8 +62,7 @@ export async function evaluateFaithfulness(
       generatedText,
     );
 
-    const response = await ollama.chat({
-      model: 'llama3.2:3b',
+    response = await chatWithFallback(getLLMProvider(), stageSettings('judging'), {
       messages: [
         {
           role: 'user',
@@ -68,13 +70,9 @@ export async function evaluateFaithfulness(
         },
       ],
       format: 'json',
-      options: {
-        temperature: 0.1, // Low temperature for consistency
-        top_p: 0.9,
-      },
     });
 
-    const rawContent = response.message.content;
+    const rawContent = response.text;
     const parsed: unknown = JSON.parse(rawContent);
 
     const claims = (parsed as { claims?: Array<unknown> }).claims || [];
@@ -101,11 +99,15 @@ export async function evaluateFaithfulness(
       totalClaims,
       groundedClaims,
       ungroundedClaims,
+      model: response.model,
+      timedOut: response.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   } catch (error) {
     console.error('Faithfulness evaluation failed:', error);
 
+    const attempt = response ?? (error instanceof ModelCallError ? error : undefined);
+
     // Return zero score on error
     return {
       score: 0,
@@ -119,6 +121,8 @@ export async function evaluateFaithfulness(
       totalClaims: 1,
       groundedClaims: 0,
       ungroundedClaims: 1,
+      model: attempt?.model,
+      timedOut: attempt?.timedOut,
       evaluationTimeMs: Date.now() - startTime,
     };
   }
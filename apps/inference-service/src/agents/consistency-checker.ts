@@ -11,8 +11,9 @@ import {
   ResourceSchema,
 } from '@ace/core-types';
 import { executeRead } from '@ace/neo4j-utilities';
+import { getOntology } from '@ace/ontology';
 import { z } from 'zod';
-import type { ValidationResult, WorkflowState } from './state';
+import type { GeneratedLore, ValidationResult, WorkflowState } from './state';
 
 /**
  * Consistency Checker Agent: Validate generated lore
@@ -40,18 +41,21 @@ export async function consistencyCheckerAgent(
       schemaViolations.push(...violations);
     }
 
-    // 2. Check for contradictions with existing knowledge graph
+    // 2. Relationship types and endpoints against the ontology
+    schemaViolations.push(...validateRelationships(state.generatedLore));
+
+    // 3. Check for contradictions with existing knowledge graph
     for (const entity of state.generatedLore.entities) {
       const conflicts = await checkEntityContradictions(entity, state);
       contradictions.push(...conflicts);
     }
 
-    // 3. Calculate overall consistency score
+    // 4. Calculate overall consistency score
     const totalChecks = state.generatedLore.entities.length * 2; // Schema + contradiction checks
     const totalIssues = schemaViolations.length + contradictions.length;
     const consistencyScore = totalChecks > 0 ? (totalChecks - totalIssues) / totalChecks : 1.0;
 
-    // 4. Determine if valid
+    // 5. Determine if valid
     const schemaCompliant = schemaViolations.length === 0;
     const noContradictions = contradictions.length === 0;
     const isValid = schemaCompliant && noContradictions && consistencyScore >= 0.8;
@@ -103,7 +107,18 @@ export async function consistencyCheckerAgent(
 }
 
 /**
- * Validate entity against appropriate schema
+ * Core-types schema per ontology label; other labels are checked for required properties
+ */
+const CORE_SCHEMAS: Record<string, z.ZodSchema> = {
+  Faction: FactionSchema,
+  Character: CharacterSchema,
+  Location: LocationSchema,
+  Resource: ResourceSchema,
+  Event: EventSchema,
+};
+
+/**
+ * Validate entity against its ontology type
  */
 function validateEntitySchema(entity: {
   type: string;
@@ -111,25 +126,29 @@ function validateEntitySchema(entity: {
   properties: Record<string, unknown>;
 }): Array<{ field: string; issue: string }> {
   const violations: Array<{ field: string; issue: string }> = [];
+  const ontology = getOntology();
+  const label = ontology.resolveEntityType(entity.type);
 
-  try {
-    const schemaMap: Record<string, z.ZodSchema> = {
-      Faction: FactionSchema,
-      Character: CharacterSchema,
-      Location: LocationSchema,
-      Resource: ResourceSchema,
-      Event: EventSchema,
-    };
+  if (!label) {
+    violations.push({
+      field: 'type',
+      issue: `Unknown entity type: ${entity.type}`,
+    });
+    return violations;
+  }
 
-    const schema = schemaMap[entity.type];
-    if (!schema) {
-      violations.push({
-        field: 'type',
-        issue: `Unknown entity type: ${entity.type}`,
-      });
-      return violations;
+  const schema = CORE_SCHEMAS[label];
+  if (!schema) {
+    const properties: Record<string, unknown> = { name: entity.name, ...entity.properties };
+    for (const property of ontology.entityType(label)?.required ?? []) {
+      if (properties[property] == null || properties[property] === '') {
+        violations.push({ field: property, issue: `${label} requires ${property}` });
+      }
     }
+    return violations;
+  }
 
+  try {
     // Attempt to validate
     schema.parse({ name: entity.name, ...entity.properties });
   } catch (error) {
@@ -151,6 +170,37 @@ function validateEntitySchema(entity: {
   return violations;
 }
 
+/**
+ * Check generated relationships use ontology types between the labels the ontology allows
+ */
+function validateRelationships(lore: GeneratedLore): Array<{ field: string; issue: string }> {
+  const ontology = getOntology();
+  const labels = new Map(
+    lore.entities.map((entity) => [entity.name, ontology.resolveEntityType(entity.type)]),
+  );
+
+  return lore.relationships.flatMap((rel, index) => {
+    const type = ontology.resolveRelationshipType(rel.type);
+    if (!type) {
+      return [
+        { field: `relationships.${index}.type`, issue: `Unknown relationship type: ${rel.type}` },
+      ];
+    }
+
+    const fromLabel = labels.get(rel.from);
+    const toLabel = labels.get(rel.to);
+    if (fromLabel && toLabel && !ontology.allowsRelationship(type, fromLabel, toLabel)) {
+      return [
+        {
+          field: `relationships.${index}`,
+          issue: `${type} does not connect ${fromLabel} to ${toLabel}`,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
 /**
  * Check if entity contradicts existing knowledge graph
  */
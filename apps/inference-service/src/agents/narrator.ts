@@ -1,16 +1,12 @@
 /**
  * Narrator Agent - Generates new lore based on retrieved context
- * Uses Ollama LLM with structured output
+ * Uses the configured LLM provider with structured output
  */
 
+import { chatWithFallback, getLLMProvider, stageSettings } from '@ace/llm';
 import { PromptLoader } from '@ace/prompt-library';
-import { Ollama } from 'ollama';
 import type { GeneratedLore, WorkflowState } from './state';
 
-const ollama = new Ollama({
-  host: process.env.OLLAMA_HOST || 'http://localhost:11434',
-});
-
 /**
  * Narrator Agent: Generate consistent lore based on context
  */
@@ -32,7 +28,7 @@ export async function narratorAgent(state: WorkflowState): Promise<Partial<Workf
     // Build context summary
     const contextSummary = buildContextSummary(state);
 
-    // Generate lore using Ollama
+    // Generate lore using the LLM
     const fullPrompt = `${narratorPrompt}
 
 User Query: ${state.userQuery}
@@ -67,24 +63,23 @@ Output format:
   "reasoning": "Brief explanation of how this fits with existing lore"
 }`;
 
-    console.log('[narrator] Calling Ollama LLM...');
-
-    const response = await ollama.chat({
-      model: 'llama3.2:3b',
-      messages: [
-        {
-          role: 'user',
-          content: fullPrompt,
-        },
-      ],
-      format: 'json',
-      options: {
-        temperature: 0.7, // More creative than extraction
-        top_p: 0.9,
+    console.log('[narrator] Calling LLM...');
+
+    const response = await chatWithFallback(
+      getLLMProvider(),
+      stageSettings('narration', state.modelOverride),
+      {
+        messages: [
+          {
+            role: 'user',
+            content: fullPrompt,
+          },
+        ],
+        format: 'json',
       },
-    });
+    );
 
-    const rawContent = response.message.content;
+    const rawContent = response.text;
     console.log('[narrator] Raw LLM response:', rawContent.substring(0, 200));
 
     // Parse structured output
@@ -107,11 +102,12 @@ Output format:
       relationships: (parsedOutput as any).relationships || [],
       confidence: (parsedOutput as any).confidence || 0.5,
       reasoning: (parsedOutput as any).reasoning || 'No reasoning provided',
+      model: response.model,
       generationTimeMs: Date.now() - startTime,
     };
 
     console.log(
-      `[narrator] Generated lore in ${generatedLore.generationTimeMs}ms: ${generatedLore.entities.length} entities, ${generatedLore.relationships.length} relationships`,
+      `[narrator] ${generatedLore.model} generated lore in ${generatedLore.generationTimeMs}ms: ${generatedLore.entities.length} entities, ${generatedLore.relationships.length} relationships`,
     );
 
     return {
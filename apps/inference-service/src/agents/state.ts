@@ -3,10 +3,13 @@
  * Tracks the progression through Historian → Narrator → Consistency Checker
  */
 
+import type { ModelOverride } from '@ace/llm';
+
 export interface WorkflowState {
   // Input
   userQuery: string;
   sessionId: string;
+  modelOverride?: ModelOverride; // Narration settings requested for this run
 
   // Historian Agent output
   retrievedContext: RetrievedContext | null;
@@ -68,6 +71,7 @@ export interface GeneratedLore {
   // Metadata
   confidence: number;
   reasoning: string;
+  model: string; // Model that answered, a fallback if the configured one timed out
   generationTimeMs: number;
 }
 
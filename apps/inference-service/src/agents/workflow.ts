@@ -3,6 +3,8 @@
  * Orchestrates Historian → Narrator → Consistency Checker agents with validation loops
  */
 
+import type { ModelOverride } from '@ace/llm';
+import { getVectorClient } from '@ace/vector-client';
 import { consistencyCheckerAgent } from './consistency-checker';
 import { historianAgent } from './historian';
 import { narratorAgent } from './narrator';
@@ -10,12 +12,17 @@ import type { WorkflowState } from './state';
 
 /**
  * Execute the ACE workflow for a user query
- * Manual orchestration with validation loops
+ * Manual orchestration with validation loops; `modelOverride` changes the narration settings
  */
-export async function executeWorkflow(userQuery: string, sessionId?: string) {
+export async function executeWorkflow(
+  userQuery: string,
+  sessionId?: string,
+  modelOverride?: ModelOverride,
+) {
   const initialState: WorkflowState = {
     userQuery,
     sessionId: sessionId || `session-${Date.now()}`,
+    modelOverride,
     retrievedContext: null,
     generatedLore: null,
     validationResult: null,
@@ -28,6 +35,11 @@ export async function executeWorkflow(userQuery: string, sessionId?: string) {
   console.log('[workflow] Starting ACE workflow for query:', userQuery);
 
   let state = { ...initialState };
+  const narrationModels = new Set<string>();
+  const models = () => ({
+    narration: Array.from(narrationModels),
+    embedding: getVectorClient().embeddingModel,
+  });
 
   try {
     // Step 1: Historian - Retrieve context
@@ -48,6 +60,7 @@ export async function executeWorkflow(userQuery: string, sessionId?: string) {
       if (!state.generatedLore) {
         throw new Error('Narrator failed to generate lore');
       }
+      narrationModels.add(state.generatedLore.model);
 
       // Step 3: Consistency Checker - Validate
       const validationResult = await consistencyCheckerAgent(state);
@@ -88,6 +101,7 @@ export async function executeWorkflow(userQuery: string, sessionId?: string) {
       retrievedContext: state.retrievedContext,
       iterations: state.iterationCount,
       requiresHumanReview: state.requiresHumanReview,
+      models: models(),
       errors: state.errors,
     };
   } catch (error) {
@@ -101,6 +115,7 @@ export async function executeWorkflow(userQuery: string, sessionId?: string) {
       retrievedContext: state.retrievedContext,
       iterations: state.iterationCount,
       requiresHumanReview: true,
+      models: models(),
       errors: [
         ...state.errors,
         `Workflow error: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -1,3 +1,4 @@
+import { ModelOverrideSchema } from '@ace/llm';
 import { createLogger } from '@ace/shared-logging';
 import type { Context, Next } from 'hono';
 import { Hono } from 'hono';
@@ -29,20 +30,27 @@ app.get('/health', (c: Context) =>
 app.post('/workflow/run', async (c: Context) => {
   try {
     const payload = await c.req.json();
-    const { query, sessionId } = payload;
+    const { query, sessionId, llm } = payload;
 
     if (!query) {
       return c.json({ error: 'Query is required' }, 400);
     }
 
-    logger.info('workflow request received', { query, sessionId });
+    // Optional narration model, fallback models and sampling for this run
+    const override = ModelOverrideSchema.optional().safeParse(llm);
+    if (!override.success) {
+      return c.json({ error: 'Invalid model override', details: override.error.issues }, 400);
+    }
+
+    logger.info('workflow request received', { query, sessionId, model: override.data?.model });
 
     // Execute the LangGraph workflow
-    const result = await executeWorkflow(query, sessionId);
+    const result = await executeWorkflow(query, sessionId, override.data);
 
     logger.info('workflow completed', {
       success: result.success,
       iterations: result.iterations,
+      models: result.models,
       errors: result.errors.length,
     });
 
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import { FactionSchema, LocationSchema } from '@ace/core-types';
+
+import { coerceNumber, normalizeAttributes } from './attributes';
+
+describe('normalizeAttributes', () => {
+  it('maps free-text values onto the ontology enums', () => {
+    expect(normalizeAttributes('Faction', { alignment: 'Hostile' }).attributes.alignment).toBe(
+      'RIVAL',
+    );
+    expect(normalizeAttributes('Location', { type: 'town' }).attributes.type).toBe('CITY');
+    expect(
+      normalizeAttributes('Location', { type: 'fortified mountain town' }).attributes.type,
+    ).toBe('CITY');
+    expect(normalizeAttributes('Location', { type: 'capital city' }).attributes.type).toBe(
+      'CAPITAL',
+    );
+    expect(normalizeAttributes('Event', { type: 'siege' }).attributes.type).toBe('BATTLE');
+    expect(normalizeAttributes('Resource', { type: 'ECONOMIC' }).attributes.type).toBe('ECONOMIC');
+  });
+
+  it('produces values the core-types schemas accept', () => {
+    const { attributes } = normalizeAttributes('Faction', { alignment: 'friendly' });
+    expect(FactionSchema.shape.alignment.safeParse(attributes.alignment).success).toBe(true);
+
+    const location = normalizeAttributes('Location', { type: 'Citadel' }).attributes;
+    expect(LocationSchema.shape.type.safeParse(location.type).success).toBe(true);
+  });
+
+  it('keeps and reports values it cannot map', () => {
+    const { attributes, unrecognized } = normalizeAttributes('Location', {
+      type: 'floating island',
+      climate: 'temperate',
+    });
+
+    expect(attributes).toEqual({ type: 'floating island', climate: 'temperate' });
+    expect(unrecognized).toEqual([
+      {
+        property: 'type',
+        value: 'floating island',
+        expected: 'CITY, STRONGHOLD, OUTPOST, REGION, CAPITAL, WILDERNESS',
+      },
+    ]);
+  });
+
+  it('leaves labels without enums unchanged', () => {
+    expect(normalizeAttributes('Ship', { type: 'galleon' })).toEqual({
+      attributes: { type: 'galleon' },
+      unrecognized: [],
+    });
+  });
+});
+
+describe('coerceNumber', () => {
+  const scale = { min: 0, max: 100 };
+
+  it('reads numbers, percentages, fractions and ratings onto the 0-100 scale', () => {
+    expect(coerceNumber('85', scale)).toBe(85);
+    expect(coerceNumber('85%', scale)).toBe(85);
+    expect(coerceNumber(0.7, scale)).toBe(70);
+    expect(coerceNumber('critical', scale)).toBe(100);
+    expect(coerceNumber('very high', scale)).toBe(75);
+    expect(coerceNumber(250, scale)).toBe(100);
+    expect(coerceNumber('immeasurable', scale)).toBeNull();
+  });
+
+  it('reads quantities with thousands separators', () => {
+    expect(coerceNumber('12,000 soldiers', { min: 0, max: Number.MAX_SAFE_INTEGER })).toBe(12000);
+  });
+});
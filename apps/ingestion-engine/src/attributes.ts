@@ -0,0 +1,155 @@
+import { getOntology, normalizeTerm } from '@ace/ontology';
+
+/**
+ * Attribute normalization for the Define step: free-text values extracted by the LLM are
+ * mapped onto the ontology's enum values and numeric scales so nodes validate against the
+ * schemas
+ */
+
+/**
+ * Enum values and the words in extracted text that mean them, from the ontology
+ */
+type EnumVocabulary = Record<string, string[]>;
+
+/**
+ * Properties stored as numbers, with the range they are clamped to
+ */
+const NUMERIC_PROPERTIES: Record<string, Record<string, { min: number; max: number }>> = {
+  Resource: {
+    strategic_value: { min: 0, max: 100 },
+    quantity: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  },
+};
+
+/**
+ * Qualitative ratings on the 0-100 strategic value scale
+ */
+const SCALE_WORDS: Record<string, number> = {
+  negligible: 5,
+  minimal: 10,
+  low: 25,
+  minor: 25,
+  moderate: 50,
+  medium: 50,
+  significant: 70,
+  high: 75,
+  major: 80,
+  vital: 90,
+  critical: 100,
+};
+
+/**
+ * Extracted value that could not be mapped onto the property's enum or scale
+ */
+export interface UnrecognizedAttribute {
+  property: string;
+  value: unknown;
+  expected: string;
+}
+
+export interface NormalizedAttributes {
+  attributes: Record<string, unknown>;
+  unrecognized: UnrecognizedAttribute[];
+}
+
+/**
+ * Enum value for free text: the whole text as a value or synonym first, then a multi-word
+ * synonym inside it, then the last word that names one (the head noun in "fortified
+ * mountain town")
+ */
+export function matchEnumValue(value: string, vocabulary: EnumVocabulary): string | null {
+  const normalized = normalizeTerm(value);
+  const terms = new Map<string, string>();
+  for (const [enumValue, words] of Object.entries(vocabulary)) {
+    for (const term of [enumValue, ...words]) terms.set(normalizeTerm(term), enumValue);
+  }
+
+  const exact = terms.get(normalized);
+  if (exact) {
+    return exact;
+  }
+
+  for (const [term, enumValue] of terms) {
+    if (term.includes(' ') && normalized.includes(term)) return enumValue;
+  }
+
+  const words = normalized.split(' ');
+  for (let index = words.length - 1; index >= 0; index--) {
+    const match = terms.get(words[index] as string);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Number for a numeric attribute: digits with separators or a percent sign, a qualitative
+ * rating, or a 0-1 fraction on a 0-100 scale; clamped to the range and rounded
+ */
+export function coerceNumber(value: unknown, range: { min: number; max: number }): number | null {
+  let number: number | null = null;
+
+  if (typeof value === 'number') {
+    number = value;
+  } else if (typeof value === 'string') {
+    const text = normalizeTerm(value);
+    const digits = text.match(/-?\d[\d,]*(\.\d+)?/);
+    if (digits) {
+      number = Number(digits[0].replaceAll(',', ''));
+    } else if (range.max === 100) {
+      number = SCALE_WORDS[text.split(' ').find((word) => word in SCALE_WORDS) ?? ''] ?? null;
+    }
+  }
+
+  if (number === null || Number.isNaN(number)) {
+    return null;
+  }
+  if (range.max === 100 && number > 0 && number < 1) {
+    number *= 100;
+  }
+  return Math.round(Math.min(range.max, Math.max(range.min, number)));
+}
+
+/**
+ * Map an entity's attributes onto the enums the ontology gives its label and the numeric scales
+ * Values that cannot be mapped are kept as extracted and reported; labels without enums pass
+ * through unchanged.
+ */
+export function normalizeAttributes(
+  label: string,
+  attributes: Record<string, unknown>,
+): NormalizedAttributes {
+  const normalized: Record<string, unknown> = { ...attributes };
+  const unrecognized: UnrecognizedAttribute[] = [];
+
+  for (const [property, vocabulary] of Object.entries(
+    getOntology().entityType(label)?.enums ?? {},
+  )) {
+    const value = attributes[property];
+    if (value === undefined || value === null || value === '') continue;
+
+    const match = typeof value === 'string' ? matchEnumValue(value, vocabulary) : null;
+    if (match) {
+      normalized[property] = match;
+    } else {
+      unrecognized.push({ property, value, expected: Object.keys(vocabulary).join(', ') });
+    }
+  }
+
+  for (const [property, range] of Object.entries(NUMERIC_PROPERTIES[label] ?? {})) {
+    const value = attributes[property];
+    if (value === undefined || value === null || value === '') continue;
+
+    const number = coerceNumber(value, range);
+    if (number !== null) {
+      normalized[property] = number;
+    } else {
+      unrecognized.push({
+        property,
+        value,
+        expected: range.max === 100 ? 'a number from 0 to 100' : 'a number',
+      });
+    }
+  }
+
+  return { attributes: normalized, unrecognized };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  aggregateBatchStatus,
+  buildBatchReport,
+  parseBatchFiles,
+  parseNdjsonBatch,
+  selectDocumentEntities,
+} from './batch';
+import type { CanonicalEntity } from './types';
+
+function entity(id: string, name: string, mergedFrom: string[]): CanonicalEntity {
+  return {
+    id,
+    type: 'Faction',
+    properties: { name },
+    aliases: [],
+    mergedFrom,
+    confidence: 0.9,
+    isNew: true,
+  };
+}
+
+describe('parseNdjsonBatch', () => {
+  it('parses one request per line and reports bad lines by number', () => {
+    const batch = parseNdjsonBatch(
+      [
+        '{"text":"The Crimson Empire rules.","sourceId":"chronicle-1"}',
+        '',
+        '{"text":""}',
+        'not json',
+        '{"text":"Preview me","dryRun":true}',
+      ].join('\n'),
+    );
+
+    expect(batch.requests).toEqual([
+      { text: 'The Crimson Empire rules.', sourceId: 'chronicle-1' },
+    ]);
+    expect(batch.errors.map((error) => error.document)).toEqual(['line 3', 'line 4', 'line 5']);
+    expect(batch.errors[0]?.issues).toEqual(['text: Text content is required']);
+  });
+});
+
+describe('parseBatchFiles', () => {
+  it('sources text files by name and expands JSON arrays', async () => {
+    const batch = await parseBatchFiles([
+      new File(['# Session 1\nThe Iron League marches.'], 'session-1.md'),
+      new File(
+        [JSON.stringify([{ text: 'First' }, { text: 'Second', sourceId: 'custom' }])],
+        'notes.json',
+      ),
+      new File(['binary'], 'map.png'),
+    ]);
+
+    expect(batch.requests.map((request) => request.sourceId)).toEqual([
+      'session-1.md',
+      'notes.json[0]',
+      'custom',
+    ]);
+    expect(batch.errors).toEqual([expect.objectContaining({ document: 'map.png' })]);
+  });
+});
+
+describe('aggregateBatchStatus', () => {
+  it('derives the batch status from its child jobs', () => {
+    expect(aggregateBatchStatus(['queued', 'queued'])).toBe('queued');
+    expect(aggregateBatchStatus(['completed', 'processing'])).toBe('processing');
+    expect(aggregateBatchStatus(['completed', 'completed'])).toBe('completed');
+    expect(aggregateBatchStatus(['failed', 'failed'])).toBe('failed');
+    expect(aggregateBatchStatus(['completed', 'failed'])).toBe('partial');
+  });
+});
+
+describe('batch canonicalization helpers', () => {
+  const empire = entity('faction-crimson-empire', 'Crimson Empire', ['doc0_a', 'doc1_a']);
+  const league = entity('faction-iron-league', 'Iron League', ['doc1_b']);
+  const covenant = entity('faction-silver-covenant', 'Silver Covenant', ['doc1_c']);
+
+  it('selects the entities a document mentions plus its relationship endpoints', () => {
+    const relationships = [
+      { fromId: 'faction-crimson-empire', type: 'IS_ALLY_OF', toId: 'faction-iron-league' },
+    ];
+
+    expect(
+      selectDocumentEntities([empire, league, covenant], new Set(['doc0_a']), relationships).map(
+        (selected) => selected.id,
+      ),
+    ).toEqual(['faction-crimson-empire', 'faction-iron-league']);
+  });
+
+  it('reports entities shared across documents once with every job that mentions them', () => {
+    const report = buildBatchReport(
+      [
+        { jobId: 'job-1', entities: [empire], relationships: [] },
+        {
+          jobId: 'job-2',
+          entities: [empire, league],
+          relationships: [
+            { fromId: 'faction-crimson-empire', type: 'IS_ALLY_OF', toId: 'faction-iron-league' },
+          ],
+        },
+      ],
+      12,
+    );
+
+    expect(report.entities).toEqual([
+      expect.objectContaining({ id: 'faction-crimson-empire', jobIds: ['job-1', 'job-2'] }),
+      expect.objectContaining({ id: 'faction-iron-league', jobIds: ['job-2'] }),
+    ]);
+    expect(report.relationships).toHaveLength(1);
+    expect(report.crossDocumentEntities).toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+import { extname } from 'node:path';
+import type { ZodError } from 'zod';
+import { buildFactId } from './provenance';
+import {
+  type BatchReport,
+  type CanonicalEntity,
+  type IngestionRequest,
+  IngestionRequestSchema,
+  type JobStatus,
+  type ResolvedRelationship,
+} from './types';
+
+/**
+ * Batch ingestion: parsing NDJSON and uploaded files into documents, and aggregating
+ * the child jobs of a batch into one status and report
+ */
+
+/**
+ * Largest number of documents accepted in one batch
+ */
+export const BATCH_MAX_DOCUMENTS = Number(Bun.env.INGESTION_BATCH_MAX_DOCUMENTS ?? 100);
+
+export const BATCH_FILE_EXTENSIONS = ['.txt', '.md', '.json'];
+
+/**
+ * A document that could not be turned into an ingestion request
+ */
+export interface BatchInputError {
+  document: string;
+  issues: string[];
+}
+
+export interface ParsedBatch {
+  requests: IngestionRequest[];
+  errors: BatchInputError[];
+}
+
+function describeIssues(error: ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+  );
+}
+
+/**
+ * Validate one candidate request; batches never run as dry runs
+ */
+function validateDocument(document: string, candidate: unknown, batch: ParsedBatch): void {
+  const parsed = IngestionRequestSchema.safeParse(candidate);
+
+  if (!parsed.success) {
+    batch.errors.push({ document, issues: describeIssues(parsed.error) });
+  } else if (parsed.data.dryRun) {
+    batch.errors.push({ document, issues: ['dryRun is not supported in batches'] });
+  } else {
+    batch.requests.push(parsed.data);
+  }
+}
+
+/**
+ * Parse newline-delimited JSON, one ingestion request per non-empty line
+ */
+export function parseNdjsonBatch(body: string): ParsedBatch {
+  const batch: ParsedBatch = { requests: [], errors: [] };
+
+  body.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+
+    const document = `line ${index + 1}`;
+    try {
+      validateDocument(document, JSON.parse(line), batch);
+    } catch (error) {
+      batch.errors.push({
+        document,
+        issues: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      });
+    }
+  });
+
+  return batch;
+}
+
+/**
+ * Turn uploaded files into ingestion requests
+ * Text and Markdown files become one document sourced by file name, Markdown parsed as an
+ * Obsidian note; JSON files hold one request object or an array of them.
+ */
+export async function parseBatchFiles(files: File[]): Promise<ParsedBatch> {
+  const batch: ParsedBatch = { requests: [], errors: [] };
+
+  for (const file of files) {
+    const extension = extname(file.name).toLowerCase();
+    const content = await file.text();
+
+    if (extension === '.txt' || extension === '.md') {
+      validateDocument(
+        file.name,
+        {
+          text: content,
+          sourceId: file.name,
+          metadata: { fileName: file.name },
+          format: extension === '.md' ? 'markdown' : 'text',
+        },
+        batch,
+      );
+      continue;
+    }
+
+    if (extension !== '.json') {
+      batch.errors.push({
+        document: file.name,
+        issues: [`Unsupported file type; expected one of ${BATCH_FILE_EXTENSIONS.join(', ')}`],
+      });
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      batch.errors.push({
+        document: file.name,
+        issues: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      });
+      continue;
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    entries.forEach((entry, index) => {
+      const name = Array.isArray(parsed) ? `${file.name}[${index}]` : file.name;
+      const candidate =
+        entry && typeof entry === 'object' ? { sourceId: name, ...entry } : (entry as unknown);
+      validateDocument(name, candidate, batch);
+    });
+  }
+
+  return batch;
+}
+
+/**
+ * Overall status of a batch from the statuses of its child jobs
+ */
+export function aggregateBatchStatus(statuses: JobStatus[]): JobStatus {
+  if (statuses.every((status) => status === 'queued')) {
+    return 'queued';
+  }
+  if (statuses.some((status) => status === 'queued' || status === 'processing')) {
+    return 'processing';
+  }
+
+  for (const uniform of ['completed', 'failed', 'cancelled'] as const) {
+    if (statuses.every((status) => status === uniform)) {
+      return uniform;
+    }
+  }
+  return 'partial';
+}
+
+/**
+ * Entities one document writes: those it mentioned, plus relationship endpoints that only
+ * resolved through another document of the batch
+ */
+export function selectDocumentEntities(
+  entities: CanonicalEntity[],
+  temporaryIds: Set<string>,
+  relationships: ResolvedRelationship[],
+): CanonicalEntity[] {
+  const endpoints = new Set(relationships.flatMap((rel) => [rel.fromId, rel.toId]));
+
+  return entities.filter(
+    (entity) => endpoints.has(entity.id) || entity.mergedFrom.some((id) => temporaryIds.has(id)),
+  );
+}
+
+/**
+ * Combine per-document entities and relationships into the batch report
+ */
+export function buildBatchReport(
+  documents: Array<{
+    jobId: string;
+    entities: CanonicalEntity[];
+    relationships: ResolvedRelationship[];
+  }>,
+  canonicalizeTimeMs: number,
+): BatchReport {
+  const entities = new Map<string, BatchReport['entities'][number]>();
+  const relationships = new Map<string, BatchReport['relationships'][number]>();
+
+  for (const document of documents) {
+    for (const entity of document.entities) {
+      const entry = entities.get(entity.id) ?? {
+        id: entity.id,
+        type: entity.type,
+        name: String(entity.properties.name ?? entity.id),
+        isNew: entity.isNew,
+        jobIds: [],
+      };
+      if (!entry.jobIds.includes(document.jobId)) entry.jobIds.push(document.jobId);
+      entities.set(entity.id, entry);
+    }
+
+    for (const rel of document.relationships) {
+      const key = buildFactId(rel.fromId, rel.type, rel.toId);
+      const entry = relationships.get(key) ?? {
+        fromId: rel.fromId,
+        type: rel.type,
+        toId: rel.toId,
+        jobIds: [],
+      };
+      if (!entry.jobIds.includes(document.jobId)) entry.jobIds.push(document.jobId);
+      relationships.set(key, entry);
+    }
+  }
+
+  const entityList = Array.from(entities.values());
+
+  return {
+    entities: entityList,
+    relationships: Array.from(relationships.values()),
+    crossDocumentEntities: entityList.filter((entity) => entity.jobIds.length > 1).length,
+    canonicalizeTimeMs,
+  };
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  canonicalizeEntities,
+  type ExistingEntity,
+  resolveRelationshipReferences,
+} from './canonicalize';
+import type { CanonicalEntity, ClassifiedEntity } from './types';
+
+function classified(
+  id: string,
+  type: string,
+  name: string,
+  mentions: string[] = [name],
+): ClassifiedEntity {
+  return {
+    id,
+    type: type as ClassifiedEntity['type'],
+    canonicalType: type,
+    mentions,
+    attributes: { name },
+    confidence: 0.9,
+  };
+}
+
+function canonical(id: string, name: string, aliases: string[] = []): CanonicalEntity {
+  return {
+    id,
+    type: 'Faction',
+    properties: { name },
+    aliases,
+    mergedFrom: [],
+    confidence: 0.9,
+    isNew: true,
+  };
+}
+
+function lookupFrom(nodes: Record<string, ExistingEntity[]>) {
+  return async (label: string) => nodes[label] ?? [];
+}
+
+describe('canonicalizeEntities', () => {
+  it('reuses the ID of an existing node matched by exact name', async () => {
+    const { entities, decisions } = await canonicalizeEntities(
+      [classified('temp_1', 'Faction', 'Crimson Empire')],
+      {
+        lookup: lookupFrom({
+          Faction: [{ id: 'faction-crimson-empire', name: 'Crimson Empire', aliases: [] }],
+        }),
+      },
+    );
+
+    expect(entities).toEqual([
+      expect.objectContaining({ id: 'faction-crimson-empire', isNew: false }),
+    ]);
+    expect(decisions[0]).toMatchObject({ action: 'matched_existing', method: 'exact', score: 1 });
+  });
+
+  it('matches stored aliases and title-stripped fuzzy names', async () => {
+    const { entities, decisions } = await canonicalizeEntities(
+      [classified('temp_1', 'Faction', 'Red Throne'), classified('temp_2', 'Character', 'Valen')],
+      {
+        lookup: lookupFrom({
+          Faction: [
+            { id: 'faction-crimson-empire', name: 'Crimson Empire', aliases: ['Red Throne'] },
+          ],
+          Character: [{ id: 'character-emperor-valen', name: 'Emperor Valen', aliases: [] }],
+        }),
+      },
+    );
+
+    expect(entities.map((entity) => entity.id)).toEqual([
+      'faction-crimson-empire',
+      'character-emperor-valen',
+    ]);
+    expect(decisions.map((decision) => decision.method)).toEqual(['alias', 'fuzzy']);
+    expect(entities[1]).toMatchObject({
+      properties: { name: 'Emperor Valen' },
+      aliases: ['Valen'],
+    });
+  });
+
+  it('carries mentions as aliases and matches later entities through them', async () => {
+    const { entities } = await canonicalizeEntities(
+      [
+        classified('temp_1', 'Faction', 'Crimson Empire', ['Crimson Empire', 'Red Throne']),
+        classified('temp_2', 'Faction', 'Red Throne', ['Red Throne', 'Scarlet Court']),
+      ],
+      { lookup: lookupFrom({}) },
+    );
+
+    expect(entities).toHaveLength(1);
+    expect(entities[0]).toMatchObject({
+      properties: { name: 'Crimson Empire' },
+      aliases: ['Red Throne', 'Scarlet Court'],
+      mergedFrom: ['temp_1', 'temp_2'],
+    });
+  });
+
+  it('neither stores nor matches pronouns and descriptions as aliases', async () => {
+    const first = await canonicalizeEntities(
+      [classified('temp_1', 'Character', 'Valen', ['Valen', 'he', 'the Emperor'])],
+      { lookup: lookupFrom({}) },
+    );
+    expect(first.entities[0]?.aliases).toEqual([]);
+
+    const { entities, decisions } = await canonicalizeEntities(
+      [classified('temp_1', 'Character', 'Mira', ['Mira', 'he'])],
+      {
+        lookup: lookupFrom({
+          Character: [{ id: 'character-valen', name: 'Valen', aliases: ['he', 'the Emperor'] }],
+        }),
+      },
+    );
+
+    expect(entities[0]).toMatchObject({ id: 'character-mira', isNew: true, aliases: [] });
+    expect(decisions[0]).toMatchObject({ action: 'created', method: null });
+  });
+
+  it('creates new entities below the threshold and merges duplicates within the job', async () => {
+    const { entities, decisions } = await canonicalizeEntities(
+      [
+        classified('temp_1', 'Location', 'Ruby Mines'),
+        classified('temp_2', 'Location', 'ruby mines'),
+        classified('temp_3', 'Location', 'Iron Keep'),
+      ],
+      {
+        lookup: lookupFrom({
+          Location: [{ id: 'location-iron-hills', name: 'Iron Hills', aliases: [] }],
+        }),
+        threshold: 0.95,
+      },
+    );
+
+    expect(entities).toHaveLength(2);
+    expect(entities[0]).toMatchObject({
+      id: 'location-ruby-mines',
+      isNew: true,
+      mergedFrom: ['temp_1', 'temp_2'],
+    });
+    expect(entities[1]).toMatchObject({ id: 'location-iron-keep', isNew: true });
+    expect(decisions.map((decision) => decision.action)).toEqual([
+      'created',
+      'merged_in_job',
+      'created',
+    ]);
+  });
+
+  it('looks up each label once with the names of that label in the job', async () => {
+    const calls: Array<[string, string[]]> = [];
+    await canonicalizeEntities(
+      [
+        classified('temp_1', 'Character', 'Valen', ['Valen', 'he']),
+        classified('temp_2', 'Faction', 'Iron League'),
+        classified('temp_3', 'Character', 'Mira Vance'),
+      ],
+      {
+        lookup: async (label, names) => {
+          calls.push([label, names]);
+          return [];
+        },
+      },
+    );
+
+    expect(calls).toEqual([
+      ['Character', ['Valen', 'Mira Vance']],
+      ['Faction', ['Iron League']],
+    ]);
+  });
+
+  it('never matches across labels', async () => {
+    const { entities } = await canonicalizeEntities(
+      [classified('temp_1', 'Location', 'Crimson Empire')],
+      {
+        lookup: lookupFrom({
+          Faction: [{ id: 'faction-crimson-empire', name: 'Crimson Empire', aliases: [] }],
+        }),
+      },
+    );
+
+    expect(entities[0]).toMatchObject({ id: 'location-crimson-empire', isNew: true });
+  });
+});
+
+describe('resolveRelationshipReferences', () => {
+  const entities = [
+    canonical('faction-crimson-empire', 'Crimson Empire', ['the Empire']),
+    canonical('faction-iron-league', 'Iron League', ['the League']),
+    canonical('faction-azure-empire', 'Azure Empire', ['the Empire']),
+  ];
+
+  it('resolves relationships through aliases', () => {
+    const { resolved, unresolved } = resolveRelationshipReferences(
+      [{ from: 'Crimson Empire', to: 'the league', type: 'IS_ALLY_OF', evidence: 'text' }],
+      entities,
+    );
+
+    expect(unresolved).toHaveLength(0);
+    expect(resolved).toEqual([
+      expect.objectContaining({
+        fromId: 'faction-crimson-empire',
+        toId: 'faction-iron-league',
+        evidence: 'text',
+      }),
+    ]);
+  });
+
+  it('reports why each unresolved relationship was dropped', () => {
+    const { resolved, unresolved } = resolveRelationshipReferences(
+      [
+        { from: 'the Empire', to: 'Iron League', type: 'IS_ALLY_OF' },
+        { from: 'Iron League', to: 'Shadow Court', type: 'IS_ALLY_OF' },
+        { from: 'the League', to: 'Iron League', type: 'IS_ALLY_OF' },
+      ],
+      entities,
+    );
+
+    expect(resolved).toHaveLength(0);
+    expect(unresolved.map((rel) => rel.reason)).toEqual([
+      'ambiguous_reference',
+      'unknown_target',
+      'self_reference',
+    ]);
+    expect(unresolved[1]?.detail).toContain('Shadow Court');
+  });
+});
@@ -1,4 +1,54 @@
-import type { CanonicalEntity, ClassifiedEntity } from './types';
+import { executeRead } from '@ace/neo4j-utilities';
+import { getOntology } from '@ace/ontology';
+import { isReferringExpression } from './coreference';
+import { coreName, nameSimilarity, normalizeName } from './similarity';
+import type {
+  CanonicalEntity,
+  ClassifiedEntity,
+  MergeDecision,
+  UnresolvedRelationship,
+} from './types';
+
+/**
+ * Existing knowledge graph node considered as a canonicalization target
+ */
+export interface ExistingEntity {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+/**
+ * Loads the existing nodes of a label that may match the given names; injectable so
+ * canonicalization can run without Neo4j
+ */
+export type ExistingEntityLookup = (label: string, names: string[]) => Promise<ExistingEntity[]>;
+
+export interface CanonicalizeOptions {
+  lookup?: ExistingEntityLookup;
+  threshold?: number;
+}
+
+export interface CanonicalizationResult {
+  entities: CanonicalEntity[];
+  decisions: MergeDecision[];
+}
+
+/**
+ * Minimum name similarity for a fuzzy match to merge two entities
+ */
+export const DEFAULT_MATCH_THRESHOLD = Number(Bun.env.CANONICALIZE_MATCH_THRESHOLD ?? 0.9);
+
+interface Candidate extends ExistingEntity {
+  existing: boolean;
+}
+
+interface CandidateMatch {
+  candidate: Candidate;
+  method: 'exact' | 'alias' | 'fuzzy';
+  score: number;
+  matchedName: string;
+}
 
 /**
  * Generate a deterministic canonical ID based on entity type and name
@@ -9,82 +59,330 @@ function generateCanonicalId(type: string, name: string): string {
   return `${type.toLowerCase()}-${normalized}`;
 }
 
+/**
+ * Word prefixes of names, used to narrow the nodes a lookup loads
+ * Jaro-Winkler weighs the start of a name, so names that score above the threshold share the
+ * start of a word in practice.
+ */
+function namePrefixes(names: string[]): string[] {
+  const prefixes = names.flatMap((name) =>
+    coreName(name)
+      .split(' ')
+      .map((word) => word.slice(0, 3))
+      .filter((prefix) => prefix.length > 0),
+  );
+  return Array.from(new Set(prefixes));
+}
+
+/**
+ * Fetch id, name and stored aliases of the nodes of an ontology label whose name or aliases
+ * share a word prefix with the given names
+ * The label is checked against the ontology before it is interpolated; other labels are
+ * never written, so they have no nodes to match.
+ */
+export async function lookupExistingEntities(
+  label: string,
+  names: string[],
+): Promise<ExistingEntity[]> {
+  const prefixes = namePrefixes(names);
+  if (!getOntology().entityType(label) || prefixes.length === 0) {
+    return [];
+  }
+
+  const result = await executeRead<{ id: string | null; name: string | null; aliases: string[] }>(
+    `
+      MATCH (n:${label})
+      WHERE n.id IS NOT NULL AND n.name IS NOT NULL
+        AND any(term IN [n.name] + coalesce(n.aliases, [])
+                WHERE any(word IN split(toLower(term), ' ') WHERE left(word, 3) IN $prefixes))
+      RETURN n.id AS id, n.name AS name, coalesce(n.aliases, []) AS aliases
+    `,
+    { prefixes },
+  );
+
+  return result.records.flatMap((record) =>
+    record.id && record.name
+      ? [{ id: record.id, name: record.name, aliases: record.aliases ?? [] }]
+      : [],
+  );
+}
+
+/**
+ * Add surface forms to an entity's alias list, skipping its name, duplicates and pronouns or
+ * descriptions that would match other entities in later jobs
+ */
+function addAliases(entity: CanonicalEntity, names: string[]): void {
+  const known = new Set(
+    [entity.properties.name, ...entity.aliases].map((value) => normalizeName(String(value ?? ''))),
+  );
+
+  for (const name of names) {
+    const normalized = normalizeName(name);
+    if (normalized.length > 0 && !known.has(normalized) && !isReferringExpression(name)) {
+      entity.aliases.push(name.trim());
+      known.add(normalized);
+    }
+  }
+}
+
+/**
+ * Name of an incoming entity followed by the mentions that are names rather than pronouns
+ * or descriptions
+ */
+function entityNames(entity: ClassifiedEntity): string[] {
+  const entityName = (entity.attributes.name as string) || entity.mentions[0] || 'unknown';
+  return [entityName, ...entity.mentions.filter((mention) => !isReferringExpression(mention))];
+}
+
+/**
+ * Score a candidate against the names of an incoming entity
+ * Exact name and alias hits score 1; otherwise the best fuzzy similarity is returned
+ */
+function matchCandidate(names: string[], candidate: Candidate): CandidateMatch {
+  const normalizedNames = names.map(normalizeName);
+
+  if (normalizedNames.includes(normalizeName(candidate.name))) {
+    return { candidate, method: 'exact', score: 1, matchedName: candidate.name };
+  }
+
+  const alias = candidate.aliases.find(
+    (value) => !isReferringExpression(value) && normalizedNames.includes(normalizeName(value)),
+  );
+  if (alias) {
+    return { candidate, method: 'alias', score: 1, matchedName: alias };
+  }
+
+  let best: CandidateMatch = { candidate, method: 'fuzzy', score: 0, matchedName: candidate.name };
+  const aliases = candidate.aliases.filter((value) => !isReferringExpression(value));
+  for (const target of [candidate.name, ...aliases]) {
+    for (const name of names) {
+      const score = nameSimilarity(name, target);
+      if (score > best.score) {
+        best = { candidate, method: 'fuzzy', score, matchedName: target };
+      }
+    }
+  }
+  return best;
+}
+
 /**
  * Canonicalize classified entities by merging duplicates and assigning permanent IDs
  * Implements the "Canonicalize" step of the EDC pattern
  *
- * In production, this would query Neo4j to check for existing entities.
- * For Phase 2, we use deterministic ID generation based on name.
+ * Each entity is compared with existing Neo4j nodes of the same label and with the
+ * entities already canonicalized in this job, by exact name, stored aliases and fuzzy
+ * similarity. Matches at or above the threshold reuse the matched ID.
  */
 export async function canonicalizeEntities(
   classifiedEntities: ClassifiedEntity[],
-): Promise<CanonicalEntity[]> {
+  options: CanonicalizeOptions = {},
+): Promise<CanonicalizationResult> {
+  const lookup = options.lookup ?? lookupExistingEntities;
+  const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+
   const canonicalMap = new Map<string, CanonicalEntity>();
+  const candidatesByLabel = new Map<string, Candidate[]>();
+  const existingIds = new Set<string>();
+  const decisions: MergeDecision[] = [];
 
+  // Names of each label in the job, so existing nodes are looked up once per label
+  const namesByLabel = new Map<string, Set<string>>();
   for (const entity of classifiedEntities) {
-    const entityName = (entity.attributes.name as string) || 'unknown';
-    const canonicalId = generateCanonicalId(entity.canonicalType, entityName);
+    const names = namesByLabel.get(entity.canonicalType) ?? new Set<string>();
+    for (const name of entityNames(entity)) names.add(name);
+    namesByLabel.set(entity.canonicalType, names);
+  }
+
+  for (const entity of classifiedEntities) {
+    const label = entity.canonicalType;
+    const names = entityNames(entity);
+    const entityName = names[0] as string;
+
+    let candidates = candidatesByLabel.get(label);
+    if (!candidates) {
+      const existing = await lookup(label, Array.from(namesByLabel.get(label) ?? []));
+      candidates = existing.map((node) => ({ ...node, existing: true }));
+      for (const node of existing) existingIds.add(node.id);
+      candidatesByLabel.set(label, candidates);
+    }
+
+    const best = candidates
+      .map((candidate) => matchCandidate(names, candidate))
+      .filter((match) => match.score >= threshold)
+      .sort((a, b) => b.score - a.score)[0];
 
+    const canonicalId = best?.candidate.id ?? generateCanonicalId(label, entityName);
     const existing = canonicalMap.get(canonicalId);
+
     if (existing) {
       // Merge with existing canonical entity
       existing.mergedFrom.push(entity.id);
+      existing.confidence = Math.max(existing.confidence, entity.confidence);
 
-      // Merge attributes (prefer higher confidence values)
+      // Merge attributes (prefer higher confidence values); the canonical name is kept
       for (const [key, value] of Object.entries(entity.attributes)) {
+        if (key === 'name' && existing.properties.name) continue;
         if (!existing.properties[key] || entity.confidence > 0.7) {
           existing.properties[key] = value;
         }
       }
+
+      addAliases(existing, names);
     } else {
-      // Create new canonical entity
-      canonicalMap.set(canonicalId, {
+      // Create canonical entity, reusing the ID and name of a matched graph node if any
+      const canonical: CanonicalEntity = {
         id: canonicalId,
-        type: entity.canonicalType,
-        properties: { ...entity.attributes },
+        type: label,
+        properties: {
+          ...entity.attributes,
+          name: best?.candidate.existing ? best.candidate.name : entityName,
+        },
+        aliases: best?.candidate.existing ? [...best.candidate.aliases] : [],
         mergedFrom: [entity.id],
-        isNew: true,
-      });
+        confidence: entity.confidence,
+        isNew: !existingIds.has(canonicalId),
+      };
+      addAliases(canonical, names);
+      canonicalMap.set(canonicalId, canonical);
+
+      if (!best) {
+        // The candidate shares the alias array so later mentions can match through it
+        candidates.push({
+          id: canonicalId,
+          name: entityName,
+          aliases: canonical.aliases,
+          existing: false,
+        });
+      }
     }
+
+    let action: MergeDecision['action'] = 'created';
+    if (best?.candidate.existing) {
+      action = 'matched_existing';
+    } else if (best || existing) {
+      action = 'merged_in_job';
+    }
+
+    decisions.push({
+      entityId: entity.id,
+      name: entityName,
+      type: label,
+      canonicalId,
+      action,
+      method: best?.method ?? null,
+      score: best ? Number(best.score.toFixed(3)) : null,
+      matchedName: best?.matchedName ?? null,
+    });
   }
 
-  return Array.from(canonicalMap.values());
+  return {
+    entities: Array.from(canonicalMap.values()),
+    decisions,
+  };
+}
+
+/**
+ * Minimal relationship shape needed to resolve mentions to canonical IDs
+ */
+export interface RelationshipReference {
+  from: string;
+  to: string;
+  type: string;
+}
+
+export interface RelationshipResolution<T extends RelationshipReference> {
+  resolved: Array<T & { fromId: string; toId: string }>;
+  unresolved: UnresolvedRelationship[];
 }
 
 /**
  * Resolve entity references in relationships to canonical IDs
+ * Every name and alias of a canonical entity resolves to it; relationships that cannot
+ * be resolved are returned with the reason they were dropped.
  */
-export function resolveRelationshipReferences(
-  relationships: Array<{ from: string; to: string; type: string }>,
+export function resolveRelationshipReferences<T extends RelationshipReference>(
+  relationships: T[],
   canonicalEntities: CanonicalEntity[],
-): Array<{ fromId: string; toId: string; type: string }> {
-  // Build mention -> canonical ID map
-  const mentionMap = new Map<string, string>();
+): RelationshipResolution<T> {
+  // Build mention -> canonical IDs map (more than one ID means the mention is ambiguous)
+  const mentionMap = new Map<string, Set<string>>();
 
   for (const entity of canonicalEntities) {
-    const name = (entity.properties.name as string)?.toLowerCase() || '';
-    if (name) {
-      mentionMap.set(name, entity.id);
+    const names = [entity.properties.name, ...entity.aliases].filter(
+      (value): value is string => typeof value === 'string' && value.length > 0,
+    );
+    for (const name of names) {
+      const normalized = normalizeName(name);
+      const ids = mentionMap.get(normalized) ?? new Set<string>();
+      ids.add(entity.id);
+      mentionMap.set(normalized, ids);
     }
   }
 
-  const resolved: Array<{ fromId: string; toId: string; type: string }> = [];
+  const resolved: Array<T & { fromId: string; toId: string }> = [];
+  const unresolved: UnresolvedRelationship[] = [];
 
   for (const rel of relationships) {
-    const fromNormalized = rel.from.toLowerCase().trim();
-    const toNormalized = rel.to.toLowerCase().trim();
+    const fromIds = mentionMap.get(normalizeName(rel.from));
+    const toIds = mentionMap.get(normalizeName(rel.to));
+
+    const failure = describeResolutionFailure(rel, fromIds, toIds);
+    if (failure) {
+      unresolved.push({ from: rel.from, to: rel.to, type: rel.type, ...failure });
+      continue;
+    }
 
-    const fromId = mentionMap.get(fromNormalized);
-    const toId = mentionMap.get(toNormalized);
+    const [fromId] = fromIds as Set<string>;
+    const [toId] = toIds as Set<string>;
+    if (!fromId || !toId) continue;
 
-    if (fromId && toId) {
-      resolved.push({
-        fromId,
-        toId,
+    if (fromId === toId) {
+      unresolved.push({
+        from: rel.from,
+        to: rel.to,
         type: rel.type,
+        reason: 'self_reference',
+        detail: `Both ends resolve to ${fromId}`,
       });
+      continue;
     }
+
+    resolved.push({ ...rel, fromId, toId });
   }
 
-  return resolved;
+  return { resolved, unresolved };
+}
+
+function describeResolutionFailure(
+  rel: RelationshipReference,
+  fromIds: Set<string> | undefined,
+  toIds: Set<string> | undefined,
+): Pick<UnresolvedRelationship, 'reason' | 'detail'> | null {
+  if (!fromIds && !toIds) {
+    return {
+      reason: 'unknown_source_and_target',
+      detail: `Neither "${rel.from}" nor "${rel.to}" matches an extracted entity name or alias`,
+    };
+  }
+  if (!fromIds) {
+    return {
+      reason: 'unknown_source',
+      detail: `"${rel.from}" does not match an extracted entity name or alias`,
+    };
+  }
+  if (!toIds) {
+    return {
+      reason: 'unknown_target',
+      detail: `"${rel.to}" does not match an extracted entity name or alias`,
+    };
+  }
+  if (fromIds.size > 1 || toIds.size > 1) {
+    const mention = fromIds.size > 1 ? rel.from : rel.to;
+    const ids = Array.from(fromIds.size > 1 ? fromIds : toIds);
+    return {
+      reason: 'ambiguous_reference',
+      detail: `"${mention}" matches several entities: ${ids.join(', ')}`,
+    };
+  }
+  return null;
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'bun:test';
+
+import { chunkText, estimateTokens } from './chunk';
+
+const sentence = (n: number) => `Sentence number ${n} describes the Crimson Empire in detail. `;
+
+describe('chunkText', () => {
+  it('returns a single chunk for short text', () => {
+    const text = 'Emperor Valen rules the Crimson Empire.';
+    const chunks = chunkText(text, { maxTokens: 100, overlapTokens: 10 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, start: 0, end: text.length, text });
+  });
+
+  it('keeps every chunk within the token budget and records offsets', () => {
+    const text = Array.from({ length: 40 }, (_, i) => sentence(i)).join('');
+    const chunks = chunkText(text, { maxTokens: 60, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(60);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+    expect(chunks[0]?.start).toBe(0);
+    expect(chunks[chunks.length - 1]?.end).toBe(text.length);
+  });
+
+  it('covers text that no sentence matches', () => {
+    const text = `...\n${sentence(1)}\n?!\n${Array.from({ length: 10 }, (_, i) => sentence(i)).join('')}...`;
+    const chunks = chunkText(text, { maxTokens: 30, overlapTokens: 0 });
+
+    expect(chunks[0]?.start).toBe(0);
+    expect(chunks.map((chunk) => chunk.text).join('')).toBe(text);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]?.start).toBe(chunks[i - 1]?.end);
+    }
+  });
+
+  it('overlaps consecutive chunks by trailing sentences', () => {
+    const text = Array.from({ length: 20 }, (_, i) => sentence(i)).join('');
+    const chunks = chunkText(text, { maxTokens: 60, overlapTokens: 20 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1];
+      const current = chunks[i];
+      expect(current?.start).toBeLessThan(previous?.end ?? 0);
+      expect(current?.start).toBeGreaterThan(previous?.start ?? 0);
+    }
+  });
+
+  it('hard-splits sentences longer than the chunk budget', () => {
+    const text = 'a'.repeat(2000);
+    const chunks = chunkText(text, { maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks).toHaveLength(5);
+    expect(chunks.every((chunk) => chunk.tokenCount <= 100)).toBe(true);
+  });
+
+  it('rejects an overlap that is not smaller than the chunk size', () => {
+    expect(() => chunkText('text', { maxTokens: 100, overlapTokens: 100 })).toThrow(
+      'Chunk overlap must be non-negative and smaller than the chunk size',
+    );
+  });
+});
+
+describe('estimateTokens', () => {
+  it('approximates four characters per token', () => {
+    expect(estimateTokens('abcd'.repeat(10))).toBe(10);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Token-aware text chunking for long lore documents
+ * Splits on sentence boundaries so each extraction prompt stays within the model budget
+ */
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  tokenCount: number;
+}
+
+/**
+ * Default chunking budget, overridable per deployment
+ */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: Number(Bun.env.EXTRACTION_CHUNK_TOKENS ?? 1200),
+  overlapTokens: Number(Bun.env.EXTRACTION_CHUNK_OVERLAP_TOKENS ?? 150),
+};
+
+// Average characters per token for Llama-family tokenizers on English prose
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a passage without loading a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+/**
+ * Split text into sentence-level segments with character offsets
+ * Text no sentence covers (a leading "...", a line of only punctuation) becomes a segment of
+ * its own, so the segments cover the whole text. Segments longer than the chunk budget are
+ * hard-split so none overflows.
+ */
+function segmentText(text: string, maxTokens: number): Segment[] {
+  const segments: Segment[] = [];
+  const sentencePattern = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)\s*/g;
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+
+  const addSegments = (from: number, to: number) => {
+    for (let start = from; start < to; start += maxChars) {
+      const end = Math.min(start + maxChars, to);
+      segments.push({ start, end, tokens: estimateTokens(text.slice(start, end)) });
+    }
+  };
+
+  let covered = 0;
+  for (const match of text.matchAll(sentencePattern)) {
+    if (match[0].length === 0) continue;
+
+    const matchStart = match.index ?? 0;
+    addSegments(covered, matchStart);
+    addSegments(matchStart, matchStart + match[0].length);
+    covered = matchStart + match[0].length;
+  }
+  addSegments(covered, text.length);
+
+  return segments;
+}
+
+/**
+ * Chunk text into overlapping windows of at most `maxTokens` estimated tokens
+ * Consecutive chunks share up to `overlapTokens` of trailing sentences for context
+ */
+export function chunkText(
+  text: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+): TextChunk[] {
+  const { maxTokens, overlapTokens } = options;
+
+  if (maxTokens <= 0) {
+    throw new Error('Chunk size must be a positive number of tokens');
+  }
+  if (overlapTokens < 0 || overlapTokens >= maxTokens) {
+    throw new Error('Chunk overlap must be non-negative and smaller than the chunk size');
+  }
+
+  const segments = segmentText(text, maxTokens);
+  const chunks: TextChunk[] = [];
+
+  let first = 0;
+  while (first < segments.length) {
+    let last = first;
+    let tokens = segments[first]?.tokens ?? 0;
+
+    while (last + 1 < segments.length) {
+      const nextTokens = segments[last + 1]?.tokens ?? 0;
+      if (tokens + nextTokens > maxTokens) break;
+      tokens += nextTokens;
+      last++;
+    }
+
+    const start = segments[first]?.start ?? 0;
+    const end = segments[last]?.end ?? text.length;
+    chunks.push({
+      index: chunks.length,
+      text: text.slice(start, end),
+      start,
+      end,
+      tokenCount: tokens,
+    });
+
+    if (last + 1 >= segments.length) break;
+
+    // Walk back from the end of this chunk to build the overlap for the next one
+    let next = last + 1;
+    let overlap = 0;
+    while (next - 1 > first) {
+      const previousTokens = segments[next - 1]?.tokens ?? 0;
+      if (overlap + previousTokens > overlapTokens) break;
+      overlap += previousTokens;
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'bun:test';
+
+import { resolveCoreferences } from './coreference';
+import type { ExtractedEntity, ExtractedRelationship } from './types';
+
+function entity(
+  type: string,
+  name: string,
+  mentions: string[] = [name],
+  attributes: Record<string, unknown> = {},
+): ExtractedEntity {
+  return { type, mentions, attributes: { name, ...attributes }, confidence: 0.9 };
+}
+
+function relationship(from: string, to: string, type: string, evidence: string) {
+  return { from, to, type, evidence, confidence: 0.8 } satisfies ExtractedRelationship;
+}
+
+const IMPERIAL_CHRONICLE = `Emperor Valerian ruled the Solar Throne from Aurelia. The city was
+the heart of the empire. The Imperial Legions marched north under Marshal Corvin. The Emperor
+sent his legions to crush the Order of the Silver Flame. The order retreated to Highwatch, a
+fortress in the mountains, where it held out for a winter.`;
+
+const BORDER_TALE = `Kael Stormborn was born in Dunmere. Years later Mira Vance found him in the ruins.
+The Iron League hired them both; they paid in gold.`;
+
+describe('resolveCoreferences', () => {
+  const imperialEntities = [
+    entity('Character', 'Valerian', ['Emperor Valerian', 'Valerian']),
+    entity('Character', 'Corvin', ['Marshal Corvin'], { role: 'Marshal of the Legions' }),
+    entity('Faction', 'Imperial Legions'),
+    entity('Faction', 'Order of the Silver Flame'),
+    entity('Location', 'Aurelia'),
+    entity('Location', 'Highwatch'),
+  ];
+
+  it('resolves titles and possessive descriptions through the extracted mentions', () => {
+    const { relationships, links } = resolveCoreferences(IMPERIAL_CHRONICLE, imperialEntities, [
+      relationship(
+        'the Emperor',
+        'his legions',
+        'COMMANDS',
+        'The Emperor sent his legions to crush the Order of the Silver Flame',
+      ),
+    ]);
+
+    expect(relationships[0]).toMatchObject({ from: 'Valerian', to: 'Imperial Legions' });
+    expect(links).toEqual([
+      {
+        reference: 'the Emperor',
+        entity: 'Valerian',
+        type: 'Character',
+        method: 'mention',
+        rationale: '"the Emperor" matches the mention "Emperor Valerian" of Valerian',
+        evidence: 'The Emperor sent his legions to crush the Order of the Silver Flame',
+      },
+      expect.objectContaining({ reference: 'his legions', entity: 'Imperial Legions' }),
+    ]);
+  });
+
+  it('resolves definite descriptions and pronouns to the most recent compatible entity', () => {
+    const { relationships, links } = resolveCoreferences(IMPERIAL_CHRONICLE, imperialEntities, [
+      relationship('the order', 'Highwatch', 'LOCATED_IN', 'The order retreated to Highwatch'),
+      relationship('it', 'Highwatch', 'CONTROLS', 'where it held out for a winter'),
+      relationship('the city', 'Valerian', 'RULED_BY', 'The city was the heart of the empire'),
+    ]);
+
+    expect(relationships.map((rel) => rel.from)).toEqual([
+      'Order of the Silver Flame',
+      'Order of the Silver Flame',
+      'Aurelia',
+    ]);
+    expect(links.map((link) => [link.method, link.rationale])).toEqual([
+      ['mention', '"the order" matches the name of Order of the Silver Flame'],
+      [
+        'pronoun',
+        '"it" refers to a Faction; Order of the Silver Flame is the most recent one mentioned before it',
+      ],
+      ['type', '"the city" names a Location; Aurelia is the most recent one mentioned before it'],
+    ]);
+  });
+
+  it('matches descriptive attributes such as roles', () => {
+    const { relationships, links } = resolveCoreferences(
+      'Corvin led the vanguard. The commander answered to Valerian.',
+      [
+        entity('Character', 'Corvin', ['Corvin'], { role: 'Commander of the Vanguard' }),
+        entity('Character', 'Valerian'),
+      ],
+      [relationship('the commander', 'Valerian', 'SERVES', 'The commander answered to Valerian')],
+    );
+
+    expect(relationships[0]?.from).toBe('Corvin');
+    expect(links[0]?.rationale).toBe(
+      '"the commander" matches the role "Commander of the Vanguard" of Corvin',
+    );
+  });
+
+  it('resolves pronouns to an earlier compatible entity other than the other endpoint', () => {
+    const entities = [
+      entity('Character', 'Kael Stormborn'),
+      entity('Character', 'Mira Vance'),
+      entity('Location', 'Dunmere'),
+      entity('Faction', 'Iron League'),
+    ];
+
+    const { relationships, links } = resolveCoreferences(BORDER_TALE, entities, [
+      relationship('Mira Vance', 'him', 'ALLIED_WITH', 'Mira Vance found him in the ruins'),
+      relationship('Iron League', 'they', 'EMPLOYS', 'they paid in gold'),
+      relationship('she', 'Dunmere', 'BORN_IN', 'Kael Stormborn was born in Dunmere'),
+    ]);
+
+    expect(relationships.map((rel) => [rel.from, rel.to])).toEqual([
+      ['Mira Vance', 'Kael Stormborn'],
+      ['Iron League', 'they'],
+      ['she', 'Dunmere'],
+    ]);
+    expect(links.map((link) => link.rationale)).toEqual([
+      '"him" refers to a Character; Kael Stormborn is the most recent one mentioned before it',
+    ]);
+  });
+
+  it('places paraphrased references by their chunk span in the raw text', () => {
+    const divider = `\n${'='.repeat(200)}\n`;
+    const text = `The Iron League crossed the river; they camped at dusk.${divider}The Red Hand arrived next; they burned the bridge. The Grey Wardens came last, and they watched.`;
+    const chunkStart = text.indexOf('The Red Hand');
+
+    const { relationships } = resolveCoreferences(
+      text,
+      [
+        entity('Faction', 'Iron League'),
+        entity('Faction', 'Red Hand'),
+        entity('Faction', 'Grey Wardens'),
+      ],
+      [
+        {
+          ...relationship(
+            'they',
+            'Ashford Bridge',
+            'DESTROYED',
+            'The bridge at Ashford was burned',
+          ),
+          spans: [{ chunkIndex: 1, start: chunkStart, end: text.length }],
+        },
+      ],
+    );
+
+    expect(relationships[0]?.from).toBe('Red Hand');
+  });
+
+  it('leaves names, unmatched and ambiguous references as extracted', () => {
+    const entities = [
+      entity('Faction', 'Iron League'),
+      entity('Faction', 'Ash Guild'),
+      entity('Faction', 'Salt Guild'),
+    ];
+    const relationships = [
+      relationship('Iron League', 'the guild', 'RIVAL_OF', 'Iron League and the guild'),
+      relationship('the dragon', 'Iron League', 'ATTACKED', 'the dragon burned the league'),
+    ];
+
+    const resolution = resolveCoreferences(
+      'The guild feuded with everyone.',
+      entities,
+      relationships,
+    );
+
+    expect(resolution.relationships).toEqual(relationships);
+    expect(resolution.links).toEqual([]);
+  });
+});
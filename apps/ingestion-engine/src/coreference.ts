@@ -0,0 +1,329 @@
+import { getOntology } from '@ace/ontology';
+import { normalizeName } from './similarity';
+import type { CoreferenceLink, ExtractedEntity, ExtractedRelationship } from './types';
+
+/**
+ * Heuristic coreference resolution between Extract and Canonicalize: relationship endpoints
+ * that name no extracted entity ("the Emperor", "he", "his legions") are resolved to an
+ * entity of the same document, using entity type, recency and the extracted mentions
+ */
+
+/**
+ * Pronouns and the labels they can refer to; `null` stands for any label but Character
+ */
+export const PRONOUNS: Record<string, string[] | null> = {
+  he: ['Character'],
+  him: ['Character'],
+  his: ['Character'],
+  himself: ['Character'],
+  she: ['Character'],
+  her: ['Character'],
+  hers: ['Character'],
+  herself: ['Character'],
+  it: null,
+  its: null,
+  itself: null,
+  they: ['Faction'],
+  them: ['Faction'],
+  their: ['Faction'],
+  theirs: ['Faction'],
+  themselves: ['Faction'],
+};
+
+/**
+ * Words that open a definite description; possessives describe what the owner holds
+ */
+export const DETERMINERS = new Set([
+  'the',
+  'this',
+  'that',
+  'these',
+  'those',
+  'said',
+  'his',
+  'her',
+  'its',
+  'their',
+]);
+
+/**
+ * Whether a mention is a pronoun or a determiner-led description ("he", "the Emperor") rather
+ * than a name, so it refers to different entities in different documents
+ */
+export function isReferringExpression(mention: string): boolean {
+  const [first = '', ...rest] = normalizeName(mention).split(' ');
+  return (rest.length === 0 && first in PRONOUNS) || DETERMINERS.has(first);
+}
+
+/**
+ * Strength of each kind of match; a stronger match wins over a more recent one
+ */
+const MATCH_STRENGTH: Record<CoreferenceLink['method'], number> = {
+  mention: 3,
+  attribute: 2,
+  type: 1,
+  pronoun: 1,
+};
+
+interface Antecedent {
+  entity: ExtractedEntity;
+  name: string;
+  mentionWords: Map<string, string>; // Singular word -> mention containing it
+  positions: number[]; // Offsets of the entity's mentions in the text, ascending
+}
+
+interface Candidate {
+  antecedent: Antecedent;
+  method: CoreferenceLink['method'];
+  matched: string;
+  recency: number; // Offset of the last mention before the reference, -1 if none
+}
+
+export interface CoreferenceResolution<T extends ExtractedRelationship> {
+  relationships: T[];
+  links: CoreferenceLink[];
+}
+
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Offsets of every whole-word occurrence of a term in normalized text
+ */
+function findOccurrences(text: string, term: string): number[] {
+  if (term.length === 0) return [];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'gu');
+  return Array.from(text.matchAll(pattern), (match) => match.index);
+}
+
+function entityName(entity: ExtractedEntity): string {
+  const name = entity.attributes.name;
+  return typeof name === 'string' && name.length > 0 ? name : (entity.mentions[0] ?? '');
+}
+
+function buildAntecedent(entity: ExtractedEntity, text: string): Antecedent {
+  const name = entityName(entity);
+  const mentions = Array.from(new Set([name, ...entity.mentions]));
+  const mentionWords = new Map<string, string>();
+  for (const mention of mentions) {
+    for (const word of normalizeName(mention).split(' ')) {
+      if (!DETERMINERS.has(word) && word !== 'of' && !mentionWords.has(singular(word))) {
+        mentionWords.set(singular(word), mention);
+      }
+    }
+  }
+
+  return {
+    entity,
+    name,
+    mentionWords,
+    positions: mentions
+      .flatMap((mention) => findOccurrences(text, normalizeName(mention)))
+      .sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Offset of the reference in the normalized text: inside the relationship's evidence when the
+ * evidence is quoted from the text, otherwise its first occurrence from the relationship's chunk
+ * Chunk spans are offsets in the raw text, so the text before the chunk is normalized to
+ * find where the chunk starts.
+ */
+function locateReference(
+  text: string,
+  normalizedText: string,
+  reference: string,
+  relationship: ExtractedRelationship,
+): number {
+  const evidence = normalizeName(relationship.evidence);
+  const evidenceStart = evidence.length > 0 ? normalizedText.indexOf(evidence) : -1;
+  if (evidenceStart >= 0) {
+    const [inEvidence] = findOccurrences(evidence, reference);
+    return evidenceStart + (inEvidence ?? 0);
+  }
+
+  const span = relationship.spans?.[0];
+  const spanStart = span ? normalizeName(text.slice(0, span.start)).length : 0;
+  const occurrences = findOccurrences(normalizedText, reference);
+  return (
+    occurrences.find((offset) => offset >= spanStart) ?? occurrences.at(-1) ?? Number.MAX_VALUE
+  );
+}
+
+/**
+ * Head noun of a description: the last word before an "of" phrase ("the order of mages")
+ */
+function headNoun(words: string[]): string | null {
+  const ofIndex = words.indexOf('of');
+  const head = ofIndex > 0 ? words[ofIndex - 1] : words.at(-1);
+  return head ? singular(head) : null;
+}
+
+/**
+ * How an entity can be the referent of a reference, if at all
+ */
+function matchAntecedent(
+  reference: string,
+  antecedent: Antecedent,
+): Pick<Candidate, 'method' | 'matched'> | null {
+  const words = reference.split(' ');
+  const { entity } = antecedent;
+
+  if (words.length === 1 && (words[0] as string) in PRONOUNS) {
+    const labels = PRONOUNS[words[0] as string];
+    const compatible = labels ? labels.includes(entity.type) : entity.type !== 'Character';
+    return compatible ? { method: 'pronoun', matched: entity.type } : null;
+  }
+
+  const hasDeterminer = DETERMINERS.has(words[0] as string);
+  const head = headNoun(hasDeterminer ? words.slice(1) : words);
+  if (!head) return null;
+
+  const mention = antecedent.mentionWords.get(head);
+  if (mention) {
+    return {
+      method: 'mention',
+      matched: mention === antecedent.name ? 'name' : `mention "${mention}"`,
+    };
+  }
+
+  for (const [property, value] of Object.entries(entity.attributes)) {
+    if (property === 'name' || typeof value !== 'string') continue;
+    if (normalizeName(value).split(' ').map(singular).includes(head)) {
+      return { method: 'attribute', matched: `${property.replaceAll('_', ' ')} "${value}"` };
+    }
+  }
+
+  // A bare noun is more likely an unextracted name than a description of a known entity
+  if (hasDeterminer && getOntology().resolveEntityType(head) === entity.type) {
+    return { method: 'type', matched: entity.type };
+  }
+  return null;
+}
+
+function describeLink(reference: string, best: Candidate, rivals: number): string {
+  const { antecedent, method, matched } = best;
+  const position =
+    best.recency >= 0
+      ? 'the most recent one mentioned before it'
+      : 'the only one, mentioned after it';
+
+  switch (method) {
+    case 'pronoun':
+      return `"${reference}" refers to a ${matched}; ${antecedent.name} is ${position}`;
+    case 'type':
+      return `"${reference}" names a ${matched}; ${antecedent.name} is ${position}`;
+    default: {
+      const choice = rivals > 0 ? `, the most recent of ${rivals + 1} matching entities` : '';
+      return `"${reference}" matches the ${matched} of ${antecedent.name}${choice}`;
+    }
+  }
+}
+
+/**
+ * Pick the referent: the strongest match, then the most recently mentioned before the
+ * reference. Pronouns only look back; descriptions may point forward when the match is unique.
+ */
+function resolveReference(
+  value: string,
+  reference: string,
+  position: number,
+  antecedents: Antecedent[],
+  excluded: ExtractedEntity | undefined,
+): { antecedent: Antecedent; method: CoreferenceLink['method']; rationale: string } | null {
+  const candidates: Candidate[] = [];
+  for (const antecedent of antecedents) {
+    if (antecedent.entity === excluded) continue;
+    const match = matchAntecedent(reference, antecedent);
+    if (!match) continue;
+
+    const recency = antecedent.positions.filter((offset) => offset < position).at(-1) ?? -1;
+    candidates.push({ antecedent, ...match, recency });
+  }
+
+  candidates.sort(
+    (a, b) => MATCH_STRENGTH[b.method] - MATCH_STRENGTH[a.method] || b.recency - a.recency,
+  );
+  const [best] = candidates;
+  if (!best) return null;
+
+  const sameStrength = candidates.filter(
+    (candidate) => MATCH_STRENGTH[candidate.method] === MATCH_STRENGTH[best.method],
+  );
+  if (best.recency < 0 && (best.method === 'pronoun' || sameStrength.length > 1)) {
+    return null;
+  }
+
+  return {
+    antecedent: best.antecedent,
+    method: best.method,
+    rationale: describeLink(value, best, sameStrength.length - 1),
+  };
+}
+
+/**
+ * Resolve relationship endpoints that match no extracted mention to entities of the
+ * document, and rewrite them to the entity's name so canonicalization can resolve them
+ * Each distinct resolution is returned with its rationale; endpoints that stay ambiguous or
+ * unmatched are left as extracted.
+ */
+export function resolveCoreferences<T extends ExtractedRelationship>(
+  text: string,
+  entities: ExtractedEntity[],
+  relationships: T[],
+): CoreferenceResolution<T> {
+  const normalizedText = normalizeName(text);
+  const antecedents = entities.map((entity) => buildAntecedent(entity, normalizedText));
+
+  const byMention = new Map<string, Antecedent>();
+  for (const antecedent of antecedents) {
+    for (const mention of [antecedent.name, ...antecedent.entity.mentions]) {
+      byMention.set(normalizeName(mention), antecedent);
+    }
+  }
+
+  const links = new Map<string, CoreferenceLink>();
+  const resolveEndpoint = (value: string, other: string, relationship: T): string => {
+    const reference = normalizeName(value);
+    if (reference.length === 0 || byMention.has(reference)) return value;
+
+    const position = locateReference(text, normalizedText, reference, relationship);
+    const resolution = resolveReference(
+      value,
+      reference,
+      position,
+      antecedents,
+      byMention.get(normalizeName(other))?.entity,
+    );
+    if (!resolution) return value;
+
+    const { antecedent, method, rationale } = resolution;
+    const key = `${reference}\u0000${antecedent.name}`;
+    if (!links.has(key)) {
+      links.set(key, {
+        reference: value,
+        entity: antecedent.name,
+        type: antecedent.entity.type,
+        method,
+        rationale,
+        evidence: relationship.evidence,
+      });
+    }
+    return antecedent.name;
+  };
+
+  const resolved = relationships.map((relationship) => {
+    const from = resolveEndpoint(relationship.from, relationship.to, relationship);
+    const to = resolveEndpoint(relationship.to, from, relationship);
+    return from === relationship.from && to === relationship.to
+      ? relationship
+      : { ...relationship, from, to };
+  });
+
+  return { relationships: resolved, links: Array.from(links.values()) };
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+
+import {
+  classifyEntities,
+  classifyRelationships,
+  clearEmbeddingCache,
+  type PhraseEmbedder,
+} from './define';
+import type { ExtractedRelationship } from './types';
+
+/**
+ * Embeds text as counts of a few concept words, so related phrases point the same way
+ */
+const CONCEPTS: Record<string, string[]> = {
+  allegiance: ['fealty', 'vassal', 'member', 'belongs', 'serves'],
+  command: ['leads', 'commands', 'heads'],
+  place: ['located', 'situated', 'found', 'location'],
+};
+
+function createEmbedder(): PhraseEmbedder & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    async generateEmbedding(text: string) {
+      calls.push(text);
+      const words = text.toLowerCase().split(/\W+/);
+      const embedding = Object.values(CONCEPTS).map(
+        (keywords) => words.filter((word) => keywords.includes(word)).length,
+      );
+      return { embedding, model: 'test', embeddingTimeMs: 0 };
+    },
+  };
+}
+
+function relationship(type: string): ExtractedRelationship {
+  return { from: 'Aldric', to: 'Iron League', type, evidence: 'text', confidence: 0.9 };
+}
+
+describe('classifyRelationships', () => {
+  beforeEach(() => clearEmbeddingCache());
+
+  it('maps exact type names and synonyms without embedding them', async () => {
+    const embedder = createEmbedder();
+    const [classified] = await classifyRelationships([relationship('member of')], embedder);
+
+    expect(classified).toMatchObject({ type: 'MEMBER_OF', typeMethod: 'exact', typeScore: 1 });
+    expect(classified?.rawType).toBe('member of');
+    expect(embedder.calls).toEqual([]);
+  });
+
+  it('maps paraphrases to the most similar ontology type', async () => {
+    const [fealty, vassal] = await classifyRelationships(
+      [relationship('swore fealty to'), relationship('is the vassal of')],
+      createEmbedder(),
+    );
+
+    expect(fealty).toMatchObject({ type: 'MEMBER_OF', typeMethod: 'embedding' });
+    expect(vassal).toMatchObject({ type: 'MEMBER_OF', rawType: 'is the vassal of' });
+  });
+
+  it('leaves phrases below the threshold unmapped', async () => {
+    const [classified] = await classifyRelationships(
+      [relationship('betrayed')],
+      createEmbedder(),
+      0.75,
+    );
+
+    expect(classified).toMatchObject({ type: 'BETRAYED', typeMethod: 'unmapped' });
+  });
+
+  it('embeds each phrase and ontology description once', async () => {
+    const embedder = createEmbedder();
+    await classifyRelationships(
+      [relationship('swore fealty to'), relationship('Swore fealty to')],
+      embedder,
+    );
+    const firstRun = embedder.calls.length;
+    await classifyRelationships([relationship('swore fealty to')], embedder);
+
+    expect(embedder.calls.filter((text) => text === 'swore fealty to')).toHaveLength(1);
+    expect(embedder.calls).toHaveLength(firstRun);
+  });
+
+  it('falls back to exact matching when embeddings fail', async () => {
+    const embedder: PhraseEmbedder = {
+      generateEmbedding: () => Promise.reject(new Error('Ollama unavailable')),
+    };
+    const classified = await classifyRelationships(
+      [relationship('leads'), relationship('swore fealty to')],
+      embedder,
+    );
+
+    expect(classified.map((rel) => rel.type)).toEqual(['COMMANDS', 'SWORE_FEALTY_TO']);
+  });
+});
+
+describe('classifyEntities', () => {
+  it('normalizes attributes and reports missing or unrecognized values', () => {
+    const { entities, attributeReports } = classifyEntities([
+      {
+        type: 'Faction',
+        mentions: ['Iron League'],
+        attributes: { alignment: 'hostile' },
+        confidence: 0.9,
+      },
+      {
+        type: 'Location',
+        mentions: ['Skyreach'],
+        attributes: { name: 'Skyreach', type: 'floating island' },
+        confidence: 0.8,
+      },
+      {
+        type: 'Character',
+        mentions: ['Aldric'],
+        attributes: { name: 'Aldric', role: 'Commander' },
+        confidence: 0.9,
+      },
+    ]);
+
+    expect(entities[0]?.attributes.alignment).toBe('RIVAL');
+    expect(attributeReports).toEqual([
+      {
+        name: 'Skyreach',
+        type: 'Location',
+        missing: [],
+        unrecognized: [expect.objectContaining({ property: 'type', value: 'floating island' })],
+      },
+    ]);
+  });
+
+  it('reports required properties without a value', () => {
+    const { attributeReports } = classifyEntities([
+      { type: 'Event', mentions: ['The Sundering'], attributes: { type: 'war' }, confidence: 1 },
+    ]);
+
+    expect(attributeReports).toEqual([
+      { name: 'The Sundering', type: 'Event', missing: ['timestamp'], unrecognized: [] },
+    ]);
+  });
+});
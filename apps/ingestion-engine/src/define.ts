@@ -1,125 +1,224 @@
-import type { ClassifiedEntity, ExtractedEntity } from './types';
-
-/**
- * Ontology mapping for entity types
- * Maps extracted types to canonical Neo4j node labels
- */
-const ONTOLOGY_MAPPING: Record<string, string> = {
-  Faction: 'Faction',
-  Character: 'Character',
-  Location: 'Location',
-  Resource: 'Resource',
-  Event: 'Event',
-};
-
-/**
- * Relationship type mapping to canonical Neo4j relationship types
- */
-export const RELATIONSHIP_MAPPING: Record<string, string> = {
-  // Faction relationships
-  controls: 'CONTROLS_RESOURCE',
-  owns: 'CONTROLS_RESOURCE',
-  possesses: 'CONTROLS_RESOURCE',
-  'allied with': 'IS_ALLY_OF',
-  allies: 'IS_ALLY_OF',
-  'partner of': 'IS_ALLY_OF',
-
-  // Character relationships
-  'member of': 'MEMBER_OF',
-  'belongs to': 'MEMBER_OF',
-  serves: 'MEMBER_OF',
-  leads: 'COMMANDS',
-  commands: 'COMMANDS',
-  heads: 'COMMANDS',
-  'participated in': 'PARTICIPATED_IN',
-  'fought in': 'PARTICIPATED_IN',
-  attended: 'PARTICIPATED_IN',
-
-  // Location relationships
-  'located in': 'LOCATED_IN',
-  'situated in': 'LOCATED_IN',
-  'found in': 'LOCATED_IN',
-};
+import { getOntology, normalizeTerm } from '@ace/ontology';
+import type { VectorClient } from '@ace/vector-client';
+import { normalizeAttributes } from './attributes';
+import type {
+  AttributeReport,
+  ClassifiedEntity,
+  ClassifiedRelationship,
+  ExtractedEntity,
+  ExtractedRelationship,
+} from './types';
+
+export interface DefinedEntities {
+  entities: ClassifiedEntity[];
+  attributeReports: AttributeReport[];
+}
 
 /**
  * Define (classify) extracted entities against the knowledge graph ontology
- * Implements the "Define" step of the EDC pattern
+ * Implements the "Define" step of the EDC pattern: attributes are normalized onto the core
+ * enums and entities missing required properties or holding unrecognized values are reported
  */
-export function classifyEntities(extractedEntities: ExtractedEntity[]): ClassifiedEntity[] {
-  return extractedEntities.map((entity, index) => {
-    const canonicalType = ONTOLOGY_MAPPING[entity.type] || entity.type;
+export function classifyEntities(extractedEntities: ExtractedEntity[]): DefinedEntities {
+  const attributeReports: AttributeReport[] = [];
+
+  const entities = extractedEntities.map((entity, index) => {
+    const canonicalType = getOntology().resolveEntityType(entity.type) ?? entity.type;
+    const { attributes, unrecognized } = normalizeAttributes(canonicalType, entity.attributes);
+    // Canonicalize names entities by their first mention when no name was extracted
+    const name = (attributes.name as string) || entity.mentions[0] || '';
+    const { missing } = validateEntityAttributes(canonicalType, { ...attributes, name });
+
+    if (missing.length > 0 || unrecognized.length > 0) {
+      attributeReports.push({
+        name,
+        type: canonicalType,
+        missing,
+        unrecognized,
+      });
+    }
 
     return {
       id: `temp_${entity.type.toLowerCase()}_${index}_${Date.now()}`,
       type: entity.type,
       canonicalType,
-      attributes: entity.attributes,
+      mentions: entity.mentions,
+      attributes,
       confidence: entity.confidence,
     };
   });
+
+  return { entities, attributeReports };
 }
 
 /**
  * Normalize relationship type to canonical format
+ * Ontology types and their exact synonyms map to the ontology type; anything else becomes
+ * upper snake case for the generic writer
  */
 export function normalizeRelationshipType(rawType: string): string {
-  const normalized = rawType.toLowerCase().trim();
+  return (
+    getOntology().resolveRelationshipType(rawType, { partial: false }) ??
+    rawType
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+  );
+}
+
+/**
+ * Minimum cosine similarity between a phrase and an ontology type for the phrase to take
+ * that type; weaker matches are written as unmapped types
+ */
+export const DEFAULT_RELATIONSHIP_THRESHOLD = Number(Bun.env.DEFINE_RELATIONSHIP_THRESHOLD ?? 0.75);
+
+const EMBEDDING_CACHE_SIZE = Number(Bun.env.DEFINE_EMBEDDING_CACHE_SIZE ?? 2000);
+
+/**
+ * Source of text embeddings; the shared VectorClient in the pipeline
+ */
+export type PhraseEmbedder = Pick<VectorClient, 'generateEmbedding'>;
+
+// Embeddings by normalized text, shared by every job in the worker and evicted oldest first
+const embeddingCache = new Map<string, Promise<number[]>>();
+
+function embed(embedder: PhraseEmbedder, text: string): Promise<number[]> {
+  const key = normalizeTerm(text);
+  const cached = embeddingCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = embedder.generateEmbedding(key).then((result) => result.embedding);
+  // Failed requests are not cached, so the next job tries again
+  pending.catch(() => embeddingCache.delete(key));
+  embeddingCache.set(key, pending);
+  if (embeddingCache.size > EMBEDDING_CACHE_SIZE) {
+    const [oldest] = embeddingCache.keys();
+    if (oldest !== undefined) embeddingCache.delete(oldest);
+  }
+  return pending;
+}
+
+export function clearEmbeddingCache(): void {
+  embeddingCache.clear();
+}
 
-  // Check for exact matches
-  if (RELATIONSHIP_MAPPING[normalized]) {
-    return RELATIONSHIP_MAPPING[normalized];
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    const left = a[index] ?? 0;
+    const right = b[index] ?? 0;
+    dot += left * right;
+    normA += left * left;
+    normB += right * right;
   }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
 
-  // Check for partial matches
-  for (const [key, value] of Object.entries(RELATIONSHIP_MAPPING)) {
-    if (normalized.includes(key)) {
-      return value;
+/**
+ * Texts that describe an ontology relationship type: its name, description and synonyms
+ */
+function relationshipTypeTexts(type: string): string[] {
+  const definition = getOntology().relationshipType(type);
+  return [type, definition?.description ?? '', ...(definition?.synonyms ?? [])].filter(
+    (text) => text.length > 0,
+  );
+}
+
+/**
+ * Closest ontology relationship type to a phrase and its similarity, scored against the
+ * best matching description or synonym of each type
+ */
+async function closestRelationshipType(
+  phrase: string,
+  embedder: PhraseEmbedder,
+): Promise<{ type: string; score: number } | null> {
+  const vector = await embed(embedder, phrase);
+  let best: { type: string; score: number } | null = null;
+
+  for (const type of getOntology().relationshipTypeNames) {
+    const texts = await Promise.all(
+      relationshipTypeTexts(type).map((text) => embed(embedder, text)),
+    );
+    const score = Math.max(...texts.map((candidate) => cosineSimilarity(vector, candidate)));
+    if (!best || score > best.score) {
+      best = { type, score };
     }
   }
+  return best;
+}
+
+type TypeClassification = Pick<ClassifiedRelationship, 'type' | 'typeMethod' | 'typeScore'>;
+
+/**
+ * Classify extracted relationship phrases against the ontology's relationship types
+ * Exact type names and synonyms map directly; other phrases take the most similar type by
+ * embedding when it reaches the threshold and otherwise stay unmapped. The raw phrase is
+ * kept on every relationship. If embeddings are unavailable, only exact matches map.
+ */
+export async function classifyRelationships(
+  relationships: ExtractedRelationship[],
+  embedder: PhraseEmbedder,
+  threshold: number = DEFAULT_RELATIONSHIP_THRESHOLD,
+): Promise<ClassifiedRelationship[]> {
+  const classifications = new Map<string, Promise<TypeClassification>>();
+
+  const classify = async (phrase: string): Promise<TypeClassification> => {
+    const exact = getOntology().resolveRelationshipType(phrase, { partial: false });
+    if (exact) {
+      return { type: exact, typeMethod: 'exact', typeScore: 1 };
+    }
 
-  // Default to uppercased snake_case
-  return normalized.toUpperCase().replace(/\s+/g, '_');
+    try {
+      const closest = await closestRelationshipType(phrase, embedder);
+      if (closest && closest.score >= threshold) {
+        return { type: closest.type, typeMethod: 'embedding', typeScore: closest.score };
+      }
+      return {
+        type: normalizeRelationshipType(phrase),
+        typeMethod: 'unmapped',
+        typeScore: closest?.score ?? null,
+      };
+    } catch (error) {
+      console.warn(`[define] Could not embed relationship phrase "${phrase}":`, error);
+      return { type: normalizeRelationshipType(phrase), typeMethod: 'unmapped' };
+    }
+  };
+
+  return Promise.all(
+    relationships.map(async (rel) => {
+      const key = normalizeTerm(rel.type);
+      let classification = classifications.get(key);
+      if (!classification) {
+        classification = classify(rel.type);
+        classifications.set(key, classification);
+      }
+      return { ...rel, ...(await classification), rawType: rel.type };
+    }),
+  );
 }
 
 /**
- * Validate entity attributes against schema requirements
+ * Validate entity attributes against the ontology's required properties
  */
 export function validateEntityAttributes(
   type: string,
   attributes: Record<string, unknown>,
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  switch (type) {
-    case 'Faction':
-      if (!attributes.name) errors.push('Faction requires name attribute');
-      if (!attributes.alignment) errors.push('Faction requires alignment attribute');
-      break;
-
-    case 'Character':
-      if (!attributes.name) errors.push('Character requires name attribute');
-      if (!attributes.role) errors.push('Character requires role attribute');
-      break;
-
-    case 'Location':
-      if (!attributes.name) errors.push('Location requires name attribute');
-      if (!attributes.type) errors.push('Location requires type attribute');
-      break;
-
-    case 'Resource':
-      if (!attributes.name) errors.push('Resource requires name attribute');
-      if (!attributes.type) errors.push('Resource requires type attribute');
-      break;
-
-    case 'Event':
-      if (!attributes.name) errors.push('Event requires name attribute');
-      if (!attributes.type) errors.push('Event requires type attribute');
-      if (!attributes.date) errors.push('Event requires date attribute');
-      break;
-  }
+): { valid: boolean; missing: string[]; errors: string[] } {
+  const required = getOntology().entityType(type)?.required ?? [];
+  const missing = required.filter(
+    (property) =>
+      attributes[property] === undefined ||
+      attributes[property] === null ||
+      attributes[property] === '',
+  );
 
   return {
-    valid: errors.length === 0,
-    errors,
+    valid: missing.length === 0,
+    missing,
+    errors: missing.map((property) => `${type} requires ${property} attribute`),
   };
 }
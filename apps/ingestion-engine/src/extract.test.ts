@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'bun:test';
+import { type GenerateRequest, MockLLMProvider } from '@ace/llm';
+
+import {
+  extractEntitiesAndRelationships,
+  mergeChunkExtractions,
+  validateExtractionOutput,
+} from './extract';
+import type { ExtractedEntity, ExtractedRelationship } from './types';
+
+const validEntity = {
+  type: 'Faction',
+  mentions: ['Crimson Empire'],
+  attributes: { name: 'Crimson Empire' },
+  confidence: 0.9,
+};
+
+const validRelationship = {
+  from: 'Emperor Valen',
+  to: 'Crimson Empire',
+  type: 'leads',
+  evidence: 'Emperor Valen leads the Crimson Empire.',
+  confidence: 0.8,
+};
+
+describe('mergeChunkExtractions', () => {
+  it('merges entities of the same type that share a name or mention', () => {
+    const entities: ExtractedEntity[] = [
+      {
+        type: 'Faction',
+        mentions: ['Crimson Empire', 'the Empire'],
+        attributes: { name: 'Crimson Empire', alignment: 'hostile' },
+        confidence: 0.6,
+        spans: [{ chunkIndex: 0, start: 0, end: 100 }],
+      },
+      {
+        type: 'Faction',
+        mentions: ['the empire'],
+        attributes: { alignment: 'rival', leader_name: 'Valen' },
+        confidence: 0.9,
+        spans: [{ chunkIndex: 1, start: 80, end: 180 }],
+      },
+      {
+        type: 'Location',
+        mentions: ['Crimson Empire'],
+        attributes: { name: 'Crimson Empire' },
+        confidence: 0.4,
+        spans: [{ chunkIndex: 1, start: 80, end: 180 }],
+      },
+    ];
+
+    const { entities: merged } = mergeChunkExtractions(entities, []);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      type: 'Faction',
+      mentions: ['Crimson Empire', 'the Empire'],
+      attributes: { name: 'Crimson Empire', alignment: 'rival', leader_name: 'Valen' },
+      confidence: 0.9,
+    });
+    expect(merged[0]?.spans).toHaveLength(2);
+  });
+
+  it('deduplicates relationships and keeps the most confident evidence', () => {
+    const relationships: ExtractedRelationship[] = [
+      {
+        from: 'Crimson Empire',
+        to: 'Ruby Mines',
+        type: 'controls',
+        evidence: 'weak evidence',
+        confidence: 0.5,
+        spans: [{ chunkIndex: 0, start: 0, end: 100 }],
+      },
+      {
+        from: 'crimson empire',
+        to: 'Ruby  Mines',
+        type: 'Controls',
+        evidence: 'The Empire seized the Ruby Mines.',
+        confidence: 0.8,
+        spans: [{ chunkIndex: 1, start: 80, end: 180 }],
+      },
+    ];
+
+    const { relationships: merged } = mergeChunkExtractions([], relationships);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      evidence: 'The Empire seized the Ruby Mines.',
+      confidence: 0.8,
+    });
+    expect(merged[0]?.spans).toHaveLength(2);
+  });
+});
+
+describe('validateExtractionOutput', () => {
+  it('keeps valid items and reports rejects with their paths', () => {
+    const raw = JSON.stringify({
+      entities: [validEntity, { ...validEntity, type: 'Dragon' }],
+      relationships: [validRelationship, { ...validRelationship, confidence: 'high' }],
+    });
+
+    const result = validateExtractionOutput(raw);
+
+    expect(result.entities).toHaveLength(1);
+    expect(result.relationships).toHaveLength(1);
+    expect(result.issues).toHaveLength(2);
+    expect(result.issues[0]).toStartWith('entities[1].type:');
+    expect(result.issues[1]).toStartWith('relationships[1].confidence:');
+  });
+
+  it('reports unparseable output', () => {
+    const result = validateExtractionOutput('{"entities": [');
+
+    expect(result.entities).toHaveLength(0);
+    expect(result.issues[0]).toStartWith('Output is not valid JSON');
+  });
+});
+
+/**
+ * Mock that fails every call after the first
+ */
+class FailingRepairProvider extends MockLLMProvider {
+  override async generate(request: GenerateRequest) {
+    if (this.calls.length > 0) {
+      throw new Error('connection reset');
+    }
+    return super.generate(request);
+  }
+}
+
+describe('extractEntitiesAndRelationships', () => {
+  it('sends validation issues back to the model and keeps the repaired output', async () => {
+    const llm = new MockLLMProvider({
+      fixtures: [
+        {
+          response: [
+            JSON.stringify({ entities: [{ ...validEntity, confidence: 'very' }] }),
+            JSON.stringify({ entities: [validEntity], relationships: [] }),
+          ],
+        },
+      ],
+    });
+
+    const result = await extractEntitiesAndRelationships({ text: 'The Crimson Empire.' }, llm);
+
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[1]?.prompt).toContain('entities[0].confidence');
+    expect(result.entities).toHaveLength(1);
+    expect(result.issues).toHaveLength(0);
+  });
+
+  it('keeps the best output and reports a repair call that failed', async () => {
+    const llm = new FailingRepairProvider({
+      fixtures: [{ response: JSON.stringify({ entities: [validEntity, { type: 'Dragon' }] }) }],
+    });
+
+    const result = await extractEntitiesAndRelationships({ text: 'The Crimson Empire.' }, llm);
+
+    expect(result.entities).toHaveLength(1);
+    expect(result.issues).toContain('chunk 0: LLM extraction failed: connection reset');
+    expect(result.issues).toContainEqual(expect.stringContaining('entities[1].type'));
+  });
+
+  it('stops after the bounded number of repairs and reports remaining rejects', async () => {
+    const llm = new MockLLMProvider({
+      fixtures: [
+        {
+          response: JSON.stringify({ entities: [validEntity, { ...validEntity, type: 'Dragon' }] }),
+        },
+      ],
+    });
+
+    const result = await extractEntitiesAndRelationships({ text: 'The Crimson Empire.' }, llm);
+
+    expect(llm.calls).toHaveLength(3);
+    expect(result.entities).toHaveLength(1);
+    expect(result.issues).toEqual([expect.stringContaining('chunk 0: entities[1].type')]);
+  });
+});
@@ -1,25 +1,59 @@
-import type { Ollama } from 'ollama';
-import type { ExtractionResult, IngestionRequest } from './types';
+import {
+  generateWithFallback,
+  type LLMProvider,
+  type ModelSettings,
+  stageSettings,
+} from '@ace/llm';
+import { getOntology } from '@ace/ontology';
+import type { z } from 'zod';
+import { type ChunkOptions, chunkText, DEFAULT_CHUNK_OPTIONS, type TextChunk } from './chunk';
+import {
+  type ChunkSpan,
+  type ExtractedEntity,
+  ExtractedEntitySchema,
+  type ExtractedRelationship,
+  ExtractedRelationshipSchema,
+  type ExtractionResult,
+  type IngestionRequest,
+} from './types';
+
+export interface ChunkExtraction {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+}
 
 /**
- * Extract entities and relationships from raw text using LLM
- * Implements the "Extract" step of the EDC pattern
+ * Validated LLM output: salvageable items plus a description of every reject
  */
-export async function extractEntitiesAndRelationships(
-  request: IngestionRequest,
-  ollama: Ollama,
-): Promise<ExtractionResult> {
-  const startTime = Date.now();
+export interface ValidatedExtraction extends ChunkExtraction {
+  issues: string[];
+}
 
-  const prompt = `You are an entity extraction system for a fantasy RPG world knowledge graph.
+/**
+ * Extraction of one chunk and the models that answered its prompts
+ */
+interface ChunkResult extends ValidatedExtraction {
+  models: string[];
+}
 
-Extract all entities and relationships from the following text. Return ONLY valid JSON with no additional text.
+/**
+ * Maximum number of repair prompts sent per chunk after the first attempt
+ */
+const MAX_REPAIR_ATTEMPTS = Number(Bun.env.EXTRACTION_MAX_REPAIR_ATTEMPTS ?? 2);
 
-Required JSON format:
+/**
+ * JSON shape the model must return, with the ontology's entity labels
+ */
+function extractionFormat(): string {
+  const labels = getOntology()
+    .entityLabels.map((label) => `"${label}"`)
+    .join(' | ');
+
+  return `Required JSON format:
 {
   "entities": [
     {
-      "type": "Faction" | "Character" | "Location" | "Resource" | "Event",
+      "type": ${labels},
       "mentions": ["name1", "alias1"],
       "attributes": { "key": "value" },
       "confidence": 0.0-1.0
@@ -34,44 +68,339 @@ Required JSON format:
       "confidence": 0.0-1.0
     }
   ]
+}`;
 }
 
-Entity types:
-- Faction: Political groups, organizations, military forces
-- Character: Named individuals
-- Location: Cities, regions, strongholds
-- Resource: Strategic assets (military, economic, technological)
-- Event: Historical events, battles, treaties, discoveries
+/**
+ * Entity and relationship vocabulary of the ontology, as prompt text
+ */
+function ontologyVocabulary(): string {
+  const { entityTypes, relationshipTypes } = getOntology().definition;
 
-Text to analyze:
-${request.text}
+  return `Entity types:
+${entityTypes.map((entityType) => `- ${entityType.label}: ${entityType.description}`).join('\n')}
 
-Extract all entities and relationships:`;
+Relationship types (use one of these when it fits, otherwise describe the relationship):
+${relationshipTypes
+  .map(
+    (relationshipType) =>
+      `- ${relationshipType.type} (${relationshipType.from.join('/')} -> ${relationshipType.to.join('/')}): ${relationshipType.description}`,
+  )
+  .join('\n')}`;
+}
+
+/**
+ * Extract entities and relationships from raw text using LLM
+ * Implements the "Extract" step of the EDC pattern
+ *
+ * Long documents are split into overlapping chunks, extracted one chunk at a time,
+ * and merged so entities mentioned in several chunks appear once.
+ * An aborted `signal` stops before the next chunk and rethrows instead of degrading to issues.
+ */
+export async function extractEntitiesAndRelationships(
+  request: IngestionRequest,
+  llm: LLMProvider,
+  signal?: AbortSignal,
+): Promise<ExtractionResult> {
+  const startTime = Date.now();
+  const chunkOptions: ChunkOptions = request.chunking ?? DEFAULT_CHUNK_OPTIONS;
+  const chunks = chunkText(request.text, chunkOptions);
+  const settings = stageSettings('extraction', request.llm);
+
+  const entities: ExtractedEntity[] = [];
+  const relationships: ExtractedRelationship[] = [];
+  const issues: string[] = [];
+  const models = new Set<string>();
+
+  for (const chunk of chunks) {
+    signal?.throwIfAborted();
+    const extraction = await extractFromChunk(chunk, llm, settings, signal);
+    entities.push(...extraction.entities);
+    relationships.push(...extraction.relationships);
+    issues.push(...extraction.issues.map((issue) => `chunk ${chunk.index}: ${issue}`));
+    for (const model of extraction.models) models.add(model);
+  }
+
+  if (chunks.length > 1) {
+    console.log(
+      `[extract] Extracted ${entities.length} entities, ${relationships.length} relationships across ${chunks.length} chunks`,
+    );
+  }
+
+  const merged = mergeChunkExtractions(entities, relationships);
+
+  return {
+    entities: merged.entities,
+    relationships: merged.relationships,
+    issues,
+    chunkCount: chunks.length,
+    models: Array.from(models),
+    extractionTimeMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Run the extraction prompt against a single chunk and tag results with its offsets
+ * Output that fails schema validation is sent back to the model with the zod issues,
+ * up to MAX_REPAIR_ATTEMPTS times; the attempt with the most valid items is kept.
+ * A model that times out is reported as an issue and the next fallback model answers.
+ */
+async function extractFromChunk(
+  chunk: TextChunk,
+  llm: LLMProvider,
+  settings: ModelSettings,
+  signal?: AbortSignal,
+): Promise<ChunkResult> {
+  const span: ChunkSpan = { chunkIndex: chunk.index, start: chunk.start, end: chunk.end };
+
+  let prompt = buildExtractionPrompt(chunk.text);
+  let best: ValidatedExtraction | null = null;
+  const models = new Set<string>();
+  const callIssues: string[] = []; // Model fallbacks and failed calls
 
   try {
-    const response = await ollama.generate({
-      model: 'llama3.2:3b',
-      prompt,
-      format: 'json',
-      options: {
-        temperature: 0.3, // Lower temperature for more deterministic extraction
-        num_predict: 2000,
-      },
-    });
-
-    const parsed = JSON.parse(response.response);
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await generateWithFallback(llm, settings, {
+        prompt,
+        format: 'json',
+        signal,
+      });
+      models.add(response.model);
+      if (response.timedOut.length > 0) {
+        callIssues.push(
+          `${response.timedOut.join(', ')} timed out after ${settings.timeoutMs}ms; ${response.model} answered`,
+        );
+      }
+
+      const validated = validateExtractionOutput(response.text);
+      if (!best || countItems(validated) > countItems(best) || validated.issues.length === 0) {
+        best = validated;
+      }
 
+      if (validated.issues.length === 0) break;
+
+      if (attempt < MAX_REPAIR_ATTEMPTS) {
+        console.warn(
+          `[extract] Chunk ${chunk.index} output failed validation (${validated.issues.length} issues), requesting repair ${attempt + 1}/${MAX_REPAIR_ATTEMPTS}`,
+        );
+        prompt = buildRepairPrompt(chunk.text, response.text, validated.issues);
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`[extract] LLM extraction failed for chunk ${chunk.index}:`, error);
+    callIssues.push(
+      `LLM extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+    if (!best) {
+      return { entities: [], relationships: [], issues: callIssues, models: Array.from(models) };
+    }
+  }
+
+  const result = best ?? { entities: [], relationships: [], issues: [] };
+
+  return {
+    entities: result.entities.map((entity) => ({ ...entity, spans: [span] })),
+    relationships: result.relationships.map((rel) => ({ ...rel, spans: [span] })),
+    issues: [...callIssues, ...result.issues],
+    models: Array.from(models),
+  };
+}
+
+function countItems(extraction: ChunkExtraction): number {
+  return extraction.entities.length + extraction.relationships.length;
+}
+
+/**
+ * Validate raw LLM output against the extraction schemas item by item
+ * Valid items are kept; each reject is described with its path and zod message.
+ */
+export function validateExtractionOutput(raw: string): ValidatedExtraction {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
     return {
-      entities: parsed.entities || [],
-      relationships: parsed.relationships || [],
-      extractionTimeMs: Date.now() - startTime,
+      entities: [],
+      relationships: [],
+      issues: [
+        `Output is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      ],
     };
-  } catch (error) {
-    console.error('[extract] LLM extraction failed:', error);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
     return {
       entities: [],
       relationships: [],
-      extractionTimeMs: Date.now() - startTime,
+      issues: ['Output must be a JSON object with "entities" and "relationships" arrays'],
     };
   }
+
+  const output = parsed as { entities?: unknown; relationships?: unknown };
+  const issues: string[] = [];
+
+  const entities = validateItems(output.entities, 'entities', ExtractedEntitySchema, issues);
+  const relationships = validateItems(
+    output.relationships,
+    'relationships',
+    ExtractedRelationshipSchema,
+    issues,
+  );
+
+  return { entities, relationships, issues };
+}
+
+function validateItems<T>(
+  items: unknown,
+  field: string,
+  schema: z.ZodType<T>,
+  issues: string[],
+): T[] {
+  if (items === undefined) {
+    return [];
+  }
+  if (!Array.isArray(items)) {
+    issues.push(`${field}: expected an array`);
+    return [];
+  }
+
+  const valid: T[] = [];
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+    for (const issue of result.error.issues) {
+      const path = [`${field}[${index}]`, ...issue.path.map(String)].join('.');
+      issues.push(`${path}: ${issue.message}`);
+    }
+  });
+
+  return valid;
+}
+
+function buildExtractionPrompt(text: string): string {
+  return `You are an entity extraction system for a fantasy RPG world knowledge graph.
+
+Extract all entities and relationships from the following text. Return ONLY valid JSON with no additional text.
+
+${extractionFormat()}
+
+${ontologyVocabulary()}
+
+Text to analyze:
+${text}
+
+Extract all entities and relationships:`;
+}
+
+function buildRepairPrompt(text: string, previousOutput: string, issues: string[]): string {
+  return `You are an entity extraction system for a fantasy RPG world knowledge graph.
+
+Your previous response did not match the required schema. Return ONLY the corrected JSON object.
+Fix every listed problem. Drop any item you cannot fix instead of guessing.
+
+${extractionFormat()}
+
+Validation errors:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousOutput}
+
+Source text:
+${text}
+
+Corrected JSON:`;
+}
+
+/**
+ * Normalize a mention for cross-chunk comparison
+ */
+function normalizeMention(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Collect every surface form an entity is known by (name first, then mentions)
+ */
+function entityNames(entity: ExtractedEntity): string[] {
+  const names = typeof entity.attributes.name === 'string' ? [entity.attributes.name] : [];
+  return [...names, ...entity.mentions].map(normalizeMention).filter((name) => name.length > 0);
+}
+
+/**
+ * Merge per-chunk extractions, deduplicating entities and relationships
+ * Entities of the same type sharing a name or mention are combined; attributes from
+ * the more confident extraction win, mentions and chunk spans are unioned.
+ */
+export function mergeChunkExtractions(
+  entities: ExtractedEntity[],
+  relationships: ExtractedRelationship[],
+): ChunkExtraction {
+  const mergedEntities: ExtractedEntity[] = [];
+  const entityIndex = new Map<string, ExtractedEntity>();
+
+  for (const entity of entities) {
+    const keys = entityNames(entity).map((name) => `${entity.type}:${name}`);
+    const existing = keys.map((key) => entityIndex.get(key)).find(Boolean);
+
+    if (existing) {
+      for (const [key, value] of Object.entries(entity.attributes)) {
+        if (existing.attributes[key] === undefined || entity.confidence > existing.confidence) {
+          existing.attributes[key] = value;
+        }
+      }
+
+      const knownMentions = new Set(existing.mentions.map(normalizeMention));
+      for (const mention of entity.mentions) {
+        if (!knownMentions.has(normalizeMention(mention))) {
+          existing.mentions.push(mention);
+          knownMentions.add(normalizeMention(mention));
+        }
+      }
+
+      existing.confidence = Math.max(existing.confidence, entity.confidence);
+      existing.spans = [...(existing.spans ?? []), ...(entity.spans ?? [])];
+
+      for (const key of keys) {
+        entityIndex.set(key, existing);
+      }
+    } else {
+      const copy: ExtractedEntity = {
+        ...entity,
+        mentions: [...entity.mentions],
+        attributes: { ...entity.attributes },
+        spans: [...(entity.spans ?? [])],
+      };
+      mergedEntities.push(copy);
+      for (const key of keys) {
+        entityIndex.set(key, copy);
+      }
+    }
+  }
+
+  const relationshipIndex = new Map<string, ExtractedRelationship>();
+
+  for (const rel of relationships) {
+    const key = [rel.from, rel.type, rel.to].map(normalizeMention).join('|');
+    const existing = relationshipIndex.get(key);
+
+    if (existing) {
+      if (rel.confidence > existing.confidence) {
+        existing.evidence = rel.evidence;
+        existing.confidence = rel.confidence;
+      }
+      existing.spans = [...(existing.spans ?? []), ...(rel.spans ?? [])];
+    } else {
+      relationshipIndex.set(key, { ...rel, spans: [...(rel.spans ?? [])] });
+    }
+  }
+
+  return {
+    entities: mergedEntities,
+    relationships: Array.from(relationshipIndex.values()),
+  };
 }
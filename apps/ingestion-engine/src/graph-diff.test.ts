@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test';
+
+import { buildGraphDiff, type GraphState } from './graph-diff';
+import type { CanonicalEntity, GraphWritePlan } from './types';
+
+function entity(
+  id: string,
+  type: string,
+  properties: Record<string, unknown>,
+  aliases: string[] = [],
+): CanonicalEntity {
+  return { id, type, properties, aliases, mergedFrom: [], confidence: 0.9, isNew: true };
+}
+
+const plan: GraphWritePlan = {
+  jobId: 'job-1',
+  sourceId: 'chronicle-1',
+  entities: [
+    entity('faction-crimson-empire', 'Faction', {
+      name: 'Crimson Empire',
+      alignment: 'Lawful Evil',
+      leader_name: undefined,
+    }),
+    entity('resource-ruby-mines', 'Resource', { name: 'Ruby Mines' }, ['the Mines']),
+    entity('location-bloodstone', 'Location', { name: 'Bloodstone Mountains' }),
+    entity('artifact-crown', 'Artifact', { name: 'Crown of Ash' }),
+  ],
+  relationships: [
+    { fromId: 'faction-crimson-empire', type: 'CONTROLS_RESOURCE', toId: 'resource-ruby-mines' },
+    { fromId: 'resource-ruby-mines', type: 'LOCATED_IN', toId: 'location-bloodstone' },
+    { fromId: 'faction-crimson-empire', type: 'LOCATED_IN', toId: 'artifact-crown' },
+    { fromId: 'faction-crimson-empire', type: 'owns', toId: 'artifact-crown' },
+  ],
+};
+
+const state: GraphState = {
+  nodes: new Map<string, Record<string, unknown>>([
+    [
+      'faction-crimson-empire',
+      { id: 'faction-crimson-empire', name: 'Crimson Empire', alignment: 'Neutral', aliases: [] },
+    ],
+    ['resource-ruby-mines', { id: 'resource-ruby-mines', name: 'Ruby Mines', aliases: [] }],
+  ]),
+  relationships: new Set(['faction-crimson-empire|CONTROLS_RESOURCE|resource-ruby-mines']),
+};
+
+describe('buildGraphDiff', () => {
+  const diff = buildGraphDiff(plan, state);
+
+  it('separates new nodes from property changes on existing ones', () => {
+    expect(diff.newNodes).toEqual([
+      {
+        id: 'location-bloodstone',
+        type: 'Location',
+        properties: { name: 'Bloodstone Mountains' },
+        aliases: [],
+      },
+    ]);
+    expect(diff.updatedNodes).toEqual([
+      {
+        id: 'faction-crimson-empire',
+        type: 'Faction',
+        changes: [{ property: 'alignment', oldValue: 'Neutral', newValue: 'Lawful Evil' }],
+        newAliases: [],
+      },
+      { id: 'resource-ruby-mines', type: 'Resource', changes: [], newAliases: ['the Mines'] },
+    ]);
+  });
+
+  it('lists only relationships the graph does not have yet', () => {
+    expect(diff.existingRelationships).toBe(1);
+    expect(diff.newRelationships).toEqual([
+      expect.objectContaining({ fromId: 'resource-ruby-mines', toId: 'location-bloodstone' }),
+    ]);
+  });
+
+  it('reports dropped entities and relationships with a reason', () => {
+    expect(diff.droppedEntities).toEqual([expect.objectContaining({ id: 'artifact-crown' })]);
+    expect(diff.droppedRelationships.map((rel) => rel.reason)).toEqual([
+      'Relationship type "owns" is not a valid type name',
+      'Endpoint not written: artifact-crown',
+    ]);
+  });
+});
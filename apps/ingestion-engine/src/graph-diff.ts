@@ -0,0 +1,150 @@
+import { executeRead, ReadQueries } from '@ace/neo4j-utilities';
+import {
+  buildNodeRow,
+  countUnmappedRelationshipTypes,
+  nodeProperties,
+  planGraphWrite,
+} from './graph-writer';
+import { buildFactId } from './provenance';
+import type { GraphDiff, GraphWritePlan, UnresolvedRelationship } from './types';
+
+/**
+ * Dry-run support: compare a job's write plan with the current graph
+ */
+
+/**
+ * Current state of the nodes and relationships a plan touches
+ */
+export interface GraphState {
+  nodes: Map<string, Record<string, unknown>>;
+  relationships: Set<string>;
+}
+
+/**
+ * Load the stored properties of the plan's nodes and which of its relationships exist
+ */
+export async function loadGraphState(plan: GraphWritePlan): Promise<GraphState> {
+  const ids = Array.from(
+    new Set([
+      ...plan.entities.map((entity) => entity.id),
+      ...plan.relationships.flatMap((rel) => [rel.fromId, rel.toId]),
+    ]),
+  );
+
+  const nodes = await executeRead<{ id: string; properties: Record<string, unknown> }>(
+    ReadQueries.getNodesByIds,
+    { ids },
+  );
+
+  const relationships = await executeRead<{ fromId: string; type: string; toId: string }>(
+    ReadQueries.findExistingRelationships,
+    {
+      rows: plan.relationships.map((rel) => ({
+        fromId: rel.fromId,
+        type: rel.type,
+        toId: rel.toId,
+      })),
+    },
+  );
+
+  return {
+    nodes: new Map(nodes.records.map((record) => [record.id, record.properties])),
+    relationships: new Set(
+      relationships.records.map((record) => buildFactId(record.fromId, record.type, record.toId)),
+    ),
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Describe what writing a plan would change, without touching the graph
+ * Only properties the writer actually sets are compared; missing values never overwrite.
+ */
+export function buildGraphDiff(
+  plan: GraphWritePlan,
+  state: GraphState,
+  unresolvedRelationships: UnresolvedRelationship[] = [],
+): GraphDiff {
+  const writable = planGraphWrite(plan.entities, plan.relationships);
+  const diff: GraphDiff = {
+    newNodes: [],
+    updatedNodes: [],
+    unchangedNodes: 0,
+    newRelationships: [],
+    existingRelationships: 0,
+    droppedEntities: writable.droppedEntities.map((entity) => ({
+      id: entity.id,
+      type: entity.type,
+      name: String(entity.properties.name ?? entity.id),
+      reason: entity.reason,
+    })),
+    droppedRelationships: writable.droppedRelationships.map((rel) => ({
+      fromId: rel.fromId,
+      type: rel.type,
+      toId: rel.toId,
+      reason: rel.reason,
+    })),
+    unresolvedRelationships,
+    unmappedRelationshipTypes: countUnmappedRelationshipTypes(writable.relationships),
+  };
+
+  const writtenIds = new Set(writable.entities.map((entity) => entity.id));
+
+  for (const entity of writable.entities) {
+    const row = buildNodeRow(entity);
+    const existing = state.nodes.get(entity.id);
+
+    if (!existing) {
+      const { id: _id, aliases: _aliases, ...properties } = row;
+      diff.newNodes.push({ id: entity.id, type: entity.type, properties, aliases: entity.aliases });
+      continue;
+    }
+
+    const changes = nodeProperties(entity.type)
+      .filter((property) => row[property] != null && !sameValue(row[property], existing[property]))
+      .map((property) => ({
+        property,
+        oldValue: existing[property] ?? null,
+        newValue: row[property],
+      }));
+
+    const storedAliases = Array.isArray(existing.aliases) ? existing.aliases : [];
+    const newAliases = entity.aliases.filter((alias) => !storedAliases.includes(alias));
+
+    if (changes.length > 0 || newAliases.length > 0) {
+      diff.updatedNodes.push({ id: entity.id, type: entity.type, changes, newAliases });
+    } else {
+      diff.unchangedNodes += 1;
+    }
+  }
+
+  for (const rel of writable.relationships) {
+    const missing = [rel.fromId, rel.toId].filter(
+      (id) => !writtenIds.has(id) && !state.nodes.has(id),
+    );
+
+    if (missing.length > 0) {
+      diff.droppedRelationships.push({
+        fromId: rel.fromId,
+        type: rel.type,
+        toId: rel.toId,
+        reason: `Endpoint not written: ${missing.join(', ')}`,
+      });
+    } else if (state.relationships.has(buildFactId(rel.fromId, rel.type, rel.toId))) {
+      diff.existingRelationships += 1;
+    } else {
+      diff.newRelationships.push({
+        fromId: rel.fromId,
+        type: rel.type,
+        toId: rel.toId,
+        evidence: rel.evidence,
+        rawType: rel.rawType,
+      });
+    }
+  }
+
+  return diff;
+}
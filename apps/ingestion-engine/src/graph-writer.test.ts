@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  buildGraphWriteBatches,
+  countUnmappedRelationshipTypes,
+  relationshipTypeRejection,
+} from './graph-writer';
+import type { CanonicalEntity, ResolvedRelationship, SourceContext } from './types';
+
+const source: SourceContext = {
+  sourceId: 'chronicle-1',
+  jobId: 'job-1',
+  text: 'The Crimson Empire controls the Ruby Mines. Valen commands the Crimson Empire.',
+};
+
+function entity(id: string, type: string, name: string): CanonicalEntity {
+  return {
+    id,
+    type,
+    properties: { name },
+    aliases: [],
+    mergedFrom: [],
+    confidence: 0.9,
+    isNew: true,
+  };
+}
+
+function relationship(fromId: string, type: string, toId: string): ResolvedRelationship {
+  return { fromId, type, toId, evidence: 'The Crimson Empire controls the Ruby Mines' };
+}
+
+describe('buildGraphWriteBatches', () => {
+  it('plans one batch per label and relationship type after the Source node', () => {
+    const batches = buildGraphWriteBatches(
+      [
+        entity('faction-crimson-empire', 'Faction', 'Crimson Empire'),
+        entity('resource-ruby-mines', 'Resource', 'Ruby Mines'),
+        entity('faction-iron-league', 'Faction', 'Iron League'),
+      ],
+      [relationship('faction-crimson-empire', 'CONTROLS_RESOURCE', 'resource-ruby-mines')],
+      source,
+    );
+
+    expect(batches.map((batch) => `${batch.kind}:${batch.label}`)).toEqual([
+      'source:Source',
+      'nodes:Faction',
+      'nodes:Resource',
+      'relationships:CONTROLS_RESOURCE',
+      'provenance:MENTIONED_IN',
+      'provenance:ASSERTED_BY',
+    ]);
+    expect(batches[1]?.parameters.rows).toEqual([
+      { name: 'Crimson Empire', id: 'faction-crimson-empire', aliases: [] },
+      { name: 'Iron League', id: 'faction-iron-league', aliases: [] },
+    ]);
+    expect(batches[3]?.parameters.rows).toEqual([
+      expect.objectContaining({
+        fromId: 'faction-crimson-empire',
+        toId: 'resource-ruby-mines',
+      }),
+    ]);
+  });
+
+  it('writes repeated facts once and skips types that cannot be written', () => {
+    const batches = buildGraphWriteBatches(
+      [
+        entity('faction-crimson-empire', 'Faction', 'Crimson Empire'),
+        entity('artifact-crown', 'Artifact', 'Crown'),
+      ],
+      [
+        relationship('faction-crimson-empire', 'IS_ALLY_OF', 'faction-iron-league'),
+        relationship('faction-crimson-empire', 'IS_ALLY_OF', 'faction-iron-league'),
+        relationship('faction-crimson-empire', 'owns', 'artifact-crown'),
+      ],
+      source,
+    );
+
+    const allies = batches.find((batch) => batch.label === 'IS_ALLY_OF');
+    const mentions = batches.find((batch) => batch.label === 'MENTIONED_IN');
+    const assertions = batches.find((batch) => batch.label === 'ASSERTED_BY');
+
+    expect(batches.some((batch) => batch.label === 'Artifact' || batch.label === 'owns')).toBe(
+      false,
+    );
+    expect(allies?.parameters.rows).toHaveLength(1);
+    expect(allies?.parameters.rows).toEqual([expect.objectContaining({ strength: 0.5 })]);
+    expect(allies?.cypher).toContain('rel.strength = coalesce(row.strength, rel.strength)');
+    expect(mentions?.parameters.rows).toEqual([
+      expect.objectContaining({
+        entityId: 'faction-crimson-empire',
+        propertiesJson: JSON.stringify({ name: 'Crimson Empire' }),
+        created: true,
+      }),
+    ]);
+    expect(assertions?.parameters.rows).toEqual([
+      expect.objectContaining({ factId: 'faction-crimson-empire|IS_ALLY_OF|faction-iron-league' }),
+    ]);
+  });
+
+  it('stamps provenance links with the revision they belong to', () => {
+    const batches = buildGraphWriteBatches(
+      [entity('faction-crimson-empire', 'Faction', 'Crimson Empire')],
+      [],
+      { ...source, revision: { contentHash: 'abc', revision: 3 } },
+    );
+
+    const mentions = batches.find((batch) => batch.label === 'MENTIONED_IN');
+    expect(mentions?.parameters).toMatchObject({ jobId: 'job-1', revision: 3 });
+  });
+
+  it('writes types outside the ontology with the generic query and rejects unsafe names', () => {
+    const batches = buildGraphWriteBatches(
+      [
+        entity('character-valen', 'Character', 'Valen'),
+        entity('faction-crimson-empire', 'Faction', 'Crimson Empire'),
+      ],
+      [
+        {
+          ...relationship('character-valen', 'BETRAYED', 'faction-crimson-empire'),
+          confidence: 0.8,
+        },
+        relationship('character-valen', 'RULES]->() DETACH DELETE (n', 'faction-crimson-empire'),
+        relationship('character-valen', 'MENTIONED_IN', 'faction-crimson-empire'),
+      ],
+      source,
+    );
+
+    const relationshipBatches = batches.filter((batch) => batch.kind === 'relationships');
+    expect(relationshipBatches.map((batch) => batch.label)).toEqual(['BETRAYED']);
+    expect(relationshipBatches[0]?.cypher).toContain('MERGE (from)-[rel:BETRAYED]->(to)');
+    expect(relationshipBatches[0]?.cypher).toContain('MATCH (from:Entity {id: row.fromId})');
+    expect(relationshipBatches[0]?.parameters.rows).toEqual([
+      expect.objectContaining({
+        evidence: 'The Crimson Empire controls the Ruby Mines',
+        confidence: 0.8,
+      }),
+    ]);
+  });
+});
+
+describe('relationshipTypeRejection', () => {
+  it('accepts ontology types and safe names, and explains every rejection', () => {
+    expect(relationshipTypeRejection('MEMBER_OF')).toBeNull();
+    expect(relationshipTypeRejection('TRADES_WITH')).toBeNull();
+    expect(relationshipTypeRejection('ASSERTED_BY')).toContain('reserved');
+    expect(relationshipTypeRejection('trades with')).toContain('not a valid type name');
+    expect(relationshipTypeRejection('1ST_OF')).toContain('not a valid type name');
+  });
+
+  it('counts unmapped types by frequency', () => {
+    expect(
+      countUnmappedRelationshipTypes([
+        relationship('a', 'RULES', 'b'),
+        relationship('a', 'TRADES_WITH', 'b'),
+        relationship('c', 'TRADES_WITH', 'd'),
+        relationship('a', 'MEMBER_OF', 'b'),
+      ]),
+    ).toEqual([
+      { type: 'TRADES_WITH', count: 2 },
+      { type: 'RULES', count: 1 },
+    ]);
+  });
+});
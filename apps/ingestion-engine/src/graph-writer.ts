@@ -1,176 +1,431 @@
-import { executeWrite, NodeQueries, RelationshipQueries } from '@ace/neo4j-utilities';
-import type { CanonicalEntity } from './types';
+import {
+  BatchQueries,
+  buildGenericRelationshipQuery,
+  buildNodeMergeQuery,
+  executeRead,
+  executeTransaction,
+  ProvenanceQueries,
+  RELATIONSHIP_TYPE_PATTERN,
+  ReadQueries,
+} from '@ace/neo4j-utilities';
+import { getOntology } from '@ace/ontology';
+import { buildEntityProvenance, buildFactId, buildRelationshipProvenance } from './provenance';
+import { type RevisionReplacement, replaceEarlierRevisions } from './retraction';
+import type {
+  CanonicalEntity,
+  ResolvedRelationship,
+  SourceContext,
+  UnmappedRelationshipType,
+} from './types';
 
 /**
  * Write canonical entities and relationships to Neo4j knowledge graph
- * Uses the neo4j-utilities package for idempotent MERGE operations
+ * A job is written in a single transaction of UNWIND batch MERGE queries, so it either
+ * commits completely or rolls back
  */
 
-interface GraphWriteResult {
+export interface GraphWriteResult {
   nodesCreated: number;
+  nodesUpdated: number;
   relationshipsCreated: number;
+  relationshipsUpdated: number;
+  provenanceLinksCreated: number;
+  unmappedRelationshipTypes: UnmappedRelationshipType[];
+  replacement: RevisionReplacement | null; // Earlier revisions of the source this write replaced
   writeTimeMs: number;
 }
 
 /**
- * Write entities to Neo4j using MERGE queries
- * Phase 3: Real implementation using @ace/neo4j-utilities
+ * What a batch query writes, used to attribute its counters
  */
-export async function writeToGraph(
-  entities: CanonicalEntity[],
-  relationships: Array<{ fromId: string; toId: string; type: string }>,
-): Promise<GraphWriteResult> {
-  const startTime = Date.now();
+type BatchKind = 'source' | 'nodes' | 'relationships' | 'provenance';
 
-  let totalNodesCreated = 0;
-  let totalRelationshipsCreated = 0;
+export interface GraphWriteBatch {
+  kind: BatchKind;
+  label: string;
+  cypher: string;
+  parameters: Record<string, unknown>;
+}
 
-  try {
-    // Write all entities to Neo4j
-    for (const entity of entities) {
-      const query = getQueryForEntityType(entity.type);
-
-      if (query) {
-        const result = await executeWrite(query, {
-          id: entity.id,
-          ...entity.properties,
-        });
-
-        totalNodesCreated += result.metadata.nodesCreated;
-        console.log(
-          `[graph-writer] Created/updated ${entity.type} node: ${entity.id} (${result.metadata.nodesCreated} new)`,
-        );
-      } else {
-        console.warn(`[graph-writer] No query found for entity type: ${entity.type}`);
-      }
-    }
+/**
+ * Relationship types the graph uses for provenance, never written from extractions
+ */
+const RESERVED_RELATIONSHIP_TYPES = new Set(['MENTIONED_IN', 'ASSERTED_BY']);
 
-    // Write all relationships to Neo4j
-    for (const rel of relationships) {
-      const query = getQueryForRelationType(rel.type);
+/**
+ * Optional comma-separated allowlist restricting which types outside the ontology are written
+ */
+const UNMAPPED_RELATIONSHIP_ALLOWLIST = new Set(
+  (Bun.env.GRAPH_RELATIONSHIP_ALLOWLIST ?? '')
+    .split(',')
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0),
+);
 
-      if (query) {
-        const params = buildRelationshipParams(rel);
-        const result = await executeWrite(query, params);
+export function isOntologyRelationshipType(type: string): boolean {
+  return getOntology().relationshipType(type) !== undefined;
+}
 
-        totalRelationshipsCreated += result.metadata.relationshipsCreated;
-        console.log(
-          `[graph-writer] Created ${rel.type}: ${rel.fromId} -> ${rel.toId} (${result.metadata.relationshipsCreated} new)`,
-        );
-      } else {
-        console.warn(`[graph-writer] No query found for relationship type: ${rel.type}`);
-      }
+/**
+ * Properties the ontology sets on every relationship of a type, none for unmapped types
+ */
+export function relationshipDefaults(type: string): Record<string, string | number | boolean> {
+  return getOntology().relationshipType(type)?.defaults ?? {};
+}
+
+function relationshipQuery(type: string): string {
+  return buildGenericRelationshipQuery(type, Object.keys(relationshipDefaults(type)));
+}
+
+/**
+ * Why a relationship type cannot be written, or null when it can
+ * Types outside the ontology are written by the generic query if their name is safe.
+ */
+export function relationshipTypeRejection(type: string): string | null {
+  if (isOntologyRelationshipType(type)) {
+    return null;
+  }
+  if (RESERVED_RELATIONSHIP_TYPES.has(type)) {
+    return `Relationship type ${type} is reserved for provenance`;
+  }
+  if (!RELATIONSHIP_TYPE_PATTERN.test(type)) {
+    return `Relationship type ${JSON.stringify(type)} is not a valid type name`;
+  }
+  if (UNMAPPED_RELATIONSHIP_ALLOWLIST.size > 0 && !UNMAPPED_RELATIONSHIP_ALLOWLIST.has(type)) {
+    return `Relationship type ${type} is not in GRAPH_RELATIONSHIP_ALLOWLIST`;
+  }
+  return null;
+}
+
+/**
+ * Count the relationships of each type outside the ontology, most frequent first
+ */
+export function countUnmappedRelationshipTypes(
+  relationships: ResolvedRelationship[],
+): UnmappedRelationshipType[] {
+  const counts = new Map<string, number>();
+  for (const rel of relationships) {
+    if (!isOntologyRelationshipType(rel.type)) {
+      counts.set(rel.type, (counts.get(rel.type) ?? 0) + 1);
     }
+  }
 
-    const writeTimeMs = Date.now() - startTime;
-    console.log(
-      `[graph-writer] Completed: ${totalNodesCreated} nodes, ${totalRelationshipsCreated} relationships in ${writeTimeMs}ms`,
-    );
+  return Array.from(counts, ([type, count]) => ({ type, count })).sort(
+    (a, b) => b.count - a.count || a.type.localeCompare(b.type),
+  );
+}
 
-    return {
-      nodesCreated: totalNodesCreated,
-      relationshipsCreated: totalRelationshipsCreated,
-      writeTimeMs,
-    };
-  } catch (error) {
-    console.error('[graph-writer] Error writing to Neo4j:', error);
-    throw new Error(
-      `Failed to write to knowledge graph: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    );
+/**
+ * Node properties the ontology defines for a label, the ones its batch query writes
+ */
+export function nodeProperties(label: string): string[] {
+  return getOntology().entityType(label)?.properties ?? [];
+}
+
+/**
+ * Unmapped relationship type found in the graph, for curators deciding what to promote
+ */
+export interface UnmappedRelationshipTypeReport extends UnmappedRelationshipType {
+  endpoints: string[];
+  examples: string[];
+}
+
+/**
+ * Relationship types the generic writer has stored, most frequent first
+ * Types promoted into the ontology since they were written are left out.
+ */
+export async function findUnmappedRelationshipTypes(): Promise<UnmappedRelationshipTypeReport[]> {
+  const result = await executeRead<{
+    type: string;
+    count: unknown;
+    endpoints: string[];
+    examples: string[];
+  }>(ReadQueries.getUnmappedRelationshipTypes);
+
+  return result.records
+    .filter((record) => !isOntologyRelationshipType(record.type))
+    .map((record) => ({ ...record, count: Number(record.count) }));
+}
+
+/**
+ * Entities and relationships a job can write, and what it has to drop
+ */
+export interface WritablePlan {
+  entities: CanonicalEntity[];
+  relationships: ResolvedRelationship[];
+  droppedEntities: Array<CanonicalEntity & { reason: string }>;
+  droppedRelationships: Array<ResolvedRelationship & { reason: string }>;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
   }
+  return groups;
 }
 
 /**
- * Get appropriate Neo4j MERGE query for entity type
- * Maps to NodeQueries from neo4j-utilities
+ * Split a job into writable items and items that cannot be written: entities whose label
+ * is not in the ontology, relationships whose type is rejected, and ontology relationships
+ * between labels the ontology does not allow
+ * The same fact may be extracted more than once; it is kept once per job
  */
-function getQueryForEntityType(type: string): string | null {
-  const queryMap: Record<string, string> = {
-    Faction: NodeQueries.mergeFaction,
-    Character: NodeQueries.mergeCharacter,
-    Location: NodeQueries.mergeLocation,
-    Resource: NodeQueries.mergeResource,
-    Event: NodeQueries.mergeEvent,
+export function planGraphWrite(
+  entities: CanonicalEntity[],
+  relationships: ResolvedRelationship[],
+): WritablePlan {
+  const ontology = getOntology();
+  const plan: WritablePlan = {
+    entities: [],
+    relationships: [],
+    droppedEntities: [],
+    droppedRelationships: [],
   };
 
-  return queryMap[type] || null;
+  for (const entity of entities) {
+    if (ontology.entityType(entity.type)) {
+      plan.entities.push(entity);
+    } else {
+      plan.droppedEntities.push({
+        ...entity,
+        reason: `Entity type ${entity.type} is not in the ontology`,
+      });
+    }
+  }
+
+  // Endpoints are checked against the labels of written entities; nodes already in the
+  // graph and dropped entities are left to the write itself
+  const labels = new Map(plan.entities.map((entity) => [entity.id, entity.type]));
+  const uniqueRelationships = new Map(
+    relationships.map((rel) => [buildFactId(rel.fromId, rel.type, rel.toId), rel] as const),
+  );
+
+  for (const rel of uniqueRelationships.values()) {
+    const fromLabel = labels.get(rel.fromId);
+    const toLabel = labels.get(rel.toId);
+    const reason =
+      relationshipTypeRejection(rel.type) ??
+      (fromLabel && toLabel && !ontology.allowsRelationship(rel.type, fromLabel, toLabel)
+        ? `${rel.type} does not connect ${fromLabel} to ${toLabel} in the ontology`
+        : null);
+
+    if (reason) {
+      plan.droppedRelationships.push({ ...rel, reason });
+    } else {
+      plan.relationships.push(rel);
+    }
+  }
+
+  return plan;
 }
 
 /**
- * Get appropriate Neo4j relationship query for relationship type
- * Maps to RelationshipQueries from neo4j-utilities
+ * Build the batch row for an entity: its ID, aliases and the properties its label writes
  */
-function getQueryForRelationType(type: string): string | null {
-  const queryMap: Record<string, string> = {
-    CONTROLS_RESOURCE: RelationshipQueries.controlsResource,
-    IS_ALLY_OF: RelationshipQueries.isAllyOf,
-    PARTICIPATED_IN: RelationshipQueries.participatedIn,
-    LOCATED_IN: RelationshipQueries.locatedIn,
-    COMMANDS: RelationshipQueries.commands,
-    MEMBER_OF: RelationshipQueries.memberOf,
-  };
+export function buildNodeRow(entity: CanonicalEntity): Record<string, unknown> {
+  const row: Record<string, unknown> = { id: entity.id, aliases: entity.aliases };
+  for (const property of nodeProperties(entity.type)) {
+    if (entity.properties[property] !== undefined) {
+      row[property] = entity.properties[property];
+    }
+  }
+  return row;
+}
 
-  return queryMap[type] || null;
+/**
+ * Build the MENTIONED_IN row for an entity: where the source mentions it, and the
+ * properties and aliases the source contributed, so they can be recomputed on retraction
+ */
+export function buildMentionRow(text: string, entity: CanonicalEntity): Record<string, unknown> {
+  const { id: _id, aliases, ...properties } = buildNodeRow(entity);
+  return {
+    ...buildEntityProvenance(text, entity),
+    propertiesJson: JSON.stringify(properties),
+    aliases,
+    created: entity.isNew,
+  };
 }
 
 /**
- * Build parameters for relationship creation
- * Maps generic fromId/toId to specific query parameters
+ * Plan the batch queries for one job: the Source node, one batch per label and
+ * relationship type, then the provenance links
+ * Entities and relationships with types that have no query are skipped with a warning.
  */
-function buildRelationshipParams(rel: {
-  fromId: string;
-  toId: string;
-  type: string;
-}): Record<string, unknown> {
-  const baseParams: Record<string, unknown> = {
-    since: new Date().toISOString(),
+export function buildGraphWriteBatches(
+  entities: CanonicalEntity[],
+  relationships: ResolvedRelationship[],
+  source: SourceContext,
+): GraphWriteBatch[] {
+  const plan = planGraphWrite(entities, relationships);
+
+  for (const dropped of [...plan.droppedEntities, ...plan.droppedRelationships]) {
+    console.warn(`[graph-writer] Skipped: ${dropped.reason}`);
+  }
+
+  const batches: GraphWriteBatch[] = [
+    {
+      kind: 'source',
+      label: 'Source',
+      cypher: ProvenanceQueries.mergeSource,
+      parameters: {
+        sourceId: source.sourceId,
+        jobId: source.jobId,
+        metadataJson: JSON.stringify(source.metadata ?? {}),
+        textLength: source.text.length,
+        contentHash: source.revision?.contentHash ?? null,
+        revision: source.revision?.revision ?? null,
+      },
+    },
+  ];
+
+  for (const [label, group] of groupBy(plan.entities, (entity) => entity.type)) {
+    batches.push({
+      kind: 'nodes',
+      label,
+      cypher: buildNodeMergeQuery(label, nodeProperties(label)),
+      parameters: { rows: group.map(buildNodeRow) },
+    });
+  }
+
+  for (const [type, group] of groupBy(plan.relationships, (rel) => rel.type)) {
+    batches.push({
+      kind: 'relationships',
+      label: type,
+      cypher: relationshipQuery(type),
+      parameters: { rows: group.map(buildRelationshipRow) },
+    });
+  }
+
+  const sourceParams = {
+    sourceId: source.sourceId,
+    jobId: source.jobId,
+    revision: source.revision?.revision ?? null,
   };
 
-  switch (rel.type) {
-    case 'CONTROLS_RESOURCE':
-      return {
-        ...baseParams,
-        factionId: rel.fromId,
-        resourceId: rel.toId,
-      };
-    case 'IS_ALLY_OF':
-      return {
-        ...baseParams,
-        factionId1: rel.fromId,
-        factionId2: rel.toId,
-        strength: 0.5, // Default strength
-      };
-    case 'PARTICIPATED_IN':
-      return {
-        ...baseParams,
-        characterId: rel.fromId,
-        eventId: rel.toId,
-        role: 'participant', // Default role
-      };
-    case 'LOCATED_IN':
-      return {
-        ...baseParams,
-        entityId: rel.fromId,
-        locationId: rel.toId,
-      };
-    case 'COMMANDS':
-      return {
-        ...baseParams,
-        characterId: rel.fromId,
-        factionId: rel.toId,
-      };
-    case 'MEMBER_OF':
-      return {
-        ...baseParams,
-        characterId: rel.fromId,
-        factionId: rel.toId,
-        rank: 'member', // Default rank
-      };
-    default:
-      // Generic fallback
-      return {
-        fromId: rel.fromId,
-        toId: rel.toId,
-      };
+  if (plan.entities.length > 0) {
+    batches.push({
+      kind: 'provenance',
+      label: 'MENTIONED_IN',
+      cypher: BatchQueries.mentionedIn,
+      parameters: {
+        ...sourceParams,
+        rows: plan.entities.map((entity) => buildMentionRow(source.text, entity)),
+      },
+    });
   }
+
+  if (plan.relationships.length > 0) {
+    batches.push({
+      kind: 'provenance',
+      label: 'ASSERTED_BY',
+      cypher: BatchQueries.assertedBy,
+      parameters: {
+        ...sourceParams,
+        rows: plan.relationships.map((rel) => buildRelationshipProvenance(source.text, rel)),
+      },
+    });
+  }
+
+  return batches;
+}
+
+/**
+ * Write a job's entities, relationships and provenance to Neo4j in one transaction
+ * Created and updated counts are exact: every batch reports the rows it wrote and the
+ * transaction counters tell how many of those were new. The same transaction replaces
+ * the source's earlier revisions, so a failure leaves no mix of both.
+ */
+export async function writeToGraph(
+  entities: CanonicalEntity[],
+  relationships: ResolvedRelationship[],
+  source: SourceContext,
+): Promise<GraphWriteResult> {
+  const startTime = Date.now();
+  const batches = buildGraphWriteBatches(entities, relationships, source);
+
+  try {
+    const revision = source.revision?.revision;
+    const transaction = await executeTransaction(
+      batches.map(({ cypher, parameters }) => ({ cypher, parameters })),
+      undefined,
+      async (tx) =>
+        revision === undefined ? null : replaceEarlierRevisions(tx, source.sourceId, revision),
+    );
+
+    const result: GraphWriteResult = {
+      nodesCreated: 0,
+      nodesUpdated: 0,
+      relationshipsCreated: 0,
+      relationshipsUpdated: 0,
+      provenanceLinksCreated: 0,
+      unmappedRelationshipTypes: [],
+      replacement: transaction.finished ?? null,
+      writeTimeMs: 0,
+    };
+
+    batches.forEach((batch, index) => {
+      const outcome = transaction.results[index];
+      if (!outcome) return;
+
+      const [record] = outcome.records as Array<{ written?: unknown }>;
+      const written = Number(record?.written ?? 0);
+
+      switch (batch.kind) {
+        case 'nodes':
+          result.nodesCreated += outcome.metadata.nodesCreated;
+          result.nodesUpdated += written - outcome.metadata.nodesCreated;
+          break;
+        case 'relationships':
+          result.relationshipsCreated += outcome.metadata.relationshipsCreated;
+          result.relationshipsUpdated += written - outcome.metadata.relationshipsCreated;
+          if (!isOntologyRelationshipType(batch.label)) {
+            result.unmappedRelationshipTypes.push({ type: batch.label, count: written });
+          }
+          break;
+        case 'provenance':
+          result.provenanceLinksCreated += outcome.metadata.relationshipsCreated;
+          break;
+        default:
+          break;
+      }
+
+      console.log(
+        `[graph-writer] ${batch.label}: ${written} written (${outcome.metadata.nodesCreated} nodes, ${outcome.metadata.relationshipsCreated} relationships created)`,
+      );
+    });
+
+    result.writeTimeMs = Date.now() - startTime;
+    console.log(
+      `[graph-writer] Committed: ${result.nodesCreated} nodes created, ${result.nodesUpdated} updated, ${result.relationshipsCreated} relationships created, ${result.relationshipsUpdated} updated, ${result.provenanceLinksCreated} provenance links in ${result.writeTimeMs}ms`,
+    );
+
+    return result;
+  } catch (error) {
+    console.error('[graph-writer] Transaction rolled back:', error);
+    throw new Error(
+      `Failed to write to knowledge graph: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+/**
+ * Build the batch row for a relationship
+ * Rows carry generic fromId/toId, the evidence and confidence, the phrase the type was
+ * classified from, and the defaults the ontology gives the type
+ */
+function buildRelationshipRow(rel: ResolvedRelationship): Record<string, unknown> {
+  return {
+    ...relationshipDefaults(rel.type),
+    fromId: rel.fromId,
+    toId: rel.toId,
+    evidence: rel.evidence ?? null,
+    confidence: rel.confidence ?? null,
+    unmapped: !isOntologyRelationshipType(rel.type),
+    raw_type: rel.rawType ?? null,
+    type_score: rel.typeScore ?? null,
+    since: new Date().toISOString(),
+  };
 }
@@ -1,20 +1,93 @@
+import { loadLLMConfig } from '@ace/llm';
+import { createMetricsHandler, incrementCounter, metricsMiddleware } from '@ace/metrics';
+import { getOntology } from '@ace/ontology';
 import { createLogger } from '@ace/shared-logging';
+import { getVectorClient } from '@ace/vector-client';
 import type { Context, Next } from 'hono';
 import { Hono } from 'hono';
-import type { WorkerJob, WorkerResult } from './types';
-import { IngestionRequestSchema } from './types';
+import { streamSSE } from 'hono/streaming';
+import {
+  aggregateBatchStatus,
+  BATCH_MAX_DOCUMENTS,
+  buildBatchReport,
+  type ParsedBatch,
+  parseBatchFiles,
+  parseNdjsonBatch,
+} from './batch';
+import { findUnmappedRelationshipTypes, planGraphWrite, writeToGraph } from './graph-writer';
+import { JobEventHub } from './job-events';
+import { JobStore } from './job-store';
+import { connectToGraph, ensureGraphSchema } from './neo4j';
+import { contentHash, findSupportingSources } from './provenance';
+import { applyQuarantineEdit } from './quarantine';
+import { QuarantineStore } from './quarantine-store';
+import { retractSource } from './retraction';
+import { isStructuredRequest, readStructuredRows } from './structured-import';
+import type {
+  BatchDocument,
+  BatchRecord,
+  IngestionRequest,
+  IngestionResult,
+  JobEvent,
+  JobRecord,
+  QuarantineEntry,
+  QuarantineRecord,
+  QueuedJob,
+  SourceRevision,
+  WorkerJob,
+  WorkerMessage,
+} from './types';
+import {
+  IngestionRequestSchema,
+  JobListQuerySchema,
+  ProvenanceQuerySchema,
+  QuarantineEditSchema,
+  QuarantineListQuerySchema,
+  QuarantineReviewSchema,
+} from './types';
+import { buildPointId } from './vector-index';
+import { DEFAULT_POOL_OPTIONS, WorkerPool } from './worker-pool';
 
 const logger = createLogger('ingestion-engine');
 
-const worker = new Worker(new URL('./worker.ts', import.meta.url).href, {
-  type: 'module',
-});
+connectToGraph();
+
+// Indexes and entity labels are in place before any job (including resumed ones) writes
+try {
+  await ensureGraphSchema();
+} catch (error) {
+  logger.error('Failed to set up graph indexes', { error });
+}
+
+// Persist job state so status queries and restarts see every accepted job
+const jobStore = new JobStore();
+
+// Low-confidence extractions waiting for curator review
+const quarantineStore = new QuarantineStore();
+
+// Source chunks are removed from Qdrant when a source is retracted
+const vectorClient = getVectorClient();
+
+// Live stage and result events for GET /jobs/:jobId/events subscribers
+const jobEvents = new JobEventHub();
 
-// Store job results for status queries
-const jobResults = new Map<string, unknown>();
+// Bun closes connections idle for 10 seconds, so event streams send heartbeats more often
+const SSE_HEARTBEAT_MS = 5000;
+
+const pool = new WorkerPool({
+  ...DEFAULT_POOL_OPTIONS,
+  createWorker: () =>
+    new Worker(new URL('./worker.ts', import.meta.url).href, {
+      type: 'module',
+    }),
+  onMessage: handleWorkerMessage,
+  onJobCrashed: handleJobCrash,
+});
 
 const app = new Hono();
 
+app.use('*', metricsMiddleware());
+
 app.use('*', async (c: Context, next: Next) => {
   const start = Date.now();
   await next();
@@ -31,15 +104,78 @@ app.get('/health', (c: Context) =>
     status: 'ok',
     service: 'ingestion-engine',
     timestamp: new Date().toISOString(),
+    pool: pool.stats(),
   }),
 );
 
-app.post('/ingest', async (c: Context) => {
+app.get('/metrics', createMetricsHandler('ingestion-engine'));
+
+/**
+ * 429 response telling the client when the queue is likely to have room again
+ */
+function queueFullResponse(c: Context) {
+  const retryAfter = pool.retryAfterSeconds();
+  incrementCounter('ingestion_jobs_rejected_total');
+  c.header('Retry-After', String(retryAfter));
+  return c.json(
+    {
+      error: 'Ingestion queue is full',
+      queueDepth: pool.stats().queueDepth,
+      retryAfterSeconds: retryAfter,
+    },
+    429,
+  );
+}
+
+/**
+ * Answer a resubmission of already ingested text with the job that ingested it
+ * A finished job's result is returned as is; a job still running is a conflict to poll.
+ */
+function duplicateResponse(c: Context, existing: JobRecord) {
+  if (!FINISHED_STATUSES.has(existing.status)) {
+    return c.json(
+      {
+        error: 'The same text is already being ingested for this source',
+        details: 'Poll the existing job, or pass "force": true to ingest it again',
+        jobId: existing.jobId,
+        status: existing.status,
+        statusUrl: `/jobs/${existing.jobId}`,
+      },
+      409,
+    );
+  }
+
+  incrementCounter('ingestion_jobs_deduplicated_total');
+  return c.json({
+    message: 'The same text was already ingested for this source; pass "force": true to re-run it',
+    duplicate: true,
+    statusUrl: `/jobs/${existing.jobId}`,
+    ...toJobView(existing),
+  });
+}
+
+/**
+ * Source revision assigned to a job record, handed to the worker with the job
+ */
+function sourceRevision(record: JobRecord): SourceRevision | undefined {
+  return record.contentHash && record.revision !== null
+    ? { contentHash: record.contentHash, revision: record.revision }
+    : undefined;
+}
+
+function toBatchDocument(record: JobRecord): BatchDocument {
+  return { jobId: record.jobId, request: record.request, revision: sourceRevision(record) };
+}
+
+/**
+ * Validate an ingestion request and queue it for the worker
+ */
+async function acceptIngestion(c: Context, overrides: Partial<IngestionRequest> = {}) {
   try {
     const body = await c.req.json().catch(() => ({}));
 
     // Validate request using Zod schema
-    const parseResult = IngestionRequestSchema.safeParse(body);
+    const parseResult = IngestionRequestSchema.safeParse({ ...body, ...overrides });
 
     if (!parseResult.success) {
       return c.json(
@@ -51,22 +187,72 @@ app.post('/ingest', async (c: Context) => {
       );
     }
 
+    // Structured imports are validated row by row up front so bad rows are reported at once
+    const rows = isStructuredRequest(parseResult.data)
+      ? readStructuredRows(parseResult.data)
+      : null;
+    if (rows && rows.rows.length === 0) {
+      return c.json({ error: 'No valid rows to import', details: rows.errors }, 400);
+    }
+
+    // Resubmitting text already ingested for the source reuses that job instead of the LLM
+    const duplicate =
+      parseResult.data.dryRun || parseResult.data.force
+        ? null
+        : jobStore.findByContentHash(contentHash(parseResult.data));
+    if (duplicate) {
+      return duplicateResponse(c, duplicate);
+    }
+
+    if (!pool.canAccept()) {
+      return queueFullResponse(c);
+    }
+
     const jobId = crypto.randomUUID();
     const job: WorkerJob = {
       id: jobId,
       request: parseResult.data,
     };
 
-    worker.postMessage(job);
+    const record = jobStore.create(job);
+    pool.submit({ ...job, revision: sourceRevision(record) });
     logger.info('ingestion job queued', {
       jobId,
       textLength: parseResult.data.text.length,
+      dryRun: parseResult.data.dryRun ?? false,
+      revision: record.revision,
     });
 
+    if (parseResult.data.dryRun) {
+      return c.json(
+        {
+          message: 'Dry run accepted; the proposed graph diff will be available as a preview',
+          jobId,
+          previewUrl: `/previews/${jobId}`,
+          pipeline: ['Extract', 'Define', 'Canonicalize', 'Diff'],
+        },
+        202,
+      );
+    }
+
+    if (rows) {
+      return c.json(
+        {
+          message: 'Structured import accepted; valid rows skip extraction',
+          jobId,
+          revision: record.revision,
+          rows: { total: rows.total, accepted: rows.rows.length, rejected: rows.errors },
+          pipeline: ['Validate', 'Canonicalize', 'Write to Graph'],
+        },
+        202,
+      );
+    }
+
     return c.json(
       {
         message: 'Ingestion job accepted and processing via EDC pipeline',
         jobId,
+        revision: record.revision,
         pipeline: ['Extract', 'Define', 'Canonicalize', 'Write to Graph'],
       },
       202,
@@ -80,13 +266,234 @@ app.post('/ingest', async (c: Context) => {
       500,
     );
   }
+}
+
+app.post('/ingest', (c: Context) => acceptIngestion(c));
+
+app.post('/ingest/preview', (c: Context) => acceptIngestion(c, { dryRun: true }));
+
+app.post('/ingest/batch', async (c: Context) => {
+  const contentType = c.req.header('Content-Type') ?? '';
+  let parsed: ParsedBatch;
+
+  try {
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await c.req.parseBody({ all: true });
+      const files = Object.values(form)
+        .flat()
+        .filter((value): value is File => value instanceof File);
+      parsed = await parseBatchFiles(files);
+    } else if (contentType.includes('ndjson') || contentType.includes('jsonl')) {
+      parsed = parseNdjsonBatch(await c.req.text());
+    } else {
+      return c.json(
+        {
+          error: 'Unsupported content type',
+          details: 'Send application/x-ndjson lines or multipart/form-data files',
+        },
+        415,
+      );
+    }
+  } catch (error) {
+    logger.warn('Failed to read batch body', { error });
+    return c.json({ error: 'Invalid batch body' }, 400);
+  }
+
+  if (parsed.errors.length > 0) {
+    return c.json({ error: 'Invalid batch', details: parsed.errors }, 400);
+  }
+
+  if (parsed.requests.length === 0) {
+    return c.json({ error: 'Batch contains no documents' }, 400);
+  }
+
+  if (parsed.requests.length > BATCH_MAX_DOCUMENTS) {
+    return c.json(
+      {
+        error: 'Batch too large',
+        documents: parsed.requests.length,
+        maxDocuments: BATCH_MAX_DOCUMENTS,
+      },
+      413,
+    );
+  }
+
+  // The whole batch takes one queue slot; its documents are canonicalized together
+  if (!pool.canAccept()) {
+    return queueFullResponse(c);
+  }
+
+  const batchId = crypto.randomUUID();
+  const documents: BatchDocument[] = parsed.requests.map((request) => ({
+    jobId: crypto.randomUUID(),
+    request,
+  }));
+
+  jobStore.createBatch(batchId, documents);
+  pool.submit({ id: batchId, documents: jobStore.listBatchJobs(batchId).map(toBatchDocument) });
+  logger.info('ingestion batch queued', { batchId, documents: documents.length });
+
+  return c.json(
+    {
+      message: 'Batch accepted; documents are canonicalized together and written per source',
+      batchId,
+      jobIds: documents.map((document) => document.jobId),
+      statusUrl: `/batches/${batchId}`,
+    },
+    202,
+  );
+});
+
+app.get('/batches/:batchId', (c: Context) => {
+  const batchId = c.req.param('batchId');
+  const batch = jobStore.getBatch(batchId);
+
+  if (!batch) {
+    return c.json({ error: 'Batch not found', batchId }, 404);
+  }
+
+  return c.json(toBatchView(batch, jobStore.listBatchJobs(batchId)));
+});
+
+app.post('/batches/:batchId/cancel', (c: Context) => {
+  const batchId = c.req.param('batchId');
+  const batch = jobStore.getBatch(batchId);
+
+  if (!batch) {
+    return c.json({ error: 'Batch not found', batchId }, 404);
+  }
+
+  const unfinished = jobStore
+    .listBatchJobs(batchId)
+    .filter((job) => !FINISHED_STATUSES.has(job.status));
+  if (unfinished.length === 0) {
+    return c.json({ error: 'Batch already finished', batchId }, 409);
+  }
+
+  const outcome = pool.cancel(batchId);
+  logger.info('ingestion batch cancel requested', { batchId, outcome });
+
+  if (outcome === 'signalled') {
+    return c.json(
+      {
+        message: 'Cancellation requested; the batch stops unless it is already writing',
+        batchId,
+        status: 'cancelling',
+      },
+      202,
+    );
+  }
+
+  for (const job of unfinished) {
+    finishJob(job.jobId, cancelledResult(job.jobId));
+  }
+  jobStore.completeBatch(batchId, buildBatchReport([], 0));
+
+  return c.json({ message: 'Batch cancelled before it started', batchId, status: 'cancelled' });
+});
+
+app.get('/previews/:jobId', (c: Context) => {
+  const jobId = c.req.param('jobId');
+  const record = jobStore.get(jobId);
+
+  if (!record?.request.dryRun) {
+    return c.json({ error: 'Preview not found', jobId }, 404);
+  }
+
+  const preview = jobStore.getPreview(jobId);
+
+  return c.json({
+    jobId,
+    status: record.status,
+    diff: record.result?.diff ?? null,
+    mergeDecisions: record.result?.mergeDecisions ?? [],
+    errors: record.result?.errors ?? [],
+    commitJobId: preview?.commitJobId ?? null,
+    committedAt: preview?.committedAt ?? null,
+  });
+});
+
+app.post('/previews/:jobId/commit', (c: Context) => {
+  const jobId = c.req.param('jobId');
+  const record = jobStore.get(jobId);
+
+  if (!record?.request.dryRun) {
+    return c.json({ error: 'Preview not found', jobId }, 404);
+  }
+
+  const preview = jobStore.getPreview(jobId);
+  if (!preview) {
+    return c.json({ error: 'Preview has no diff to commit', jobId, status: record.status }, 409);
+  }
+
+  // A preview is committed once; a failed commit may be retried
+  const previousCommit = preview.commitJobId ? jobStore.get(preview.commitJobId) : null;
+  if (previousCommit && previousCommit.status !== 'failed') {
+    return c.json(
+      {
+        error: 'Preview already committed',
+        jobId,
+        commitJobId: previousCommit.jobId,
+        status: previousCommit.status,
+      },
+      409,
+    );
+  }
+
+  if (!pool.canAccept()) {
+    return queueFullResponse(c);
+  }
+
+  const commitJob: WorkerJob = {
+    id: crypto.randomUUID(),
+    request: { ...record.request, dryRun: false },
+    plan: preview.plan,
+  };
+
+  const commitRecord = jobStore.create(commitJob);
+  jobStore.markPreviewCommitted(jobId, commitJob.id);
+  pool.submit({ ...commitJob, revision: sourceRevision(commitRecord) });
+  logger.info('preview commit queued', { previewJobId: jobId, jobId: commitJob.id });
+
+  return c.json(
+    {
+      message: 'Preview commit accepted; the previewed diff will be written without re-extraction',
+      jobId: commitJob.id,
+      previewJobId: jobId,
+    },
+    202,
+  );
+});
+
+app.get('/jobs', (c: Context) => {
+  const parseResult = JobListQuerySchema.safeParse(c.req.query());
+
+  if (!parseResult.success) {
+    return c.json(
+      {
+        error: 'Invalid query parameters',
+        details: parseResult.error.issues,
+      },
+      400,
+    );
+  }
+
+  const { status, limit, offset } = parseResult.data;
+  const { jobs, total } = jobStore.list({ status, limit, offset });
+
+  return c.json({
+    jobs: jobs.map(toJobSummary),
+    total,
+    limit,
+    offset,
+  });
 });
 
 app.get('/jobs/:jobId', (c: Context) => {
   const jobId = c.req.param('jobId');
-  const result = jobResults.get(jobId);
+  const record = jobStore.get(jobId);
 
-  if (!result) {
+  if (!record) {
     return c.json(
       {
         error: 'Job not found',
@@ -96,12 +503,576 @@ app.get('/jobs/:jobId', (c: Context) => {
     );
   }
 
-  return c.json(result);
+  return c.json(toJobView(record));
 });
 
-worker.onmessage = (event: MessageEvent<WorkerResult>) => {
-  const { jobId, result } = event.data;
-  jobResults.set(jobId, result);
+// Jobs that can no longer be cancelled; of these only failed, partial and cancelled jobs can be retried
+const FINISHED_STATUSES = new Set(['completed', 'partial', 'failed', 'cancelled']);
+const RETRYABLE_STATUSES = new Set(['partial', 'failed', 'cancelled']);
+
+app.post('/jobs/:jobId/cancel', (c: Context) => {
+  const jobId = c.req.param('jobId');
+  const record = jobStore.get(jobId);
+
+  if (!record) {
+    return c.json({ error: 'Job not found', jobId }, 404);
+  }
+
+  if (FINISHED_STATUSES.has(record.status)) {
+    return c.json({ error: 'Job already finished', jobId, status: record.status }, 409);
+  }
+
+  if (record.batchId) {
+    return c.json(
+      {
+        error: 'Jobs in a batch are cancelled with their batch',
+        jobId,
+        batchId: record.batchId,
+      },
+      409,
+    );
+  }
+
+  const outcome = pool.cancel(jobId);
+  logger.info('ingestion job cancel requested', { jobId, outcome });
+
+  // A running job reports its own cancelled result once the worker reaches a checkpoint
+  if (outcome === 'signalled') {
+    return c.json(
+      {
+        message: 'Cancellation requested; the job stops unless it is already writing to the graph',
+        jobId,
+        status: 'cancelling',
+      },
+      202,
+    );
+  }
+
+  finishJob(jobId, cancelledResult(jobId));
+
+  return c.json({ message: 'Job cancelled before it started', jobId, status: 'cancelled' });
+});
+
+app.post('/jobs/:jobId/retry', (c: Context) => {
+  const jobId = c.req.param('jobId');
+  const record = jobStore.get(jobId);
+
+  if (!record) {
+    return c.json({ error: 'Job not found', jobId }, 404);
+  }
+
+  if (!RETRYABLE_STATUSES.has(record.status)) {
+    return c.json(
+      {
+        error: 'Only failed, partial or cancelled jobs can be retried',
+        jobId,
+        status: record.status,
+      },
+      409,
+    );
+  }
+
+  if (!pool.canAccept()) {
+    return queueFullResponse(c);
+  }
+
+  // Retrying a preview commit writes the stored plan again instead of re-extracting
+  const preview = jobStore.findPreviewByCommitJob(jobId);
+  const retryJob: WorkerJob = {
+    id: crypto.randomUUID(),
+    request: record.request,
+    plan: preview?.plan,
+  };
+
+  const retryRecord = jobStore.create(retryJob, { retryOf: jobId });
+  if (preview) {
+    jobStore.markPreviewCommitted(preview.jobId, retryJob.id);
+  }
+  pool.submit({ ...retryJob, revision: sourceRevision(retryRecord) });
+  logger.info('ingestion job retry queued', { jobId: retryJob.id, retryOf: jobId });
+
+  return c.json(
+    {
+      message: 'Retry accepted and processing from the stored request',
+      jobId: retryJob.id,
+      retryOf: jobId,
+    },
+    202,
+  );
+});
+
+app.get('/jobs/:jobId/events', (c: Context) => {
+  const jobId = c.req.param('jobId');
+
+  if (!jobStore.get(jobId)) {
+    return c.json({ error: 'Job not found', jobId }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    const pending: JobEvent[] = [];
+    let wake: (() => void) | null = null;
+
+    // Subscribe before reading the snapshot so no event falls between the two
+    const unsubscribe = jobEvents.subscribe(jobId, (event) => {
+      pending.push(event);
+      wake?.();
+    });
+    stream.onAbort(() => wake?.());
+
+    try {
+      const record = jobStore.get(jobId);
+      if (!record) return;
+
+      await stream.writeSSE({ event: 'snapshot', data: JSON.stringify(toJobView(record)) });
+      if (FINISHED_STATUSES.has(record.status)) return;
+
+      while (!stream.aborted) {
+        const event = pending.shift();
+
+        if (!event) {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, SSE_HEARTBEAT_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+
+          if (pending.length === 0 && !stream.aborted) {
+            await stream.write(': heartbeat\n\n');
+          }
+          continue;
+        }
+
+        await stream.writeSSE({ event: event.type, data: JSON.stringify(event) });
+        if (event.type === 'result') break;
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+app.get('/provenance', async (c: Context) => {
+  const parseResult = ProvenanceQuerySchema.safeParse(c.req.query());
+
+  if (!parseResult.success) {
+    return c.json(
+      {
+        error: 'Provide either nodeId or fromId, type and toId',
+        details: parseResult.error.issues,
+      },
+      400,
+    );
+  }
+
+  try {
+    const sources = await findSupportingSources(parseResult.data);
+    return c.json({ target: parseResult.data, sources });
+  } catch (error) {
+    logger.error('Failed to query provenance', { error });
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+app.get('/relationship-types/unmapped', async (c: Context) => {
+  try {
+    const types = await findUnmappedRelationshipTypes();
+    return c.json({ types });
+  } catch (error) {
+    logger.error('Failed to query unmapped relationship types', { error });
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * Retract a source: delete the facts and nodes only it supports, recompute the entities
+ * other sources still mention, and remove its chunks from the vector index
+ */
+app.delete('/sources/:sourceId', async (c: Context) => {
+  const sourceId = c.req.param('sourceId') as string;
+  const jobs = jobStore.listSourceJobs(sourceId);
+
+  const running = jobs.filter((job) => !FINISHED_STATUSES.has(job.status));
+  if (running.length > 0) {
+    return c.json(
+      {
+        error: 'The source is still being ingested',
+        details: 'Cancel or wait for its jobs before retracting it',
+        jobIds: running.map((job) => job.jobId),
+      },
+      409,
+    );
+  }
+
+  let retraction: Awaited<ReturnType<typeof retractSource>>;
+  try {
+    retraction = await retractSource(sourceId);
+  } catch (error) {
+    logger.error('Failed to retract source', { sourceId, error });
+    return c.json({ error: 'Failed to retract source' }, 500);
+  }
+  if (!retraction) {
+    return c.json({ error: 'Source not found', sourceId }, 404);
+  }
+
+  // Chunks whose point IDs were not recorded are found by each job's chunk count
+  const pointIds = new Set(retraction.vectorPointIds);
+  for (const job of jobs) {
+    for (let index = 0; index < (job.result?.vectorChunksIndexed ?? 0); index++) {
+      pointIds.add(buildPointId(sourceId, index));
+      if (job.revision !== null) pointIds.add(buildPointId(sourceId, index, job.revision));
+    }
+  }
+
+  const errors: string[] = [];
+  try {
+    if (pointIds.size > 0) {
+      await vectorClient.deleteByIds(Array.from(pointIds));
+    }
+  } catch (error) {
+    logger.error('Failed to delete source chunks', { sourceId, error });
+    errors.push(
+      `Deleting vector chunks failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  jobStore.markRetracted(jobs.map((job) => job.jobId));
+  const quarantineRejected = quarantineStore.rejectSource(sourceId, 'Source retracted');
+  incrementCounter('ingestion_sources_retracted_total');
+  const { vectorPointIds: _vectorPointIds, ...counts } = retraction;
+  logger.info('source retracted', { ...counts, vectorChunksRemoved: pointIds.size });
+
+  return c.json({
+    ...counts,
+    vectorChunksRemoved: pointIds.size,
+    jobsRetracted: jobs.length,
+    quarantineRejected,
+    errors: errors.length > 0 ? errors : undefined,
+  });
+});
+
+app.get('/quarantine', (c: Context) => {
+  const parseResult = QuarantineListQuerySchema.safeParse(c.req.query());
+
+  if (!parseResult.success) {
+    return c.json(
+      {
+        error: 'Invalid query parameters',
+        details: parseResult.error.issues,
+      },
+      400,
+    );
+  }
+
+  const { items, total } = quarantineStore.list(parseResult.data);
+  return c.json({
+    items,
+    total,
+    limit: parseResult.data.limit,
+    offset: parseResult.data.offset,
+  });
+});
+
+app.get('/quarantine/:id', (c: Context) => {
+  const id = c.req.param('id');
+  const item = quarantineStore.get(id);
+
+  if (!item) {
+    return c.json({ error: 'Quarantine item not found', id }, 404);
+  }
+
+  return c.json(item);
+});
+
+/**
+ * Look up a quarantine item a curator is acting on; reviewed items cannot change again
+ */
+function findPendingItem(c: Context): QuarantineRecord | Response {
+  const id = c.req.param('id') as string;
+  const item = quarantineStore.get(id);
+
+  if (!item) {
+    return c.json({ error: 'Quarantine item not found', id }, 404);
+  }
+  if (item.status !== 'pending') {
+    return c.json({ error: 'Quarantine item already reviewed', id, status: item.status }, 409);
+  }
+  return item;
+}
+
+app.patch('/quarantine/:id', async (c: Context) => {
+  const item = findPendingItem(c);
+  if (item instanceof Response) return item;
+
+  const parseResult = QuarantineEditSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parseResult.success) {
+    return c.json({ error: 'Invalid edit', details: parseResult.error.issues }, 400);
+  }
+
+  const edited = applyQuarantineEdit(item, parseResult.data);
+  if ('error' in edited) {
+    return c.json({ error: 'Invalid edit', details: edited.error }, 400);
+  }
+
+  quarantineStore.update(edited.item);
+  return c.json(quarantineStore.get(item.id));
+});
+
+app.post('/quarantine/:id/approve', async (c: Context) => {
+  const item = findPendingItem(c);
+  if (item instanceof Response) return item;
+
+  const review = QuarantineReviewSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!review.success) {
+    return c.json({ error: 'Invalid review', details: review.error.issues }, 400);
+  }
+
+  // A relationship to a node that only a pending entity would create cannot be written yet
+  if (item.kind === 'relationship') {
+    const pendingEndpoints = [item.relationship.fromId, item.relationship.toId].filter((nodeId) =>
+      quarantineStore.isNodePending(item.jobId, nodeId),
+    );
+    if (pendingEndpoints.length > 0) {
+      return c.json(
+        {
+          error: 'Review the quarantined endpoints first',
+          id: item.id,
+          pendingEndpoints,
+        },
+        409,
+      );
+    }
+  }
+
+  const record = jobStore.get(item.jobId);
+  if (!record) {
+    return c.json({ error: 'Job not found', jobId: item.jobId }, 404);
+  }
+
+  // Items of an older revision would write facts the latest revision no longer states
+  const latestRevision = jobStore.latestWrittenRevision(item.sourceId);
+  if (record.revision !== null && latestRevision !== null && record.revision < latestRevision) {
+    return c.json(
+      {
+        error: 'Quarantine item belongs to a superseded revision',
+        id: item.id,
+        revision: record.revision,
+        latestRevision,
+      },
+      409,
+    );
+  }
+
+  const entities = item.kind === 'entity' ? [item.entity] : [];
+  const relationships = item.kind === 'relationship' ? [item.relationship] : [];
+  const plan = planGraphWrite(entities, relationships);
+  const [dropped] = [...plan.droppedEntities, ...plan.droppedRelationships];
+  if (dropped) {
+    return c.json({ error: 'Item cannot be written', details: dropped.reason }, 422);
+  }
+
+  try {
+    const written = await writeToGraph(entities, relationships, {
+      sourceId: item.sourceId,
+      jobId: item.jobId,
+      text: record.request.text,
+      metadata: record.request.metadata,
+      revision:
+        record.contentHash !== null && record.revision !== null
+          ? { contentHash: record.contentHash, revision: record.revision }
+          : undefined,
+    });
+    quarantineStore.review(item.id, 'approved', review.data.note);
+    logger.info('quarantine item approved', { id: item.id, kind: item.kind });
+
+    return c.json({ item: quarantineStore.get(item.id), written });
+  } catch (error) {
+    logger.error('Failed to write approved quarantine item', { id: item.id, error });
+    return c.json({ error: 'Failed to write approved item' }, 500);
+  }
+});
+
+app.post('/quarantine/:id/reject', async (c: Context) => {
+  const item = findPendingItem(c);
+  if (item instanceof Response) return item;
+
+  const review = QuarantineReviewSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!review.success) {
+    return c.json({ error: 'Invalid review', details: review.error.issues }, 400);
+  }
+
+  quarantineStore.review(item.id, 'rejected', review.data.note);
+
+  // The node of a rejected new entity is never created, so relationships held with it go too
+  const cascaded: string[] = [];
+  if (item.kind === 'entity' && item.entity.isNew) {
+    for (const rel of quarantineStore.listPendingRelationships(item.jobId, item.entity.id)) {
+      quarantineStore.review(rel.id, 'rejected', `Endpoint ${item.entity.id} was rejected`);
+      cascaded.push(rel.id);
+    }
+  }
+  logger.info('quarantine item rejected', { id: item.id, kind: item.kind, cascaded });
+
+  return c.json({ item: quarantineStore.get(item.id), cascadedRejections: cascaded });
+});
+
+/**
+ * The ontology the pipeline runs with: entity types, relationship types and their synonyms
+ */
+app.get('/ontology', (c: Context) => {
+  return c.json(getOntology().definition);
+});
+
+/**
+ * Flatten a job record into the status payload served to clients
+ * Result fields stay at the top level so existing consumers keep working
+ */
+function toJobView(record: JobRecord) {
+  return {
+    ...record.result,
+    ...toJobSummary(record),
+  };
+}
+
+function toJobSummary(record: JobRecord) {
+  return {
+    jobId: record.jobId,
+    status: record.status,
+    sourceId: record.request.sourceId,
+    textLength: record.request.text.length,
+    stages: record.stages,
+    attempts: record.attempts,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    startedAt: record.startedAt,
+    completedAt: record.completedAt,
+    retryOf: record.retryOf,
+    retriedBy: jobStore.listRetries(record.jobId),
+    batchId: record.batchId,
+    revision: record.revision,
+  };
+}
+
+/**
+ * Batch status payload: aggregate status and totals over the child jobs plus the
+ * combined entity and relationship report once the batch has finished
+ */
+function toBatchView(batch: BatchRecord, jobs: JobRecord[]) {
+  const statusCounts: Record<string, number> = {};
+  const totals = {
+    entitiesCreated: 0,
+    entitiesUpdated: 0,
+    relationshipsCreated: 0,
+    relationshipsUpdated: 0,
+    relationshipsUnresolved: 0,
+  };
+
+  for (const job of jobs) {
+    statusCounts[job.status] = (statusCounts[job.status] ?? 0) + 1;
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += job.result?.[key] ?? 0;
+    }
+  }
+
+  return {
+    batchId: batch.batchId,
+    status: aggregateBatchStatus(jobs.map((job) => job.status)),
+    documents: jobs.length,
+    statusCounts,
+    totals,
+    report: batch.report,
+    jobs: jobs.map(toJobSummary),
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+  };
+}
+
+function cancelledResult(jobId: string): IngestionResult {
+  return {
+    jobId,
+    status: 'cancelled',
+    entitiesCreated: 0,
+    relationshipsCreated: 0,
+    extractionTimeMs: 0,
+    defineTimeMs: 0,
+    canonicalizeTimeMs: 0,
+    graphWriteTimeMs: 0,
+    totalTimeMs: 0,
+    errors: ['Cancelled by request'],
+  };
+}
+
+/**
+ * Store a job's final result and tell event stream subscribers
+ */
+function finishJob(jobId: string, result: IngestionResult): void {
+  jobStore.complete(jobId, result);
+  rejectSupersededQuarantine(result);
+  jobEvents.publish({ type: 'result', jobId, result });
+}
+
+/**
+ * Reject the pending items of revisions older than the latest one written for the source,
+ * including this job's own when a later revision was written first
+ * Approving them would write facts the latest revision no longer states.
+ */
+function rejectSupersededQuarantine(result: IngestionResult): void {
+  if (!result.sourceId || result.revision === undefined || !WRITTEN_STATUSES.has(result.status)) {
+    return;
+  }
+
+  const latest = jobStore.latestWrittenRevision(result.sourceId) ?? result.revision;
+  const superseded = jobStore
+    .listSourceJobs(result.sourceId)
+    .filter((job) => job.revision !== null && job.revision < latest)
+    .map((job) => job.jobId);
+  const rejected = quarantineStore.rejectJobs(superseded, `Superseded by revision ${latest}`);
+  if (rejected > 0) {
+    logger.info('quarantined items of superseded revisions rejected', {
+      sourceId: result.sourceId,
+      revision: latest,
+      rejected,
+    });
+  }
+}
+
+function handleWorkerMessage(message: WorkerMessage): void {
+  if (message.type === 'stage') {
+    jobStore.recordStage(message.jobId, message.stage, message.phase, message.timestamp);
+    jobEvents.publish(message);
+    return;
+  }
+
+  if (message.type === 'batch-result') {
+    const written = new Set(
+      message.results
+        .filter((result) => WRITTEN_STATUSES.has(result.status))
+        .map((result) => result.jobId),
+    );
+    storeQuarantined((message.quarantined ?? []).filter((entry) => written.has(entry.jobId)));
+    for (const result of message.results) {
+      finishJob(result.jobId, result);
+    }
+    jobStore.completeBatch(message.jobId, message.report);
+    logger.info('ingestion batch completed', {
+      batchId: message.jobId,
+      documents: message.results.length,
+      entities: message.report.entities.length,
+      crossDocumentEntities: message.report.crossDocumentEntities,
+    });
+    return;
+  }
+
+  const { jobId, result, plan } = message;
+  if (plan) {
+    jobStore.savePreview(plan);
+  }
+  if (WRITTEN_STATUSES.has(result.status)) {
+    storeQuarantined(message.quarantined ?? []);
+  }
+  finishJob(jobId, result);
 
   logger.info('ingestion job completed', {
     jobId,
@@ -110,10 +1081,95 @@ worker.onmessage = (event: MessageEvent<WorkerResult>) => {
     relationshipsCreated: result.relationshipsCreated,
     totalTimeMs: result.totalTimeMs,
   });
+}
+
+// Results of jobs that wrote to the graph; only these hold items back for review
+const WRITTEN_STATUSES = new Set(['completed', 'partial']);
+
+function storeQuarantined(entries: QuarantineEntry[]): void {
+  if (entries.length === 0) return;
+  quarantineStore.add(entries);
+  logger.info('extractions quarantined for review', {
+    jobIds: Array.from(new Set(entries.map((entry) => entry.jobId))),
+    items: entries.length,
+  });
+}
+
+/**
+ * A worker died mid-job: requeue the job or, once out of restarts, fail it
+ */
+function handleJobCrash(job: QueuedJob, error: string, willRetry: boolean): void {
+  // A batch crash affects every document in it
+  const jobIds = 'documents' in job ? job.documents.map((document) => document.jobId) : [job.id];
+
+  if (willRetry) {
+    for (const jobId of jobIds) {
+      jobStore.requeue(jobId);
+      jobEvents.publish({
+        type: 'requeued',
+        jobId,
+        reason: `Worker crashed: ${error}`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    logger.warn('ingestion job requeued after worker crash', { jobId: job.id, error });
+    return;
+  }
+
+  for (const jobId of jobIds) {
+    finishJob(jobId, {
+      jobId,
+      status: 'failed',
+      entitiesCreated: 0,
+      relationshipsCreated: 0,
+      extractionTimeMs: 0,
+      defineTimeMs: 0,
+      canonicalizeTimeMs: 0,
+      graphWriteTimeMs: 0,
+      totalTimeMs: 0,
+      errors: [`Worker crashed ${DEFAULT_POOL_OPTIONS.maxJobRestarts + 1} times: ${error}`],
+    });
+  }
+  if ('documents' in job) {
+    jobStore.completeBatch(job.id, buildBatchReport([], 0));
+  }
+  logger.error('ingestion job failed after repeated worker crashes', { jobId: job.id, error });
+}
+
+// Resume jobs that were queued or in flight when the service last stopped
+// Batch children are resubmitted together so their documents are still canonicalized as one
+const resumedBatches = new Set<string>();
+
+for (const record of jobStore.listUnfinished()) {
+  jobStore.requeue(record.jobId);
+
+  if (record.batchId) {
+    if (resumedBatches.has(record.batchId)) continue;
+    resumedBatches.add(record.batchId);
+
+    const documents = jobStore
+      .listBatchJobs(record.batchId)
+      .filter((child) => !FINISHED_STATUSES.has(child.status))
+      .map(toBatchDocument);
+    pool.submit({ id: record.batchId, documents }, { force: true });
+    logger.info('ingestion batch resumed', {
+      batchId: record.batchId,
+      documents: documents.length,
+    });
+    continue;
+  }
 
-  // Clean up old job results after 1 hour
-  setTimeout(() => jobResults.delete(jobId), 60 * 60 * 1000);
-};
+  pool.submit(
+    {
+      id: record.jobId,
+      request: record.request,
+      plan: jobStore.findPreviewByCommitJob(record.jobId)?.plan,
+      revision: sourceRevision(record),
+    },
+    { force: true },
+  );
+  logger.info('ingestion job resumed', { jobId: record.jobId, previousStatus: record.status });
+}
 
 const port = Number(Bun.env.INGESTION_ENGINE_PORT ?? 3200);
 
@@ -124,5 +1180,7 @@ Bun.serve({
 
 logger.info('Ingestion engine listening', {
   port,
-  ollamaHost: Bun.env.OLLAMA_HOST || 'http://localhost:11434',
+  workers: DEFAULT_POOL_OPTIONS.size,
+  maxQueueDepth: DEFAULT_POOL_OPTIONS.maxQueueDepth,
+  llmProvider: loadLLMConfig().provider,
 });
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'bun:test';
+
+import { JobEventHub } from './job-events';
+import type { JobEvent } from './types';
+
+function stageEvent(jobId: string): JobEvent {
+  return {
+    type: 'stage',
+    jobId,
+    stage: 'extract',
+    phase: 'started',
+    timestamp: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+describe('JobEventHub', () => {
+  it('delivers events only to subscribers of the same job', () => {
+    const hub = new JobEventHub();
+    const received: string[] = [];
+
+    hub.subscribe('job-1', (event) => received.push(`a:${event.jobId}`));
+    hub.subscribe('job-2', (event) => received.push(`b:${event.jobId}`));
+
+    hub.publish(stageEvent('job-1'));
+    hub.publish(stageEvent('job-3'));
+
+    expect(received).toEqual(['a:job-1']);
+  });
+
+  it('stops delivering after unsubscribe and keeps other listeners running', () => {
+    const hub = new JobEventHub();
+    const received: string[] = [];
+
+    const unsubscribe = hub.subscribe('job-1', () => received.push('first'));
+    hub.subscribe('job-1', () => {
+      throw new Error('broken listener');
+    });
+    hub.subscribe('job-1', () => received.push('third'));
+
+    hub.publish(stageEvent('job-1'));
+    unsubscribe();
+    hub.publish(stageEvent('job-1'));
+
+    expect(received).toEqual(['first', 'third', 'third']);
+    expect(hub.subscriberCount('job-1')).toBe(2);
+  });
+});
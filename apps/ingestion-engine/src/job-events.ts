@@ -0,0 +1,48 @@
+import type { JobEvent } from './types';
+
+/**
+ * In-process fan-out of job events to Server-Sent Event subscribers
+ * Events are not buffered; late subscribers start from the job store snapshot
+ */
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export class JobEventHub {
+  private readonly listeners = new Map<string, Set<JobEventListener>>();
+
+  /**
+   * Listen to one job's events; returns the unsubscribe function
+   */
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    let listeners = this.listeners.get(jobId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(jobId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(jobId) === listeners) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+
+  publish(event: JobEvent): void {
+    const listeners = this.listeners.get(event.jobId);
+    if (!listeners) return;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[job-events] Listener for job ${event.jobId} failed:`, error);
+      }
+    }
+  }
+
+  subscriberCount(jobId: string): number {
+    return this.listeners.get(jobId)?.size ?? 0;
+  }
+}
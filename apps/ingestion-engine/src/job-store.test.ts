@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { JobStore } from './job-store';
+import type { IngestionResult } from './types';
+
+function buildResult(jobId: string, status: IngestionResult['status']): IngestionResult {
+  return {
+    jobId,
+    status,
+    entitiesCreated: 2,
+    relationshipsCreated: 1,
+    extractionTimeMs: 10,
+    defineTimeMs: 1,
+    canonicalizeTimeMs: 1,
+    graphWriteTimeMs: 5,
+    totalTimeMs: 17,
+  };
+}
+
+describe('JobStore', () => {
+  let store: JobStore;
+
+  beforeEach(() => {
+    store = new JobStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('persists new jobs as queued', () => {
+    const record = store.create({ id: 'job-1', request: { text: 'The Crimson Empire rises.' } });
+
+    expect(record.status).toBe('queued');
+    expect(record.result).toBeNull();
+    expect(store.get('job-1')?.request.text).toBe('The Crimson Empire rises.');
+  });
+
+  it('assigns a new revision per distinct text of a source and finds resubmissions', () => {
+    const first = store.create({ id: 'job-1', request: { text: 'v1', sourceId: 'chronicle' } });
+    const retry = store.create({ id: 'job-2', request: { text: 'v1\r\n', sourceId: 'chronicle' } });
+    const edited = store.create({ id: 'job-3', request: { text: 'v2', sourceId: 'chronicle' } });
+    const preview = store.create({
+      id: 'job-4',
+      request: { text: 'v3', sourceId: 'chronicle', dryRun: true },
+    });
+
+    expect([first, retry, edited].map((record) => record.revision)).toEqual([1, 1, 2]);
+    expect(retry.contentHash).toBe(first.contentHash);
+    expect(preview).toMatchObject({ contentHash: null, revision: null });
+
+    expect(store.findByContentHash(first.contentHash as string)).toBeNull();
+    store.complete('job-3', buildResult('job-3', 'cancelled'));
+    store.complete('job-2', buildResult('job-2', 'failed'));
+    expect(store.findByContentHash(first.contentHash as string)?.jobId).toBe('job-1');
+    store.complete('job-1', buildResult('job-1', 'cancelled'));
+    expect(store.findByContentHash(first.contentHash as string)).toBeNull();
+  });
+
+  it('gives text a source returns to a new revision and stops treating the old one as a duplicate', () => {
+    const a = store.create({ id: 'job-1', request: { text: 'A', sourceId: 'chronicle' } });
+    store.complete('job-1', buildResult('job-1', 'completed'));
+    expect(store.findByContentHash(a.contentHash as string)?.jobId).toBe('job-1');
+
+    store.create({ id: 'job-2', request: { text: 'B', sourceId: 'chronicle' } });
+    store.complete('job-2', buildResult('job-2', 'completed'));
+    expect(store.findByContentHash(a.contentHash as string)).toBeNull();
+
+    const reverted = store.create({ id: 'job-3', request: { text: 'A', sourceId: 'chronicle' } });
+    expect(reverted).toMatchObject({ contentHash: a.contentHash, revision: 3 });
+    expect(store.findByContentHash(a.contentHash as string)?.jobId).toBe('job-3');
+  });
+
+  it('lists the jobs of a source and forgets retracted text', () => {
+    store.create({ id: 'job-1', request: { text: 'v1', sourceId: 'chronicle' } });
+    store.create({ id: 'job-2', request: { text: 'other' } });
+    store.create({ id: 'job-3', request: { text: 'v2', sourceId: 'chronicle' } });
+
+    expect(store.listSourceJobs('chronicle').map((job) => job.jobId)).toEqual(['job-1', 'job-3']);
+    expect(store.listSourceJobs('job-job-2').map((job) => job.jobId)).toEqual(['job-2']);
+
+    const v1 = store.get('job-1')?.contentHash as string;
+    store.markRetracted(['job-1', 'job-3']);
+
+    expect(store.listSourceJobs('chronicle')).toEqual([]);
+    expect(store.get('job-1')?.retractedAt).not.toBeNull();
+    expect(store.findByContentHash(v1)).toBeNull();
+  });
+
+  it('reports the latest revision of a source that was written', () => {
+    store.create({ id: 'job-1', request: { text: 'v1', sourceId: 'chronicle' } });
+    store.create({ id: 'job-2', request: { text: 'v2', sourceId: 'chronicle' } });
+
+    expect(store.latestWrittenRevision('chronicle')).toBeNull();
+    store.complete('job-2', buildResult('job-2', 'partial'));
+    store.complete('job-1', buildResult('job-1', 'completed'));
+    expect(store.latestWrittenRevision('chronicle')).toBe(2);
+  });
+
+  it('moves a job to processing on its first stage and records stage timestamps', () => {
+    store.create({ id: 'job-1', request: { text: 'lore' } });
+
+    store.recordStage('job-1', 'extract', 'started', '2025-01-01T00:00:00.000Z');
+    store.recordStage('job-1', 'extract', 'finished', '2025-01-01T00:00:02.000Z');
+
+    const record = store.get('job-1');
+    expect(record?.status).toBe('processing');
+    expect(record?.attempts).toBe(1);
+    expect(record?.startedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(record?.stages.extract).toEqual({
+      startedAt: '2025-01-01T00:00:00.000Z',
+      finishedAt: '2025-01-01T00:00:02.000Z',
+    });
+  });
+
+  it('stores the final result and terminal status', () => {
+    store.create({ id: 'job-1', request: { text: 'lore' } });
+    store.complete('job-1', buildResult('job-1', 'partial'));
+
+    const record = store.get('job-1');
+    expect(record?.status).toBe('partial');
+    expect(record?.result?.entitiesCreated).toBe(2);
+    expect(record?.completedAt).not.toBeNull();
+  });
+
+  it('lists jobs with status filters and paging', () => {
+    for (const id of ['job-1', 'job-2', 'job-3']) {
+      store.create({ id, request: { text: id } });
+    }
+    store.complete('job-2', buildResult('job-2', 'failed'));
+
+    expect(store.list({ limit: 2, offset: 0 })).toMatchObject({ total: 3 });
+    expect(store.list({ limit: 2, offset: 0 }).jobs).toHaveLength(2);
+    expect(store.list({ limit: 2, offset: 2 }).jobs).toHaveLength(1);
+
+    const failed = store.list({ status: ['failed'], limit: 10, offset: 0 });
+    expect(failed.total).toBe(1);
+    expect(failed.jobs[0]?.jobId).toBe('job-2');
+  });
+
+  it('returns unfinished jobs for resumption and requeues them', () => {
+    store.create({ id: 'job-1', request: { text: 'lore' } });
+    store.create({ id: 'job-2', request: { text: 'lore' } });
+    store.recordStage('job-1', 'extract', 'started', new Date().toISOString());
+    store.complete('job-2', buildResult('job-2', 'completed'));
+
+    const unfinished = store.listUnfinished();
+    expect(unfinished.map((record) => record.jobId)).toEqual(['job-1']);
+
+    store.requeue('job-1');
+    expect(store.get('job-1')?.status).toBe('queued');
+    expect(store.get('job-1')?.stages).toEqual({});
+  });
+
+  it('stores dry-run plans and links them to the job that commits them', () => {
+    const plan = { jobId: 'job-1', sourceId: 'chronicle-1', entities: [], relationships: [] };
+    store.savePreview(plan);
+
+    expect(store.getPreview('job-1')).toMatchObject({ plan, commitJobId: null });
+
+    store.markPreviewCommitted('job-1', 'job-2');
+    expect(store.getPreview('job-1')?.commitJobId).toBe('job-2');
+    expect(store.findPreviewByCommitJob('job-2')?.plan).toEqual(plan);
+  });
+
+  it('links retried jobs to the job they re-run', () => {
+    store.create({ id: 'job-1', request: { text: 'lore' } });
+    store.complete('job-1', buildResult('job-1', 'failed'));
+    store.create({ id: 'job-2', request: { text: 'lore' } }, { retryOf: 'job-1' });
+
+    expect(store.get('job-2')?.retryOf).toBe('job-1');
+    expect(store.get('job-1')?.retryOf).toBeNull();
+    expect(store.listRetries('job-1')).toEqual(['job-2']);
+  });
+
+  it('creates batch children in document order and completes the batch report', () => {
+    store.createBatch('batch-1', [
+      { jobId: 'job-a', request: { text: 'first' } },
+      { jobId: 'job-b', request: { text: 'second' } },
+    ]);
+
+    expect(store.listBatchJobs('batch-1').map((job) => [job.jobId, job.batchId])).toEqual([
+      ['job-a', 'batch-1'],
+      ['job-b', 'batch-1'],
+    ]);
+
+    store.completeBatch('batch-1', {
+      entities: [],
+      relationships: [],
+      crossDocumentEntities: 0,
+      canonicalizeTimeMs: 5,
+    });
+    expect(store.getBatch('batch-1')?.report?.canonicalizeTimeMs).toBe(5);
+    expect(store.getBatch('batch-1')?.completedAt).not.toBeNull();
+  });
+});
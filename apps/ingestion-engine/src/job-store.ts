@@ -0,0 +1,519 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { contentHash } from './provenance';
+import type {
+  BatchDocument,
+  BatchRecord,
+  BatchReport,
+  GraphWritePlan,
+  IngestionRequest,
+  IngestionResult,
+  JobRecord,
+  JobStatus,
+  PipelineStage,
+  PreviewRecord,
+  SourceRevision,
+  StageTimestamps,
+  WorkerJob,
+} from './types';
+
+/**
+ * Durable ingestion job store backed by SQLite
+ * Survives service restarts so queued and in-flight jobs can be resumed
+ */
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  request: string;
+  result: string | null;
+  stages: string;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  retry_of: string | null;
+  batch_id: string | null;
+  source_id: string | null;
+  content_hash: string | null;
+  revision: number | null;
+  retracted_at: string | null;
+}
+
+interface BatchRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  report: string | null;
+}
+
+interface PreviewRow {
+  job_id: string;
+  plan: string;
+  created_at: string;
+  commit_job_id: string | null;
+  committed_at: string | null;
+}
+
+export interface JobListOptions {
+  status?: JobStatus[];
+  limit: number;
+  offset: number;
+}
+
+export class JobStore {
+  private readonly db: Database;
+
+  constructor(path: string = Bun.env.INGESTION_DB_PATH || './data/ingestion.sqlite') {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        request TEXT NOT NULL,
+        result TEXT,
+        stages TEXT NOT NULL DEFAULT '{}',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT,
+        retry_of TEXT,
+        batch_id TEXT,
+        source_id TEXT,
+        content_hash TEXT,
+        revision INTEGER,
+        retracted_at TEXT
+      )
+    `);
+    this.migrate();
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status, created_at)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_content_hash ON jobs (content_hash)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_source_id ON jobs (source_id, revision)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_retry_of ON jobs (retry_of)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_batch_id ON jobs (batch_id)');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT,
+        report TEXT
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS previews (
+        job_id TEXT PRIMARY KEY,
+        plan TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        commit_job_id TEXT,
+        committed_at TEXT
+      )
+    `);
+  }
+
+  /**
+   * Add columns introduced after the jobs table was first created
+   */
+  private migrate(): void {
+    const columns = this.db.query('PRAGMA table_info(jobs)').all() as Array<{ name: string }>;
+    const added = {
+      retry_of: 'TEXT',
+      batch_id: 'TEXT',
+      source_id: 'TEXT',
+      content_hash: 'TEXT',
+      revision: 'INTEGER',
+      retracted_at: 'TEXT',
+    };
+    for (const [column, type] of Object.entries(added)) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.exec(`ALTER TABLE jobs ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+
+  /**
+   * Persist a newly accepted job in the queued state
+   * Retries record the job they re-run so lineage can be followed both ways. Jobs that
+   * write are given the revision of their source that their text belongs to.
+   */
+  create(job: WorkerJob, options: { retryOf?: string; batchId?: string } = {}): JobRecord {
+    const now = new Date().toISOString();
+    const revision = job.request.dryRun ? null : this.assignRevision(job);
+    this.db
+      .query(
+        `INSERT INTO jobs
+           (id, status, request, stages, attempts, created_at, updated_at, retry_of, batch_id,
+            source_id, content_hash, revision)
+         VALUES ($id, 'queued', $request, '{}', 0, $now, $now, $retryOf, $batchId,
+            $sourceId, $contentHash, $revision)`,
+      )
+      .run({
+        $id: job.id,
+        $request: JSON.stringify(job.request),
+        $now: now,
+        $retryOf: options.retryOf ?? null,
+        $batchId: options.batchId ?? null,
+        $sourceId: job.request.sourceId ?? null,
+        $contentHash: revision?.contentHash ?? null,
+        $revision: revision?.revision ?? null,
+      });
+
+    return this.require(job.id);
+  }
+
+  /**
+   * Revision of the job's source: the latest one when it holds the same text, otherwise the
+   * next after it, so returning to an earlier text still makes a newer revision
+   */
+  private assignRevision(job: WorkerJob): SourceRevision {
+    const hash = contentHash(job.request);
+    const latest = this.db
+      .query(
+        `SELECT revision, content_hash AS contentHash FROM jobs
+         WHERE source_id = $sourceId AND revision IS NOT NULL
+         ORDER BY revision DESC LIMIT 1`,
+      )
+      .get({ $sourceId: job.request.sourceId ?? null }) as {
+      revision: number;
+      contentHash: string | null;
+    } | null;
+
+    if (latest?.contentHash === hash) {
+      return { contentHash: hash, revision: latest.revision };
+    }
+    return { contentHash: hash, revision: (latest?.revision ?? 0) + 1 };
+  }
+
+  /**
+   * Latest job that wrote, or is about to write, the same text for the same source, if that
+   * text is still the source's latest revision
+   * Failed and cancelled jobs left nothing to reuse, and retracted ones nothing in the
+   * graph, so they are ignored.
+   */
+  findByContentHash(hash: string): JobRecord | null {
+    const row = this.db
+      .query(
+        `SELECT * FROM jobs AS job
+         WHERE content_hash = $hash AND status NOT IN ('failed', 'cancelled')
+           AND retracted_at IS NULL
+           AND (source_id IS NULL OR revision = (
+             SELECT MAX(revision) FROM jobs
+             WHERE source_id = job.source_id AND status NOT IN ('failed', 'cancelled')
+               AND retracted_at IS NULL))
+         ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      )
+      .get({ $hash: hash }) as JobRow | null;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * Jobs that wrote, or will write, to a source, oldest first
+   * Jobs without an explicit sourceId write to `job-<id>`.
+   */
+  listSourceJobs(sourceId: string): JobRecord[] {
+    const rows = this.db
+      .query(
+        `SELECT * FROM jobs
+         WHERE (source_id = $sourceId OR (source_id IS NULL AND 'job-' || id = $sourceId))
+           AND retracted_at IS NULL
+         ORDER BY created_at ASC, rowid ASC`,
+      )
+      .all({ $sourceId: sourceId }) as JobRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Latest revision of a source that a job wrote to the graph; null when none did
+   */
+  latestWrittenRevision(sourceId: string): number | null {
+    const { latest } = this.db
+      .query(
+        `SELECT MAX(revision) AS latest FROM jobs
+         WHERE source_id = $sourceId AND status IN ('completed', 'partial')
+           AND retracted_at IS NULL`,
+      )
+      .get({ $sourceId: sourceId }) as { latest: number | null };
+    return latest;
+  }
+
+  /**
+   * Mark jobs whose facts were retracted, so their text is no longer a duplicate
+   */
+  markRetracted(jobIds: string[]): void {
+    const now = new Date().toISOString();
+    const update = this.db.query(
+      'UPDATE jobs SET retracted_at = $now, updated_at = $now WHERE id = $id',
+    );
+    this.db.transaction(() => {
+      for (const jobId of jobIds) {
+        update.run({ $id: jobId, $now: now });
+      }
+    })();
+  }
+
+  /**
+   * Persist a batch and one queued child job per document, atomically
+   */
+  createBatch(batchId: string, documents: BatchDocument[]): BatchRecord {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      this.db
+        .query('INSERT INTO batches (id, created_at, updated_at) VALUES ($id, $now, $now)')
+        .run({ $id: batchId, $now: now });
+      for (const document of documents) {
+        this.create({ id: document.jobId, request: document.request }, { batchId });
+      }
+    })();
+
+    return this.getBatch(batchId) as BatchRecord;
+  }
+
+  getBatch(batchId: string): BatchRecord | null {
+    const row = this.db
+      .query('SELECT * FROM batches WHERE id = $id')
+      .get({ $id: batchId }) as BatchRow | null;
+    return row ? toBatchRecord(row) : null;
+  }
+
+  /**
+   * Child jobs of a batch in document order
+   */
+  listBatchJobs(batchId: string): JobRecord[] {
+    const rows = this.db
+      .query('SELECT * FROM jobs WHERE batch_id = $id ORDER BY rowid ASC')
+      .all({ $id: batchId }) as JobRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Store the combined report once every child job has its result
+   */
+  completeBatch(batchId: string, report: BatchReport): void {
+    const now = new Date().toISOString();
+    this.db
+      .query(
+        `UPDATE batches SET report = $report, completed_at = $now, updated_at = $now
+         WHERE id = $id`,
+      )
+      .run({ $id: batchId, $report: JSON.stringify(report), $now: now });
+  }
+
+  /**
+   * IDs of the jobs created by retrying the given job, oldest first
+   */
+  listRetries(jobId: string): string[] {
+    const rows = this.db
+      .query('SELECT id FROM jobs WHERE retry_of = $id ORDER BY created_at ASC')
+      .all({ $id: jobId }) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  get(jobId: string): JobRecord | null {
+    const row = this.db
+      .query('SELECT * FROM jobs WHERE id = $id')
+      .get({ $id: jobId }) as JobRow | null;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * List jobs newest first, optionally filtered by status
+   */
+  list(options: JobListOptions): { jobs: JobRecord[]; total: number } {
+    const statuses = options.status ?? [];
+    const where =
+      statuses.length > 0 ? `WHERE status IN (${statuses.map(() => '?').join(', ')})` : '';
+
+    const { total } = this.db
+      .query(`SELECT COUNT(*) AS total FROM jobs ${where}`)
+      .get(...statuses) as { total: number };
+
+    const rows = this.db
+      .query(`SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .all(...statuses, options.limit, options.offset) as JobRow[];
+
+    return { jobs: rows.map(toRecord), total };
+  }
+
+  /**
+   * Jobs that were queued or running when the service last stopped
+   */
+  listUnfinished(): JobRecord[] {
+    const rows = this.db
+      .query("SELECT * FROM jobs WHERE status IN ('queued', 'processing') ORDER BY created_at ASC")
+      .all() as JobRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Reset a job to queued so it can be handed to a worker again
+   */
+  requeue(jobId: string): void {
+    this.db
+      .query(
+        `UPDATE jobs SET status = 'queued', stages = '{}', updated_at = $now
+         WHERE id = $id`,
+      )
+      .run({ $id: jobId, $now: new Date().toISOString() });
+  }
+
+  /**
+   * Record a stage transition reported by the worker
+   * The first stage start moves the job from queued to processing
+   */
+  recordStage(
+    jobId: string,
+    stage: PipelineStage,
+    phase: 'started' | 'finished',
+    timestamp: string,
+  ): void {
+    const record = this.get(jobId);
+    if (!record) return;
+
+    const stages: StageTimestamps = { ...record.stages };
+    stages[stage] = {
+      ...stages[stage],
+      [phase === 'started' ? 'startedAt' : 'finishedAt']: timestamp,
+    };
+
+    const starting = record.status === 'queued';
+    this.db
+      .query(
+        `UPDATE jobs SET
+           stages = $stages,
+           status = $status,
+           attempts = attempts + $attempt,
+           started_at = COALESCE(started_at, $timestamp),
+           updated_at = $timestamp
+         WHERE id = $id`,
+      )
+      .run({
+        $id: jobId,
+        $stages: JSON.stringify(stages),
+        $status: starting ? 'processing' : record.status,
+        $attempt: starting ? 1 : 0,
+        $timestamp: timestamp,
+      });
+  }
+
+  /**
+   * Store the final pipeline result and move the job to its terminal state
+   */
+  complete(jobId: string, result: IngestionResult): void {
+    const now = new Date().toISOString();
+    this.db
+      .query(
+        `UPDATE jobs SET
+           status = $status,
+           result = $result,
+           completed_at = $now,
+           updated_at = $now
+         WHERE id = $id`,
+      )
+      .run({
+        $id: jobId,
+        $status: result.status,
+        $result: JSON.stringify(result),
+        $now: now,
+      });
+  }
+
+  /**
+   * Store the write plan of a finished dry run so it can be committed later
+   */
+  savePreview(plan: GraphWritePlan): void {
+    this.db
+      .query(
+        `INSERT INTO previews (job_id, plan, created_at) VALUES ($id, $plan, $now)
+         ON CONFLICT (job_id) DO UPDATE SET plan = excluded.plan, created_at = excluded.created_at`,
+      )
+      .run({ $id: plan.jobId, $plan: JSON.stringify(plan), $now: new Date().toISOString() });
+  }
+
+  getPreview(jobId: string): PreviewRecord | null {
+    const row = this.db
+      .query('SELECT * FROM previews WHERE job_id = $id')
+      .get({ $id: jobId }) as PreviewRow | null;
+    return row ? toPreviewRecord(row) : null;
+  }
+
+  /**
+   * The preview a commit job writes, used to resume commits without re-running the LLM
+   */
+  findPreviewByCommitJob(commitJobId: string): PreviewRecord | null {
+    const row = this.db
+      .query('SELECT * FROM previews WHERE commit_job_id = $id')
+      .get({ $id: commitJobId }) as PreviewRow | null;
+    return row ? toPreviewRecord(row) : null;
+  }
+
+  markPreviewCommitted(jobId: string, commitJobId: string): void {
+    this.db
+      .query(
+        `UPDATE previews SET commit_job_id = $commitJobId, committed_at = $now
+         WHERE job_id = $id`,
+      )
+      .run({ $id: jobId, $commitJobId: commitJobId, $now: new Date().toISOString() });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private require(jobId: string): JobRecord {
+    const record = this.get(jobId);
+    if (!record) {
+      throw new Error(`Job ${jobId} not found in job store`);
+    }
+    return record;
+  }
+}
+
+function toRecord(row: JobRow): JobRecord {
+  return {
+    jobId: row.id,
+    status: row.status,
+    request: JSON.parse(row.request) as IngestionRequest,
+    result: row.result ? (JSON.parse(row.result) as IngestionResult) : null,
+    stages: JSON.parse(row.stages) as StageTimestamps,
+    attempts: row.attempts,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    retryOf: row.retry_of,
+    batchId: row.batch_id,
+    contentHash: row.content_hash,
+    revision: row.revision,
+    retractedAt: row.retracted_at,
+  };
+}
+
+function toBatchRecord(row: BatchRow): BatchRecord {
+  return {
+    batchId: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+    report: row.report ? (JSON.parse(row.report) as BatchReport) : null,
+  };
+}
+
+function toPreviewRecord(row: PreviewRow): PreviewRecord {
+  return {
+    jobId: row.job_id,
+    plan: JSON.parse(row.plan) as GraphWritePlan,
+    createdAt: row.created_at,
+    commitJobId: row.commit_job_id,
+    committedAt: row.committed_at,
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  applyWikilinks,
+  buildNoteExtraction,
+  combineNoteExtraction,
+  parseMarkdownNote,
+} from './markdown';
+
+const NOTE = `---
+type: NPC
+aliases: [The Red Emperor]
+title_rank: Emperor
+born: 1203
+faction: "[[Crimson Empire]]"
+allies: [[Silver Covenant]]
+---
+# Valen
+
+Valen rules from [[Bloodstone Keep|the Keep]] and distrusts [[Iron League]].
+![[valen-portrait.png]]
+`;
+
+describe('parseMarkdownNote', () => {
+  it('reads frontmatter, titles the note by file name and renders wikilinks as prose', () => {
+    const note = parseMarkdownNote(NOTE, 'vault/characters/Emperor Valen.md');
+
+    expect(note.title).toBe('Emperor Valen');
+    expect(note.type).toBe('Character');
+    expect(note.issues).toEqual([]);
+    expect(note.prose).toContain('Valen rules from the Keep and distrusts Iron League.');
+    expect(note.prose).not.toContain('portrait');
+    expect(note.links.map((link) => [link.target, link.display])).toEqual([
+      ['Bloodstone Keep', 'the Keep'],
+      ['Iron League', 'Iron League'],
+    ]);
+
+    const [keep] = note.links;
+    expect(keep && note.prose.slice(keep.start, keep.end)).toBe('the Keep');
+  });
+
+  it('reports frontmatter it cannot use', () => {
+    const note = parseMarkdownNote('---\ntype: spaceship\n---\nText', 'ship.md');
+
+    expect(note.type).toBeNull();
+    expect(note.issues).toEqual(['Unknown note type "spaceship"']);
+  });
+});
+
+describe('buildNoteExtraction', () => {
+  it('turns frontmatter into typed attributes and link fields into relationships', () => {
+    const { entities, relationships } = buildNoteExtraction(
+      parseMarkdownNote(NOTE, 'Emperor Valen.md'),
+    );
+
+    expect(entities).toEqual([
+      {
+        type: 'Character',
+        mentions: ['Emperor Valen', 'The Red Emperor'],
+        attributes: { name: 'Emperor Valen', title_rank: 'Emperor', born: 1203 },
+        confidence: 1,
+      },
+    ]);
+    expect(relationships.map((rel) => [rel.from, rel.type, rel.to])).toEqual([
+      ['Emperor Valen', 'faction', 'Crimson Empire'],
+      ['Emperor Valen', 'allies', 'Silver Covenant'],
+    ]);
+  });
+
+  it('links only wikilink syntax, not plain lists of any length', () => {
+    const { entities, relationships } = buildNoteExtraction(
+      parseMarkdownNote(
+        `---
+type: Character
+languages: [Elvish]
+skills: [Archery, Stealth]
+rivals:
+  - [[Iron League]]
+  - "[[Silver Covenant]]"
+---
+Text`,
+        'Aldric.md',
+      ),
+    );
+
+    expect(entities[0]?.attributes).toMatchObject({
+      languages: ['Elvish'],
+      skills: ['Archery', 'Stealth'],
+    });
+    expect(relationships.map((rel) => [rel.type, rel.to])).toEqual([
+      ['rivals', 'Iron League'],
+      ['rivals', 'Silver Covenant'],
+    ]);
+  });
+});
+
+describe('applyWikilinks', () => {
+  it('rewrites display text in LLM output to the linked note', () => {
+    const note = parseMarkdownNote(NOTE, 'Emperor Valen.md');
+    const linked = applyWikilinks(
+      {
+        entities: [{ type: 'Location', mentions: ['the Keep'], attributes: {}, confidence: 0.8 }],
+        relationships: [
+          {
+            from: 'Valen',
+            to: 'the Keep',
+            type: 'located in',
+            evidence: 'Valen rules from the Keep',
+            confidence: 0.8,
+          },
+        ],
+      },
+      note.links,
+    );
+
+    expect(linked.entities[0]?.mentions).toEqual(['the Keep', 'Bloodstone Keep']);
+    expect(linked.relationships[0]?.to).toBe('Bloodstone Keep');
+  });
+
+  it('merges the note entity with its LLM mentions', () => {
+    const note = parseMarkdownNote(NOTE, 'Emperor Valen.md');
+    const combined = combineNoteExtraction(note, {
+      entities: [
+        {
+          type: 'Character',
+          mentions: ['Emperor Valen', 'Valen'],
+          attributes: { name: 'Valen' },
+          confidence: 0.7,
+        },
+      ],
+      relationships: [],
+    });
+
+    expect(combined.entities).toHaveLength(1);
+    expect(combined.entities[0]?.mentions).toContain('Valen');
+    expect(combined.entities[0]?.attributes.name).toBe('Emperor Valen');
+  });
+});
@@ -0,0 +1,255 @@
+import { basename, extname } from 'node:path';
+import { getOntology } from '@ace/ontology';
+import { type ChunkExtraction, mergeChunkExtractions } from './extract';
+import { normalizeName } from './similarity';
+import type { ExtractedRelationship, IngestionRequest } from './types';
+
+/**
+ * Markdown and Obsidian note support: YAML frontmatter becomes typed entity attributes and
+ * `[[wikilinks]]` become explicit entity references, alongside LLM extraction of the prose
+ */
+
+/**
+ * A `[[target]]`, `[[target|display]]` or `[[target#heading|display]]` link in the prose
+ * Offsets refer to the rendered prose, where the link is replaced by its display text.
+ */
+export interface Wikilink {
+  target: string;
+  display: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkdownNote {
+  title: string | null;
+  type: string | null;
+  frontmatter: Record<string, unknown>;
+  prose: string;
+  links: Wikilink[];
+  issues: string[];
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]+))?\]\]/g;
+
+// Frontmatter keys that describe the note itself rather than entity attributes
+const RESERVED_KEYS = new Set(['type', 'aliases', 'alias', 'tags', 'name', 'title', 'cssclasses']);
+
+/**
+ * Entity label for a frontmatter `type:` value: an ontology label or synonym, in any case
+ */
+export function mapNoteType(value: unknown): string | null {
+  return typeof value === 'string' ? getOntology().resolveEntityType(value) : null;
+}
+
+/**
+ * Wikilink targets inside a frontmatter value
+ * Unquoted `[[Target]]` is parsed by YAML as a list holding a one-string list, so
+ * `[["Target"]]` counts too; a plain list like `[Elvish]` is an attribute, not a link.
+ */
+export function linksInValue(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(WIKILINK_PATTERN), (match) => (match[2] ?? '').trim());
+  }
+  if (Array.isArray(value)) {
+    const [inner] = value;
+    if (
+      value.length === 1 &&
+      Array.isArray(inner) &&
+      inner.length === 1 &&
+      typeof inner[0] === 'string' &&
+      inner[0].trim().length > 0
+    ) {
+      return [inner[0].trim()];
+    }
+    return value.flatMap(linksInValue);
+  }
+  return [];
+}
+
+function stringList(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+/**
+ * Render the body as plain prose, recording where each wikilink's display text lands
+ * Embeds (`![[...]]`) are dropped; they reference files, not entities.
+ */
+function renderWikilinks(body: string): { prose: string; links: Wikilink[] } {
+  const links: Wikilink[] = [];
+  let prose = '';
+  let cursor = 0;
+
+  for (const match of body.matchAll(WIKILINK_PATTERN)) {
+    const index = match.index ?? 0;
+    prose += body.slice(cursor, index);
+    cursor = index + match[0].length;
+
+    if (match[1] === '!') continue;
+
+    const target = (match[2] ?? '').trim();
+    const display = (match[3] ?? target).trim();
+    links.push({ target, display, start: prose.length, end: prose.length + display.length });
+    prose += display;
+  }
+
+  return { prose: prose + body.slice(cursor), links };
+}
+
+/**
+ * Split a note into frontmatter and prose
+ * The title comes from frontmatter `name`/`title`, then the file name, then the first heading.
+ */
+export function parseMarkdownNote(content: string, fileName?: string): MarkdownNote {
+  const issues: string[] = [];
+  let frontmatter: Record<string, unknown> = {};
+  let body = content;
+
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (match) {
+    body = content.slice(match[0].length);
+    try {
+      const parsed = Bun.YAML.parse(match[1] ?? '');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        frontmatter = parsed as Record<string, unknown>;
+      } else if (parsed != null) {
+        issues.push('Frontmatter is not a key/value mapping');
+      }
+    } catch (error) {
+      issues.push(
+        `Invalid frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  const { prose, links } = renderWikilinks(body);
+
+  const heading = prose.match(/^#\s+(.+)$/m)?.[1]?.trim();
+  const title =
+    [frontmatter.name, frontmatter.title].find(
+      (value): value is string => typeof value === 'string' && value.trim().length > 0,
+    ) ??
+    (fileName ? basename(fileName, extname(fileName)) : undefined) ??
+    heading ??
+    null;
+
+  const type = mapNoteType(frontmatter.type);
+  if (frontmatter.type !== undefined && !type) {
+    issues.push(`Unknown note type "${String(frontmatter.type)}"`);
+  }
+
+  return { title, type, frontmatter, prose, links, issues };
+}
+
+/**
+ * Deterministic facts of a note: the note's own entity from its frontmatter, and a
+ * relationship for every wikilink in a frontmatter field (e.g. `faction: "[[Iron League]]"`)
+ */
+export function buildNoteExtraction(note: MarkdownNote): ChunkExtraction {
+  if (!note.title || !note.type) {
+    return { entities: [], relationships: [] };
+  }
+
+  const attributes: Record<string, unknown> = { name: note.title };
+  const relationships: ExtractedRelationship[] = [];
+
+  for (const [key, value] of Object.entries(note.frontmatter)) {
+    if (RESERVED_KEYS.has(key) || value == null) continue;
+
+    const targets = linksInValue(value);
+    if (targets.length === 0) {
+      attributes[key] = value;
+      continue;
+    }
+
+    for (const target of targets) {
+      relationships.push({
+        from: note.title,
+        to: target,
+        type: key
+          .replace(/[_-]+/g, ' ')
+          .replace(/([a-z])([A-Z])/g, '$1 $2')
+          .toLowerCase(),
+        evidence: `${key}: [[${target}]]`,
+        confidence: 1,
+      });
+    }
+  }
+
+  const aliases = [...stringList(note.frontmatter.aliases), ...stringList(note.frontmatter.alias)];
+
+  return {
+    entities: [{ type: note.type, mentions: [note.title, ...aliases], attributes, confidence: 1 }],
+    relationships,
+  };
+}
+
+/**
+ * Point LLM output at wikilink targets: a mention that is a link's display text also names
+ * the linked note, and relationship ends written as display text are rewritten to the target
+ */
+export function applyWikilinks(extraction: ChunkExtraction, links: Wikilink[]): ChunkExtraction {
+  const targets = new Map<string, string>();
+  for (const link of links) {
+    targets.set(normalizeName(link.display), link.target);
+    targets.set(normalizeName(link.target), link.target);
+  }
+
+  const linked = (mention: string) => targets.get(normalizeName(mention));
+
+  return {
+    entities: extraction.entities.map((entity) => {
+      const names = [
+        ...(typeof entity.attributes.name === 'string' ? [entity.attributes.name] : []),
+        ...entity.mentions,
+      ];
+      const added = names
+        .map(linked)
+        .filter((target): target is string => !!target && !entity.mentions.includes(target));
+      return added.length > 0
+        ? { ...entity, mentions: [...entity.mentions, ...new Set(added)] }
+        : entity;
+    }),
+    relationships: extraction.relationships.map((rel) => ({
+      ...rel,
+      from: linked(rel.from) ?? rel.from,
+      to: linked(rel.to) ?? rel.to,
+    })),
+  };
+}
+
+/**
+ * Combine a note's frontmatter facts with the LLM extraction of its prose
+ */
+export function combineNoteExtraction(
+  note: MarkdownNote,
+  extraction: ChunkExtraction,
+): ChunkExtraction {
+  const structured = buildNoteExtraction(note);
+  const linked = applyWikilinks(extraction, note.links);
+
+  return mergeChunkExtractions(
+    [...structured.entities, ...linked.entities],
+    [...structured.relationships, ...linked.relationships],
+  );
+}
+
+/**
+ * Markdown requests run the pipeline on their rendered prose; other requests pass through
+ */
+export function prepareMarkdownRequest(request: IngestionRequest): {
+  request: IngestionRequest;
+  note: MarkdownNote | null;
+} {
+  if (request.format !== 'markdown') {
+    return { request, note: null };
+  }
+
+  const fileName =
+    typeof request.metadata?.fileName === 'string' ? request.metadata.fileName : request.sourceId;
+  const note = parseMarkdownNote(request.text, fileName);
+
+  return { request: { ...request, text: note.prose }, note };
+}
@@ -0,0 +1,37 @@
+import {
+  buildLabelSchemaQueries,
+  executeWrite,
+  initializeDriver,
+  Neo4jConfigSchema,
+  SchemaQueries,
+} from '@ace/neo4j-utilities';
+import { getOntology } from '@ace/ontology';
+
+/**
+ * Initialize the shared Neo4j driver from environment configuration
+ * Called once per thread (HTTP server and worker each hold their own driver)
+ */
+export function connectToGraph(): void {
+  const config = Neo4jConfigSchema.parse({
+    uri: Bun.env.NEO4J_URI || 'bolt://localhost:7687',
+    username: Bun.env.NEO4J_USERNAME || 'neo4j',
+    password: Bun.env.NEO4J_PASSWORD || 'acepassword',
+    database: Bun.env.NEO4J_DATABASE || 'neo4j',
+  });
+
+  initializeDriver(config);
+}
+
+/**
+ * Create the indexes the graph writer looks nodes up by and give entity nodes of the
+ * ontology labels the shared Entity label; every statement is safe to repeat
+ */
+export async function ensureGraphSchema(): Promise<void> {
+  const statements = [
+    ...Object.values(SchemaQueries),
+    ...getOntology().entityLabels.flatMap(buildLabelSchemaQueries),
+  ];
+  for (const cypher of statements) {
+    await executeWrite(cypher);
+  }
+}
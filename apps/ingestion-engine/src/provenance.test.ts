@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  buildEntityProvenance,
+  contentHash,
+  findMentionOffsets,
+  locateEvidence,
+} from './provenance';
+
+const text = 'The Crimson Empire marched north. Emperor Valen led the Empire, and the Empire won.';
+
+describe('findMentionOffsets', () => {
+  it('finds whole-word mentions, preferring the longest name at a position', () => {
+    const offsets = findMentionOffsets(text, ['Empire', 'Crimson Empire']);
+
+    expect(offsets.map((offset) => text.slice(offset.start, offset.end))).toEqual([
+      'Crimson Empire',
+      'Empire',
+      'Empire',
+    ]);
+  });
+
+  it('ignores matches inside longer words', () => {
+    expect(findMentionOffsets('Empires rise', ['Empire'])).toEqual([]);
+  });
+});
+
+describe('locateEvidence', () => {
+  it('returns the exact character offsets of a quoted passage', () => {
+    const evidence = 'Emperor Valen led the Empire';
+    const location = locateEvidence(text, evidence);
+
+    expect(location && text.slice(location.start, location.end)).toBe(evidence);
+  });
+
+  it('falls back to the chunk span when the evidence was paraphrased', () => {
+    expect(locateEvidence(text, 'Valen commands', [{ chunkIndex: 0, start: 0, end: 40 }])).toEqual({
+      start: 0,
+      end: 40,
+    });
+  });
+});
+
+describe('buildEntityProvenance', () => {
+  it('collects mentions of the name and every alias', () => {
+    const provenance = buildEntityProvenance(text, {
+      id: 'faction-crimson-empire',
+      type: 'Faction',
+      properties: { name: 'Crimson Empire' },
+      aliases: ['the Empire'],
+      mergedFrom: [],
+      confidence: 0.8,
+      isNew: true,
+    });
+
+    expect(provenance.mentions).toEqual(['Crimson Empire', 'the Empire']);
+    expect(provenance.starts).toHaveLength(3);
+    expect(provenance.confidence).toBe(0.8);
+  });
+});
+
+describe('contentHash', () => {
+  it('ignores whitespace-only differences but not the source or the text', () => {
+    const hash = contentHash({ text: 'The Empire rose.\n\nIt fell.', sourceId: 'chronicle' });
+
+    expect(
+      contentHash({ text: 'The Empire rose.  \r\n\r\n\r\nIt fell.\n', sourceId: 'chronicle' }),
+    ).toBe(hash);
+    expect(contentHash({ text: 'The Empire rose.\n\nIt fell.', sourceId: 'annals' })).not.toBe(
+      hash,
+    );
+    expect(contentHash({ text: 'The Empire rose.', sourceId: 'chronicle' })).not.toBe(hash);
+  });
+});
@@ -0,0 +1,238 @@
+import { executeRead, ProvenanceQueries } from '@ace/neo4j-utilities';
+import { normalizeName } from './similarity';
+import type {
+  CanonicalEntity,
+  ChunkSpan,
+  IngestionRequest,
+  ProvenanceQuery,
+  ResolvedRelationship,
+} from './types';
+
+/**
+ * Provenance helpers: locate where entities and relationships appear in the source text
+ */
+
+// Upper bound on mention offsets stored per entity link
+const MAX_MENTION_OFFSETS = 50;
+
+export interface EntityProvenance {
+  entityId: string;
+  mentions: string[];
+  starts: number[];
+  ends: number[];
+  confidence: number;
+}
+
+export interface SupportingSource {
+  sourceId: string;
+  jobId: string;
+  metadata: Record<string, unknown>;
+  ingestedAt: string | null;
+  confidence: number | null;
+  evidence?: string;
+  start?: number | null;
+  end?: number | null;
+  mentions?: string[];
+  starts?: number[];
+  ends?: number[];
+}
+
+export interface RelationshipProvenance {
+  factId: string;
+  fromId: string;
+  toId: string;
+  type: string;
+  evidence: string;
+  start: number | null;
+  end: number | null;
+  confidence: number;
+}
+
+/**
+ * Source node ID for a request; requests without a sourceId get one per job
+ */
+export function resolveSourceId(request: IngestionRequest, jobId: string): string {
+  return request.sourceId ?? `job-${jobId}`;
+}
+
+/**
+ * Text as compared for resubmissions: line endings, trailing spaces and blank-line runs
+ * do not make a document different
+ */
+export function normalizeContent(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Identity of a submission: the normalized text under its sourceId, and for structured
+ * imports the format and mapping that turn it into rows
+ */
+export function contentHash(request: IngestionRequest): string {
+  const identity = JSON.stringify({
+    sourceId: request.sourceId ?? null,
+    format: request.format ?? 'text',
+    mapping: request.mapping ?? null,
+    text: normalizeContent(request.text),
+  });
+  return new Bun.CryptoHasher('sha256').update(identity).digest('hex');
+}
+
+/**
+ * Stable identifier of a relationship, used as the Fact node ID
+ */
+export function buildFactId(fromId: string, type: string, toId: string): string {
+  return `${fromId}|${type}|${toId}`;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Find whole-word, case-insensitive occurrences of any of the names in the text
+ */
+export function findMentionOffsets(
+  text: string,
+  names: string[],
+  limit = MAX_MENTION_OFFSETS,
+): Array<{ start: number; end: number }> {
+  const haystack = text.toLowerCase();
+  const offsets: Array<{ start: number; end: number }> = [];
+
+  // Longest names first so "Crimson Empire" wins over "Empire" at the same position
+  const needles = Array.from(new Set(names.map((name) => name.toLowerCase().trim())))
+    .filter((name) => name.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  for (const needle of needles) {
+    let index = haystack.indexOf(needle);
+    while (index !== -1 && offsets.length < limit) {
+      const end = index + needle.length;
+      const covered = offsets.some((offset) => index >= offset.start && index < offset.end);
+      if (!covered && !isWordChar(text[index - 1]) && !isWordChar(text[end])) {
+        offsets.push({ start: index, end });
+      }
+      index = haystack.indexOf(needle, index + 1);
+    }
+  }
+
+  return offsets.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Locate an evidence passage in the text, preferring the chunks it was extracted from
+ * Falls back to the first chunk span when the model paraphrased the passage
+ */
+export function locateEvidence(
+  text: string,
+  evidence: string,
+  spans: ChunkSpan[] = [],
+): { start: number; end: number } | null {
+  const needle = evidence.trim();
+
+  if (needle.length > 0) {
+    for (const span of spans) {
+      const index = text.indexOf(needle, span.start);
+      if (index !== -1 && index + needle.length <= span.end) {
+        return { start: index, end: index + needle.length };
+      }
+    }
+
+    const index = text.indexOf(needle);
+    if (index !== -1) {
+      return { start: index, end: index + needle.length };
+    }
+  }
+
+  const [first] = spans;
+  return first ? { start: first.start, end: first.end } : null;
+}
+
+/**
+ * Build the MENTIONED_IN link payload for a canonical entity
+ */
+export function buildEntityProvenance(text: string, entity: CanonicalEntity): EntityProvenance {
+  const names = [entity.properties.name, ...entity.aliases].filter(
+    (value): value is string => typeof value === 'string',
+  );
+  const offsets = findMentionOffsets(text, names);
+  const mentions = Array.from(
+    new Map(
+      offsets.map((offset) => {
+        const mention = text.slice(offset.start, offset.end);
+        return [normalizeName(mention), mention] as const;
+      }),
+    ).values(),
+  );
+
+  return {
+    entityId: entity.id,
+    mentions,
+    starts: offsets.map((offset) => offset.start),
+    ends: offsets.map((offset) => offset.end),
+    confidence: entity.confidence,
+  };
+}
+
+/**
+ * Build the ASSERTED_BY link payload for a resolved relationship
+ */
+export function buildRelationshipProvenance(
+  text: string,
+  rel: ResolvedRelationship,
+): RelationshipProvenance {
+  const evidence = rel.evidence ?? '';
+  const location = locateEvidence(text, evidence, rel.spans);
+
+  return {
+    factId: buildFactId(rel.fromId, rel.type, rel.toId),
+    fromId: rel.fromId,
+    toId: rel.toId,
+    type: rel.type,
+    evidence,
+    start: location?.start ?? null,
+    end: location?.end ?? null,
+    confidence: rel.confidence ?? 0.5,
+  };
+}
+
+function parseMetadata(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string') return {};
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Answer "which documents support this fact?" for a node or a relationship
+ */
+export async function findSupportingSources(query: ProvenanceQuery): Promise<SupportingSource[]> {
+  if ('nodeId' in query) {
+    const result = await executeRead<
+      Omit<SupportingSource, 'metadata'> & { metadataJson: string | null }
+    >(ProvenanceQueries.getNodeSources, { id: query.nodeId });
+
+    return result.records.map(({ metadataJson, ...record }) => ({
+      ...record,
+      metadata: parseMetadata(metadataJson),
+    }));
+  }
+
+  const result = await executeRead<
+    Omit<SupportingSource, 'metadata'> & { metadataJson: string | null }
+  >(ProvenanceQueries.getFactSources, {
+    factId: buildFactId(query.fromId, query.type, query.toId),
+  });
+
+  return result.records.map(({ metadataJson, ...record }) => ({
+    ...record,
+    metadata: parseMetadata(metadataJson),
+  }));
+}
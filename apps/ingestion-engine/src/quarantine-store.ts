@@ -0,0 +1,254 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type {
+  CanonicalEntity,
+  QuarantineEntry,
+  QuarantineListQuery,
+  QuarantineRecord,
+  QuarantineStatus,
+  ResolvedRelationship,
+} from './types';
+
+/**
+ * Durable review queue of quarantined extractions, in the job store's SQLite database
+ */
+
+interface QuarantineRow {
+  id: string;
+  job_id: string;
+  source_id: string;
+  kind: 'entity' | 'relationship';
+  item: string;
+  confidence: number | null;
+  threshold: number;
+  reason: string;
+  status: QuarantineStatus;
+  review_note: string | null;
+  created_at: string;
+  updated_at: string;
+  reviewed_at: string | null;
+}
+
+export class QuarantineStore {
+  private readonly db: Database;
+
+  constructor(path: string = Bun.env.INGESTION_DB_PATH || './data/ingestion.sqlite') {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quarantine (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        source_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        item TEXT NOT NULL,
+        confidence REAL,
+        threshold REAL NOT NULL,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        review_note TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        reviewed_at TEXT
+      )
+    `);
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_quarantine_status ON quarantine (status, created_at)',
+    );
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_quarantine_job_id ON quarantine (job_id)');
+  }
+
+  /**
+   * Store the items a job held back, all pending review
+   */
+  add(entries: QuarantineEntry[]): QuarantineRecord[] {
+    const now = new Date().toISOString();
+    const insert = this.db.query(
+      `INSERT INTO quarantine
+         (id, job_id, source_id, kind, item, confidence, threshold, reason, created_at, updated_at)
+       VALUES ($id, $jobId, $sourceId, $kind, $item, $confidence, $threshold, $reason, $now, $now)`,
+    );
+    const ids = entries.map(() => crypto.randomUUID());
+
+    this.db.transaction(() => {
+      entries.forEach((entry, index) => {
+        insert.run({
+          $id: ids[index] as string,
+          $jobId: entry.jobId,
+          $sourceId: entry.sourceId,
+          $kind: entry.kind,
+          $item: JSON.stringify(entry.kind === 'entity' ? entry.entity : entry.relationship),
+          $confidence: entry.confidence,
+          $threshold: entry.threshold,
+          $reason: entry.reason,
+          $now: now,
+        });
+      });
+    })();
+
+    return ids.map((id) => this.get(id) as QuarantineRecord);
+  }
+
+  get(id: string): QuarantineRecord | null {
+    const row = this.db
+      .query('SELECT * FROM quarantine WHERE id = $id')
+      .get({ $id: id }) as QuarantineRow | null;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * List items oldest first, filtered by status and optionally by kind and job
+   */
+  list(query: QuarantineListQuery): { items: QuarantineRecord[]; total: number } {
+    const conditions = ['status = $status'];
+    const parameters: Record<string, string | number> = { $status: query.status };
+    if (query.kind) {
+      conditions.push('kind = $kind');
+      parameters.$kind = query.kind;
+    }
+    if (query.jobId) {
+      conditions.push('job_id = $jobId');
+      parameters.$jobId = query.jobId;
+    }
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const { total } = this.db
+      .query(`SELECT COUNT(*) AS total FROM quarantine ${where}`)
+      .get(parameters) as { total: number };
+
+    const rows = this.db
+      .query(
+        `SELECT * FROM quarantine ${where} ORDER BY created_at ASC, rowid ASC
+         LIMIT $limit OFFSET $offset`,
+      )
+      .all({ ...parameters, $limit: query.limit, $offset: query.offset }) as QuarantineRow[];
+
+    return { items: rows.map(toRecord), total };
+  }
+
+  /**
+   * Pending relationships of a job with an endpoint on the given node
+   */
+  listPendingRelationships(jobId: string, nodeId: string): QuarantineRecord[] {
+    const rows = this.db
+      .query(
+        `SELECT * FROM quarantine
+         WHERE job_id = $jobId AND kind = 'relationship' AND status = 'pending'`,
+      )
+      .all({ $jobId: jobId }) as QuarantineRow[];
+
+    return rows.map(toRecord).filter((record) => {
+      if (record.kind !== 'relationship') return false;
+      return record.relationship.fromId === nodeId || record.relationship.toId === nodeId;
+    });
+  }
+
+  /**
+   * Whether a pending entity of the job would create the node
+   */
+  isNodePending(jobId: string, nodeId: string): boolean {
+    const rows = this.db
+      .query(
+        `SELECT * FROM quarantine
+         WHERE job_id = $jobId AND kind = 'entity' AND status = 'pending'`,
+      )
+      .all({ $jobId: jobId }) as QuarantineRow[];
+
+    return rows
+      .map(toRecord)
+      .some((record) => record.kind === 'entity' && record.entity.id === nodeId);
+  }
+
+  /**
+   * Replace the held item after a curator edit
+   */
+  update(record: QuarantineRecord): void {
+    this.db.query('UPDATE quarantine SET item = $item, updated_at = $now WHERE id = $id').run({
+      $id: record.id,
+      $item: JSON.stringify(record.kind === 'entity' ? record.entity : record.relationship),
+      $now: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record the review decision; only pending items change, so a decision is made once
+   */
+  review(id: string, status: Exclude<QuarantineStatus, 'pending'>, note?: string): boolean {
+    const now = new Date().toISOString();
+    const result = this.db
+      .query(
+        `UPDATE quarantine SET status = $status, review_note = $note, reviewed_at = $now,
+           updated_at = $now
+         WHERE id = $id AND status = 'pending'`,
+      )
+      .run({ $id: id, $status: status, $note: note ?? null, $now: now });
+    return result.changes > 0;
+  }
+
+  /**
+   * Reject every pending item of a source, returning how many there were
+   */
+  rejectSource(sourceId: string, note: string): number {
+    const now = new Date().toISOString();
+    const result = this.db
+      .query(
+        `UPDATE quarantine SET status = 'rejected', review_note = $note, reviewed_at = $now,
+           updated_at = $now
+         WHERE source_id = $sourceId AND status = 'pending'`,
+      )
+      .run({ $sourceId: sourceId, $note: note, $now: now });
+    return result.changes;
+  }
+
+  /**
+   * Reject every pending item of the given jobs, returning how many there were
+   */
+  rejectJobs(jobIds: string[], note: string): number {
+    const now = new Date().toISOString();
+    const reject = this.db.query(
+      `UPDATE quarantine SET status = 'rejected', review_note = $note, reviewed_at = $now,
+         updated_at = $now
+       WHERE job_id = $jobId AND status = 'pending'`,
+    );
+    let rejected = 0;
+    this.db.transaction(() => {
+      for (const jobId of jobIds) {
+        rejected += reject.run({ $jobId: jobId, $note: note, $now: now }).changes;
+      }
+    })();
+    return rejected;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toRecord(row: QuarantineRow): QuarantineRecord {
+  const common = {
+    id: row.id,
+    jobId: row.job_id,
+    sourceId: row.source_id,
+    confidence: row.confidence,
+    threshold: row.threshold,
+    reason: row.reason,
+    status: row.status,
+    reviewNote: row.review_note,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    reviewedAt: row.reviewed_at,
+  };
+
+  return row.kind === 'entity'
+    ? { ...common, kind: 'entity', entity: JSON.parse(row.item) as CanonicalEntity }
+    : {
+        ...common,
+        kind: 'relationship',
+        relationship: JSON.parse(row.item) as ResolvedRelationship,
+      };
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { applyQuarantineEdit, parseThresholds, quarantineLowConfidence } from './quarantine';
+import { QuarantineStore } from './quarantine-store';
+import type { CanonicalEntity, QuarantineRecord, ResolvedRelationship } from './types';
+
+function entity(id: string, confidence: number, isNew = true): CanonicalEntity {
+  return {
+    id,
+    type: id.startsWith('faction') ? 'Faction' : 'Character',
+    properties: { name: id },
+    aliases: [],
+    mergedFrom: [],
+    confidence,
+    isNew,
+  };
+}
+
+function relationship(fromId: string, toId: string, confidence?: number): ResolvedRelationship {
+  return { fromId, toId, type: 'MEMBER_OF', evidence: 'text', confidence };
+}
+
+const source = { jobId: 'job-1', sourceId: 'chronicle-1' };
+const thresholds = { defaultThreshold: 0.5, byType: { Character: 0.7 } };
+
+describe('quarantineLowConfidence', () => {
+  it('holds back items below the threshold for their type', () => {
+    const split = quarantineLowConfidence(
+      [entity('faction-iron-league', 0.6), entity('character-aldric', 0.6)],
+      [relationship('character-aldric', 'faction-iron-league', 0.2)],
+      source,
+      thresholds,
+    );
+
+    expect(split.entities.map((item) => item.id)).toEqual(['faction-iron-league']);
+    expect(split.relationships).toEqual([]);
+    expect(split.quarantined.map((entry) => [entry.kind, entry.reason])).toEqual([
+      ['entity', 'Confidence 0.6 is below the Character threshold 0.7'],
+      ['relationship', 'Confidence 0.2 is below the MEMBER_OF threshold 0.5'],
+    ]);
+    expect(split.quarantined[0]).toMatchObject({ jobId: 'job-1', sourceId: 'chronicle-1' });
+  });
+
+  it('holds relationships to a quarantined new entity with it', () => {
+    const split = quarantineLowConfidence(
+      [entity('faction-iron-league', 0.9), entity('character-aldric', 0.3)],
+      [relationship('character-aldric', 'faction-iron-league', 0.9)],
+      source,
+      thresholds,
+    );
+
+    expect(split.quarantined.at(-1)?.reason).toBe('Endpoint character-aldric is quarantined');
+  });
+
+  it('writes relationships to existing nodes and items without a confidence', () => {
+    const split = quarantineLowConfidence(
+      [entity('faction-iron-league', 0.9), entity('character-aldric', 0.3, false)],
+      [
+        relationship('character-aldric', 'faction-iron-league', 0.9),
+        relationship('character-mira', 'faction-iron-league'),
+      ],
+      source,
+      thresholds,
+    );
+
+    expect(split.relationships).toHaveLength(2);
+    expect(split.quarantined.map((entry) => entry.kind)).toEqual(['entity']);
+  });
+});
+
+describe('parseThresholds', () => {
+  it('reads type=threshold pairs and skips malformed ones', () => {
+    expect(parseThresholds('Character=0.7, IS_ALLY_OF = 0.8,broken,Event=high')).toEqual({
+      Character: 0.7,
+      IS_ALLY_OF: 0.8,
+    });
+  });
+});
+
+describe('QuarantineStore', () => {
+  let store: QuarantineStore;
+
+  beforeEach(() => {
+    store = new QuarantineStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function addSample(): QuarantineRecord[] {
+    const split = quarantineLowConfidence(
+      [entity('character-aldric', 0.3)],
+      [relationship('character-aldric', 'faction-iron-league', 0.9)],
+      source,
+      thresholds,
+    );
+    return store.add(split.quarantined);
+  }
+
+  it('lists pending items by kind and job', () => {
+    const [held] = addSample();
+
+    expect(held).toMatchObject({ kind: 'entity', status: 'pending', reviewNote: null });
+    expect(store.list({ status: 'pending', limit: 20, offset: 0 }).total).toBe(2);
+    expect(
+      store.list({ status: 'pending', kind: 'relationship', jobId: 'job-1', limit: 20, offset: 0 })
+        .items[0]?.kind,
+    ).toBe('relationship');
+    expect(store.list({ status: 'pending', jobId: 'job-2', limit: 20, offset: 0 }).total).toBe(0);
+  });
+
+  it('tracks pending endpoints and records a review once', () => {
+    const [held] = addSample();
+    const id = held?.id as string;
+
+    expect(store.isNodePending('job-1', 'character-aldric')).toBe(true);
+    expect(store.listPendingRelationships('job-1', 'character-aldric')).toHaveLength(1);
+
+    expect(store.review(id, 'approved', 'checked against the chronicle')).toBe(true);
+    expect(store.review(id, 'rejected')).toBe(false);
+    expect(store.get(id)).toMatchObject({
+      status: 'approved',
+      reviewNote: 'checked against the chronicle',
+    });
+    expect(store.isNodePending('job-1', 'character-aldric')).toBe(false);
+  });
+
+  it('rejects the pending items of superseded jobs', () => {
+    const [held] = addSample();
+    store.review(held?.id as string, 'approved');
+
+    expect(store.rejectJobs(['job-1', 'job-2'], 'Superseded by revision 2')).toBe(1);
+    expect(store.list({ status: 'rejected', limit: 20, offset: 0 }).items).toEqual([
+      expect.objectContaining({ kind: 'relationship', reviewNote: 'Superseded by revision 2' }),
+    ]);
+  });
+
+  it('stores curator edits', () => {
+    const [held] = addSample();
+    const edited = applyQuarantineEdit(held as QuarantineRecord, {
+      type: 'npc',
+      properties: { role: 'Scout' },
+    });
+    if ('error' in edited) throw new Error(edited.error);
+
+    store.update(edited.item);
+    expect(store.get(held?.id as string)).toMatchObject({
+      entity: { type: 'Character', properties: { name: 'character-aldric', role: 'Scout' } },
+    });
+  });
+
+  it('rejects edits that do not apply to the item', () => {
+    const [held, rel] = addSample();
+
+    expect(applyQuarantineEdit(held as QuarantineRecord, { type: 'Dragon' })).toEqual({
+      error: 'Unknown entity type Dragon',
+    });
+    expect(applyQuarantineEdit(rel as QuarantineRecord, { properties: { name: 'x' } })).toEqual({
+      error: 'Relationships only accept type and evidence edits',
+    });
+  });
+});
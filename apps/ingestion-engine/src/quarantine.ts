@@ -0,0 +1,175 @@
+import { getOntology } from '@ace/ontology';
+import { normalizeRelationshipType } from './define';
+import type {
+  CanonicalEntity,
+  QuarantineEdit,
+  QuarantineEntry,
+  QuarantineRecord,
+  ResolvedRelationship,
+} from './types';
+
+/**
+ * Confidence quarantine: extracted items below the threshold for their type are held back
+ * from the graph until a curator approves, edits or rejects them
+ */
+
+/**
+ * Minimum confidence for types without their own threshold; 0 disables the quarantine
+ */
+export const DEFAULT_QUARANTINE_THRESHOLD = Number(Bun.env.QUARANTINE_MIN_CONFIDENCE ?? 0.5);
+
+/**
+ * Per-type thresholds from `Label=0.7,TYPE=0.8` (entity labels and relationship types)
+ */
+export function parseThresholds(spec: string): Record<string, number> {
+  const thresholds: Record<string, number> = {};
+  for (const pair of spec.split(',')) {
+    const [type, value] = pair.split('=').map((part) => part.trim());
+    const threshold = Number(value);
+    if (type && value && !Number.isNaN(threshold)) {
+      thresholds[type] = threshold;
+    }
+  }
+  return thresholds;
+}
+
+const TYPE_THRESHOLDS = parseThresholds(Bun.env.QUARANTINE_THRESHOLDS ?? '');
+
+export interface QuarantineThresholds {
+  defaultThreshold: number;
+  byType: Record<string, number>;
+}
+
+export const DEFAULT_THRESHOLDS: QuarantineThresholds = {
+  defaultThreshold: DEFAULT_QUARANTINE_THRESHOLD,
+  byType: TYPE_THRESHOLDS,
+};
+
+export interface QuarantineSplit {
+  entities: CanonicalEntity[];
+  relationships: ResolvedRelationship[];
+  quarantined: QuarantineEntry[];
+}
+
+/**
+ * Hold back entities and relationships whose confidence is below their type's threshold
+ * Relationships to a quarantined new entity are held with it, since the node does not
+ * exist until the entity is approved. Items without a confidence are written.
+ */
+export function quarantineLowConfidence(
+  entities: CanonicalEntity[],
+  relationships: ResolvedRelationship[],
+  source: { jobId: string; sourceId: string },
+  thresholds: QuarantineThresholds = DEFAULT_THRESHOLDS,
+): QuarantineSplit {
+  const split: QuarantineSplit = { entities: [], relationships: [], quarantined: [] };
+  const thresholdFor = (type: string) => thresholds.byType[type] ?? thresholds.defaultThreshold;
+  const heldNodes = new Set<string>();
+
+  for (const entity of entities) {
+    const threshold = thresholdFor(entity.type);
+    if (entity.confidence >= threshold) {
+      split.entities.push(entity);
+      continue;
+    }
+
+    if (entity.isNew) heldNodes.add(entity.id);
+    split.quarantined.push({
+      kind: 'entity',
+      entity,
+      ...source,
+      confidence: entity.confidence,
+      threshold,
+      reason: `Confidence ${entity.confidence} is below the ${entity.type} threshold ${threshold}`,
+    });
+  }
+
+  for (const relationship of relationships) {
+    const threshold = thresholdFor(relationship.type);
+    const confidence = relationship.confidence ?? null;
+    const heldEndpoint = [relationship.fromId, relationship.toId].find((id) => heldNodes.has(id));
+
+    let reason: string | null = null;
+    if (confidence !== null && confidence < threshold) {
+      reason = `Confidence ${confidence} is below the ${relationship.type} threshold ${threshold}`;
+    } else if (heldEndpoint) {
+      reason = `Endpoint ${heldEndpoint} is quarantined`;
+    }
+
+    if (reason) {
+      split.quarantined.push({
+        kind: 'relationship',
+        relationship,
+        ...source,
+        confidence,
+        threshold,
+        reason,
+      });
+    } else {
+      split.relationships.push(relationship);
+    }
+  }
+
+  return split;
+}
+
+export function countQuarantined(entries: QuarantineEntry[]): {
+  entities: number;
+  relationships: number;
+} {
+  const entities = entries.filter((entry) => entry.kind === 'entity').length;
+  return { entities, relationships: entries.length - entities };
+}
+
+/**
+ * Apply a curator's edit to a pending item
+ * Entity types must be ontology labels (or synonyms); relationship types are normalized
+ * like extracted ones. Returns the reason when the edit does not apply to the item.
+ */
+export function applyQuarantineEdit(
+  item: QuarantineRecord,
+  edit: QuarantineEdit,
+): { item: QuarantineRecord } | { error: string } {
+  if (item.kind === 'entity') {
+    if (edit.evidence !== undefined) {
+      return { error: 'Entities have no evidence to edit' };
+    }
+
+    let type = item.entity.type;
+    if (edit.type !== undefined) {
+      const label = getOntology().resolveEntityType(edit.type);
+      if (!label) {
+        return { error: `Unknown entity type ${edit.type}` };
+      }
+      type = label;
+    }
+
+    return {
+      item: {
+        ...item,
+        entity: {
+          ...item.entity,
+          type,
+          properties: { ...item.entity.properties, ...edit.properties },
+          aliases: edit.aliases ?? item.entity.aliases,
+        },
+      },
+    };
+  }
+
+  if (edit.properties !== undefined || edit.aliases !== undefined) {
+    return { error: 'Relationships only accept type and evidence edits' };
+  }
+
+  return {
+    item: {
+      ...item,
+      relationship: {
+        ...item.relationship,
+        type:
+          edit.type === undefined ? item.relationship.type : normalizeRelationshipType(edit.type),
+        evidence: edit.evidence ?? item.relationship.evidence,
+      },
+    },
+  };
+}
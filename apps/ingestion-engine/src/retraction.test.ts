@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type MentionContribution, planNodeRetraction } from './retraction';
+
+function contribution(properties: Record<string, unknown>, aliases: string[] = []) {
+  return { propertiesJson: JSON.stringify(properties), aliases };
+}
+
+describe('planNodeRetraction', () => {
+  it('deletes nodes ingestion created once no source mentions them', () => {
+    const retracted = [contribution({ name: 'Crimson Empire' })];
+
+    expect(planNodeRetraction(true, retracted, [])).toEqual({ action: 'delete' });
+    expect(planNodeRetraction(false, retracted, [])).toEqual({ action: 'keep' });
+  });
+
+  it('recomputes properties and aliases from the remaining sources, later ones winning', () => {
+    const plan = planNodeRetraction(
+      true,
+      [contribution({ name: 'Crimson Empire', alignment: 'Lawful', leader_name: 'Valen' })],
+      [
+        contribution({ name: 'Crimson Empire', alignment: 'Evil' }, ['The Empire']),
+        contribution({ name: 'Crimson Empire', alignment: 'Neutral' }, [
+          'Crimson Throne',
+          'The Empire',
+        ]),
+      ],
+    );
+
+    expect(plan).toEqual({
+      action: 'recompute',
+      properties: { name: 'Crimson Empire', alignment: 'Neutral', leader_name: null },
+      aliases: ['The Empire', 'Crimson Throne'],
+    });
+  });
+
+  it('leaves properties no retracted mention contributed alone', () => {
+    // The node's founded_year came from seed data, which no mention records
+    const plan = planNodeRetraction(
+      false,
+      [contribution({ alignment: 'Evil' })],
+      [contribution({ name: 'Crimson Empire' })],
+    );
+
+    expect(plan).toEqual({
+      action: 'recompute',
+      properties: { alignment: null },
+      aliases: [],
+    });
+  });
+
+  it('leaves nodes alone when a remaining link predates recorded contributions', () => {
+    const legacy: MentionContribution = { propertiesJson: null, aliases: null };
+    const plan = planNodeRetraction(
+      true,
+      [contribution({ name: 'Crimson Empire' })],
+      [legacy, contribution({ name: 'Crimson Empire' })],
+    );
+
+    expect(plan).toEqual({ action: 'keep' });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  executeWrite,
+  type ManagedTransaction,
+  RetractionQueries,
+  withSession,
+} from '@ace/neo4j-utilities';
+import type { RetractionResult } from './types';
+
+/**
+ * Source retraction: remove what a document contributed to the graph
+ * Facts and nodes only that source supports are deleted; nodes other sources still mention
+ * have their properties and aliases recomputed from those sources' contributions.
+ */
+
+/**
+ * Property and alias contribution of one remaining source, as stored on its MENTIONED_IN link
+ */
+export interface MentionContribution {
+  propertiesJson: string | null;
+  aliases: string[] | null;
+}
+
+interface RetractedNode {
+  id: string;
+  ingested: boolean;
+  retracted: MentionContribution[];
+  contributions: MentionContribution[];
+}
+
+export type NodeRetraction =
+  | { action: 'delete' }
+  | { action: 'keep' }
+  | { action: 'recompute'; properties: Record<string, unknown>; aliases: string[] };
+
+/**
+ * What happens to a node after a source's mentions were removed
+ * Nodes no source mentions are deleted if ingestion created them. The others have the
+ * properties the retracted mentions contributed recomputed by merging the remaining
+ * contributions oldest first, the way the writes merged them; properties no contribution
+ * mentions, such as seed data, are left alone. Links written before contributions were
+ * recorded leave the node as it is.
+ */
+export function planNodeRetraction(
+  ingested: boolean,
+  retracted: MentionContribution[],
+  contributions: MentionContribution[],
+): NodeRetraction {
+  if (contributions.length === 0) {
+    return ingested ? { action: 'delete' } : { action: 'keep' };
+  }
+  if (contributions.some((contribution) => contribution.propertiesJson === null)) {
+    return { action: 'keep' };
+  }
+
+  const merged: Record<string, unknown> = {};
+  const aliases = new Set<string>();
+  for (const contribution of contributions) {
+    for (const [property, value] of Object.entries(parseProperties(contribution))) {
+      if (value !== null && value !== undefined) merged[property] = value;
+    }
+    for (const alias of contribution.aliases ?? []) aliases.add(alias);
+  }
+
+  // Properties only the retracted source set are removed by writing null
+  const properties: Record<string, unknown> = {};
+  for (const contribution of retracted) {
+    for (const property of Object.keys(parseProperties(contribution))) {
+      properties[property] = merged[property] ?? null;
+    }
+  }
+  return { action: 'recompute', properties, aliases: Array.from(aliases) };
+}
+
+function parseProperties(contribution: MentionContribution): Record<string, unknown> {
+  return contribution.propertiesJson
+    ? (JSON.parse(contribution.propertiesJson) as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Counts of a retraction, before the Source node and its vector points are considered
+ */
+export type RetractionCounts = Omit<RetractionResult, 'sourceId' | 'vectorPointIds'>;
+
+/**
+ * How a job's write relates to the other revisions of its source
+ */
+export interface RevisionReplacement {
+  latestRevision: number;
+  superseded: boolean; // A later revision was written first, so the job's own links were retracted
+  counts: RetractionCounts;
+}
+
+/**
+ * Retract the source's links, all of them or only those of revisions below `belowRevision`,
+ * with the nodes and relationships only they supported
+ */
+async function retractLinks(
+  tx: ManagedTransaction,
+  sourceId: string,
+  belowRevision: number | null,
+): Promise<RetractionCounts> {
+  const facts = await tx.run(RetractionQueries.retractFacts, { sourceId, belowRevision });
+  const [factCounts] = facts.records;
+
+  const mentions = await tx.run(RetractionQueries.retractMentions, { sourceId, belowRevision });
+  const deleted: string[] = [];
+  const recomputed: Array<{
+    id: string;
+    properties: Record<string, unknown>;
+    aliases: string[];
+  }> = [];
+  for (const record of mentions.records) {
+    const node = record.toObject() as RetractedNode;
+    const plan = planNodeRetraction(node.ingested, node.retracted, node.contributions);
+    if (plan.action === 'delete') {
+      deleted.push(node.id);
+    } else if (plan.action === 'recompute') {
+      recomputed.push({ id: node.id, properties: plan.properties, aliases: plan.aliases });
+    }
+  }
+
+  if (deleted.length > 0) {
+    await tx.run(RetractionQueries.deleteNodes, { ids: deleted });
+  }
+  if (recomputed.length > 0) {
+    await tx.run(RetractionQueries.recomputeNodes, { rows: recomputed });
+  }
+
+  return {
+    relationshipsRemoved: Number(factCounts?.get('removed') ?? 0),
+    relationshipsKept: Number(factCounts?.get('kept') ?? 0),
+    entitiesRemoved: deleted.length,
+    entitiesRecomputed: recomputed.length,
+  };
+}
+
+/**
+ * Retract a source in one transaction: its assertions, its mentions, the nodes and
+ * relationships only it supported, and the Source node itself
+ * Returns null when the source is not in the graph.
+ */
+export async function retractSource(sourceId: string): Promise<RetractionResult | null> {
+  return withSession((session) =>
+    session.executeWrite(async (tx) => {
+      const source = await tx.run(RetractionQueries.getSource, { sourceId });
+      const [sourceRecord] = source.records;
+      if (!sourceRecord) {
+        return null;
+      }
+
+      const counts = await retractLinks(tx, sourceId, null);
+      await tx.run(RetractionQueries.deleteSource, { sourceId });
+
+      return {
+        sourceId,
+        ...counts,
+        vectorPointIds: sourceRecord.get('vectorPointIds') as string[],
+      };
+    }),
+  );
+}
+
+/**
+ * Keep only the latest revision of a source, inside the transaction that just wrote `revision`
+ * Links of earlier revisions are retracted. When a later revision was written while this
+ * one ran, as with parallel workers or a retried old revision, this write's own links are
+ * retracted instead, so the order jobs finish in does not matter.
+ */
+export async function replaceEarlierRevisions(
+  tx: ManagedTransaction,
+  sourceId: string,
+  revision: number,
+): Promise<RevisionReplacement | null> {
+  const source = await tx.run(RetractionQueries.getSource, { sourceId });
+  const latestRevision = source.records[0]?.get('revision') as number | null | undefined;
+  if (latestRevision === null || latestRevision === undefined) {
+    return null;
+  }
+
+  const latest = Number(latestRevision);
+  return {
+    latestRevision: latest,
+    superseded: revision < latest,
+    counts: await retractLinks(tx, sourceId, latest),
+  };
+}
+
+/**
+ * Record the vector points a source revision was just indexed under and return the points
+ * to delete: those of earlier revisions, or this revision's own when a later one was
+ * written meanwhile
+ */
+export async function recordVectorPoints(
+  sourceId: string,
+  revision: number | null,
+  pointIds: string[],
+): Promise<string[]> {
+  const result = await executeWrite<{ stale: string[] }>(RetractionQueries.recordVectorPoints, {
+    sourceId,
+    revision,
+    pointIds,
+  });
+  return result.records[0]?.stale ?? [];
+}
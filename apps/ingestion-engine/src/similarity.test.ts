@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'bun:test';
+
+import { coreName, nameSimilarity, normalizeName } from './similarity';
+
+describe('normalizeName', () => {
+  it('lower-cases, strips accents and punctuation and collapses whitespace', () => {
+    expect(normalizeName('  Élan   of the "North"! ')).toBe('elan of the north');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores titles that only one name has', () => {
+    expect(coreName('Emperor Valen')).toBe('valen');
+    expect(nameSimilarity('Emperor Valen', 'Valen')).toBe(1);
+    expect(nameSimilarity('the Crimson Empire', 'Crimson Empire')).toBe(1);
+  });
+
+  it('matches names whose titles include the other name titles', () => {
+    expect(nameSimilarity('King Aldric', 'King Aldric')).toBe(1);
+    expect(nameSimilarity('High King Aldric', 'King Aldric')).toBe(1);
+  });
+
+  it('never matches names with conflicting titles', () => {
+    expect(nameSimilarity('King Aldric', 'Prince Aldric')).toBe(0);
+    expect(nameSimilarity('Lord Marren', 'Lady Marren')).toBe(0);
+    expect(nameSimilarity('The King', 'The Queen')).toBe(0);
+  });
+});
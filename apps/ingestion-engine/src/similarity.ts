@@ -0,0 +1,138 @@
+/**
+ * String similarity helpers for entity name matching
+ */
+
+/**
+ * Leading articles and the honorifics and titles of entity names
+ * "Emperor Valen" and "Valen" can refer to the same character; "King Aldric" and
+ * "Prince Aldric" cannot
+ */
+const TITLE_WORDS = new Set([
+  'the',
+  'emperor',
+  'empress',
+  'king',
+  'queen',
+  'prince',
+  'princess',
+  'lord',
+  'lady',
+  'sir',
+  'dame',
+  'duke',
+  'duchess',
+  'count',
+  'countess',
+  'baron',
+  'baroness',
+  'general',
+  'captain',
+  'commander',
+  'high',
+  'grand',
+  'archmage',
+  'saint',
+]);
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace
+ */
+export function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalized name with leading articles and titles removed
+ * Falls back to the normalized name when nothing but titles remains
+ */
+export function coreName(value: string): string {
+  const tokens = normalizeName(value).split(' ');
+  const core = tokens.filter((token) => !TITLE_WORDS.has(token));
+  return core.length > 0 ? core.join(' ') : tokens.join(' ');
+}
+
+/**
+ * Jaro-Winkler similarity in [0, 1]
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Titles in a name, without articles
+ */
+function nameTitles(value: string): Set<string> {
+  return new Set(
+    normalizeName(value)
+      .split(' ')
+      .filter((token) => token !== 'the' && TITLE_WORDS.has(token)),
+  );
+}
+
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).every((title) => b.has(title));
+}
+
+/**
+ * Similarity between two entity names, ignoring punctuation
+ * Titles are ignored when only one name has them or one name's titles include the other's
+ * ("High King Aldric" and "King Aldric"); names with conflicting titles do not match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const titlesA = nameTitles(a);
+  const titlesB = nameTitles(b);
+  if (
+    titlesA.size > 0 &&
+    titlesB.size > 0 &&
+    !isSubset(titlesA, titlesB) &&
+    !isSubset(titlesB, titlesA)
+  ) {
+    return 0;
+  }
+  return jaroWinkler(coreName(a), coreName(b));
+}
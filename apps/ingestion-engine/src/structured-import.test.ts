@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'bun:test';
+
+import { buildStructuredExtraction, parseCsv, readStructuredRows } from './structured-import';
+import { IngestionRequestSchema } from './types';
+
+const CHARACTERS = `Name,Role,Faction,Events,Bio
+Valen,Emperor,faction-crimson,Siege of Ashfall; Treaty of Vess,"Rules from the Keep, ""unopposed"""
+Mira,Spymaster,Iron League,,
+,Guard,faction-crimson,,
+`;
+
+describe('parseCsv', () => {
+  it('handles quoted cells with commas, escaped quotes and newlines', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nagain'],
+    ]);
+  });
+});
+
+describe('readStructuredRows', () => {
+  it('maps columns onto the schema and reports invalid rows by number', () => {
+    const rows = readStructuredRows({
+      text: CHARACTERS,
+      format: 'csv',
+      mapping: {
+        entityType: 'Character',
+        columns: {
+          name: 'Name',
+          role: 'Role',
+          faction_affiliation: 'Faction',
+          historical_events: 'Events',
+          description: 'Bio',
+        },
+      },
+    });
+
+    expect(rows.total).toBe(3);
+    expect(rows.rows[0]?.data).toEqual({
+      name: 'Valen',
+      role: 'Emperor',
+      faction_affiliation: 'faction-crimson',
+      historical_events: ['Siege of Ashfall', 'Treaty of Vess'],
+      description: 'Rules from the Keep, "unopposed"',
+    });
+    expect(rows.errors).toEqual([{ row: 3, issues: [expect.stringContaining('name:')] }]);
+  });
+
+  it('requires the full core-types schema in strict mode and coerces enums and numbers', () => {
+    const rows = readStructuredRows({
+      text: JSON.stringify([
+        {
+          id: 'res-ore',
+          name: 'Bloodstone Ore',
+          type: 'economic',
+          where: { location: 'Ashfall' },
+          controlling_faction: 'Crimson Empire',
+          strategic_value: '80',
+        },
+        { id: 'res-grain', name: 'Grain', type: 'ECONOMIC' },
+      ]),
+      format: 'json',
+      mapping: { entityType: 'Resource', columns: { location: 'where.location' }, strict: true },
+    });
+
+    expect(rows.rows).toHaveLength(1);
+    expect(rows.rows[0]?.data).toMatchObject({ type: 'ECONOMIC', strategic_value: 80 });
+    expect(rows.errors[0]?.row).toBe(2);
+    expect(rows.errors[0]?.issues.some((issue) => issue.startsWith('location:'))).toBe(true);
+  });
+});
+
+describe('buildStructuredExtraction', () => {
+  it('turns reference fields into relationships and adds referenced entities by name', () => {
+    const extraction = buildStructuredExtraction({
+      text: JSON.stringify([
+        { id: 'faction-crimson', name: 'Crimson Empire', alignment: 'RIVAL' },
+        { id: 'faction-iron', name: 'Iron League', controlled_resources: ['Bloodstone Ore'] },
+      ]),
+      format: 'json',
+      mapping: { entityType: 'Faction' },
+    });
+
+    expect(extraction.issues).toEqual([]);
+    expect(extraction.chunkCount).toBe(0);
+    expect(extraction.entities.map((entity) => [entity.type, entity.mentions[0]])).toEqual([
+      ['Faction', 'Crimson Empire'],
+      ['Faction', 'Iron League'],
+      ['Resource', 'Bloodstone Ore'],
+    ]);
+    expect(extraction.entities[0]?.attributes).toEqual({
+      name: 'Crimson Empire',
+      alignment: 'RIVAL',
+    });
+    expect(extraction.relationships).toEqual([
+      {
+        from: 'Iron League',
+        to: 'Bloodstone Ore',
+        type: 'CONTROLS_RESOURCE',
+        evidence: 'row 2: controlled_resources',
+        confidence: 1,
+      },
+    ]);
+  });
+
+  it('stores fields under graph property names and reverses relationships to the row', () => {
+    const extraction = buildStructuredExtraction({
+      text: 'id,name,type,date,participants\nev-1,Siege of Ashfall,battle,1203-04-01,char-valen;Mira\n',
+      format: 'csv',
+      mapping: { entityType: 'Event' },
+    });
+
+    expect(extraction.entities[0]?.attributes).toEqual({
+      name: 'Siege of Ashfall',
+      type: 'BATTLE',
+      timestamp: '1203-04-01',
+    });
+    expect(extraction.relationships.map((rel) => [rel.from, rel.type, rel.to])).toEqual([
+      ['char-valen', 'PARTICIPATED_IN', 'Siege of Ashfall'],
+      ['Mira', 'PARTICIPATED_IN', 'Siege of Ashfall'],
+    ]);
+  });
+
+  it("resolves references to row ids into the rows' names", () => {
+    const extraction = buildStructuredExtraction({
+      text: JSON.stringify([
+        {
+          id: 'char-valen',
+          name: 'Valen',
+          relationships: [
+            { character_id: 'char-mira', type: 'IS_ALLY_OF', description: 'Sworn allies' },
+          ],
+        },
+        { id: 'char-mira', name: 'Mira' },
+      ]),
+      format: 'json',
+      mapping: { entityType: 'Character' },
+    });
+
+    expect(extraction.entities).toHaveLength(2);
+    expect(extraction.relationships).toEqual([
+      { from: 'Valen', to: 'Mira', type: 'IS_ALLY_OF', evidence: 'Sworn allies', confidence: 1 },
+    ]);
+  });
+});
+
+describe('IngestionRequestSchema', () => {
+  it('requires a mapping for csv and json imports', () => {
+    const result = IngestionRequestSchema.safeParse({ text: 'name\nValen', format: 'csv' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(['mapping']);
+  });
+});
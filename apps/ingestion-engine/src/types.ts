@@ -1,27 +1,112 @@
+import { ModelOverrideSchema } from '@ace/llm';
+import { getOntology } from '@ace/ontology';
 import { z } from 'zod';
 
 /**
- * Raw text input for ingestion
+ * Declarative mapping of CSV columns or JSON fields onto a core-types entity schema
  */
-export const IngestionRequestSchema = z.object({
-  text: z.string().min(1, 'Text content is required'),
-  sourceId: z.string().optional().describe('Identifier for source document'),
-  metadata: z
-    .record(z.string(), z.unknown())
+export const StructuredMappingSchema = z.object({
+  entityType: z.enum(['Faction', 'Character', 'Location', 'Resource', 'Event']),
+  columns: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe(
+      'Schema field -> CSV column or JSON field (dot paths allowed); other fields are read from a column of the same name',
+    ),
+  listSeparator: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Separator between items of list fields in a CSV cell (default ";")'),
+  strict: z
+    .boolean()
     .optional()
-    .describe('Additional metadata about the source'),
+    .describe('Require every field of the core-types schema instead of only name'),
 });
 
+export type StructuredMapping = z.infer<typeof StructuredMappingSchema>;
+
+/**
+ * Raw text input for ingestion
+ */
+export const IngestionRequestSchema = z
+  .object({
+    text: z.string().min(1, 'Text content is required'),
+    sourceId: z.string().optional().describe('Identifier for source document'),
+    metadata: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe('Additional metadata about the source'),
+    chunking: z
+      .object({
+        maxTokens: z.number().int().min(100).max(8000),
+        overlapTokens: z.number().int().min(0),
+      })
+      .refine((value) => value.overlapTokens < value.maxTokens, {
+        message: 'overlapTokens must be smaller than maxTokens',
+      })
+      .optional()
+      .describe('Override the extraction chunk size and overlap (estimated tokens)'),
+    dryRun: z
+      .boolean()
+      .optional()
+      .describe('Run Extract, Define and Canonicalize and return a graph diff without writing'),
+    format: z
+      .enum(['text', 'markdown', 'csv', 'json'])
+      .optional()
+      .describe(
+        'markdown reads YAML frontmatter and [[wikilinks]] (Obsidian notes) before the prose; csv and json import rows without the LLM',
+      ),
+    mapping: StructuredMappingSchema.optional().describe('Row mapping for csv and json imports'),
+    force: z
+      .boolean()
+      .optional()
+      .describe('Run the pipeline even if the same text was already ingested for this source'),
+    llm: ModelOverrideSchema.optional().describe(
+      'Extraction model, fallback models and sampling for this request',
+    ),
+  })
+  .refine((request) => !['csv', 'json'].includes(request.format ?? 'text') || request.mapping, {
+    message: 'mapping is required for csv and json imports',
+    path: ['mapping'],
+  });
+
 export type IngestionRequest = z.infer<typeof IngestionRequestSchema>;
 
+/**
+ * Character span of the chunk an extracted item came from
+ */
+export const ChunkSpanSchema = z.object({
+  chunkIndex: z.number().int().min(0),
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+});
+
+export type ChunkSpan = z.infer<typeof ChunkSpanSchema>;
+
 /**
  * Extracted entity from text (Extract step)
+ * The type must be an ontology label or one of its synonyms, and is stored as the label
  */
 export const ExtractedEntitySchema = z.object({
-  type: z.enum(['Faction', 'Character', 'Location', 'Resource', 'Event']),
+  type: z.string().transform((type, ctx) => {
+    const label = getOntology().resolveEntityType(type);
+    if (!label) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unknown entity type; expected one of ${getOntology().entityLabels.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    return label;
+  }),
   mentions: z.array(z.string()).describe('All text references to this entity'),
   attributes: z.record(z.string(), z.unknown()).describe('Raw attributes extracted from text'),
   confidence: z.number().min(0).max(1),
+  spans: z
+    .array(ChunkSpanSchema)
+    .optional()
+    .describe('Chunks of the source text this entity was extracted from'),
 });
 
 export type ExtractedEntity = z.infer<typeof ExtractedEntitySchema>;
@@ -35,6 +120,10 @@ export const ExtractedRelationshipSchema = z.object({
   type: z.string().describe('Relationship type as described in text'),
   evidence: z.string().describe('Text passage supporting this relationship'),
   confidence: z.number().min(0).max(1),
+  spans: z
+    .array(ChunkSpanSchema)
+    .optional()
+    .describe('Chunks of the source text this relationship was extracted from'),
 });
 
 export type ExtractedRelationship = z.infer<typeof ExtractedRelationshipSchema>;
@@ -45,24 +134,71 @@ export type ExtractedRelationship = z.infer<typeof ExtractedRelationshipSchema>;
 export const ExtractionResultSchema = z.object({
   entities: z.array(ExtractedEntitySchema),
   relationships: z.array(ExtractedRelationshipSchema),
+  issues: z
+    .array(z.string())
+    .describe('Rejected items and output errors that survived the repair attempts'),
+  chunkCount: z.number().int().min(0),
+  models: z
+    .array(z.string())
+    .optional()
+    .describe('Models that answered the extraction prompts, fallbacks included'),
   extractionTimeMs: z.number(),
 });
 
 export type ExtractionResult = z.infer<typeof ExtractionResultSchema>;
 
+/**
+ * Relationship endpoint resolved to an entity of the document by coreference
+ * ("the Emperor", "he", "his legions"), kept with the reason it was chosen
+ */
+export const CoreferenceLinkSchema = z.object({
+  reference: z.string().describe('Endpoint as extracted'),
+  entity: z.string().describe('Name of the entity it was resolved to'),
+  type: z.string(),
+  method: z.enum(['mention', 'attribute', 'type', 'pronoun']),
+  rationale: z.string(),
+  evidence: z.string().describe('Evidence of the first relationship it was resolved in'),
+});
+
+export type CoreferenceLink = z.infer<typeof CoreferenceLinkSchema>;
+
 /**
  * Classified entity (Define step)
  */
 export const ClassifiedEntitySchema = z.object({
   id: z.string().describe('Temporary ID for this extraction'),
-  type: z.enum(['Faction', 'Character', 'Location', 'Resource', 'Event']),
+  type: z.string().describe('Entity type as extracted'),
   canonicalType: z.string().describe('Mapped to ontology node label'),
+  mentions: z.array(z.string()).describe('Text references carried over from extraction'),
   attributes: z.record(z.string(), z.unknown()),
   confidence: z.number().min(0).max(1),
 });
 
 export type ClassifiedEntity = z.infer<typeof ClassifiedEntitySchema>;
 
+/**
+ * Relationship whose type phrase was classified against the ontology (Define step)
+ */
+export interface ClassifiedRelationship extends ExtractedRelationship {
+  rawType: string; // Phrase as extracted, kept on the edge
+  typeMethod: 'exact' | 'embedding' | 'unmapped';
+  typeScore?: number | null; // Similarity to the closest ontology type, when embedded
+}
+
+/**
+ * Attribute problems of one entity found by the Define step; they are reported, not fatal
+ */
+export const AttributeReportSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  missing: z.array(z.string()).describe('Required properties the entity has no value for'),
+  unrecognized: z
+    .array(z.object({ property: z.string(), value: z.unknown(), expected: z.string() }))
+    .describe('Values kept as extracted because they match no enum value or number'),
+});
+
+export type AttributeReport = z.infer<typeof AttributeReportSchema>;
+
 /**
  * Canonical entity with permanent ID (Canonicalize step)
  */
@@ -70,41 +206,520 @@ export const CanonicalEntitySchema = z.object({
   id: z.string().describe('Canonical ID (either existing or newly generated)'),
   type: z.string().describe('Node label from ontology'),
   properties: z.record(z.string(), z.unknown()).describe('Final properties for Neo4j'),
+  aliases: z.array(z.string()).describe('Alternative names written to the node aliases list'),
   mergedFrom: z
     .array(z.string())
     .describe('Temporary IDs that were merged into this canonical entity'),
+  confidence: z.number().min(0).max(1).describe('Highest confidence among merged extractions'),
   isNew: z.boolean().describe('Whether this is a new entity or merged with existing'),
 });
 
 export type CanonicalEntity = z.infer<typeof CanonicalEntitySchema>;
 
+/**
+ * How a classified entity was resolved during canonicalization
+ */
+export const MergeDecisionSchema = z.object({
+  entityId: z.string().describe('Temporary ID of the classified entity'),
+  name: z.string(),
+  type: z.string(),
+  canonicalId: z.string(),
+  action: z.enum(['matched_existing', 'merged_in_job', 'created']),
+  method: z.enum(['exact', 'alias', 'fuzzy']).nullable(),
+  score: z.number().min(0).max(1).nullable(),
+  matchedName: z.string().nullable().describe('Name or alias of the entity it was merged into'),
+});
+
+export type MergeDecision = z.infer<typeof MergeDecisionSchema>;
+
+/**
+ * Relationship resolved to canonical entity IDs, ready for the graph writer
+ */
+export interface ResolvedRelationship {
+  fromId: string;
+  toId: string;
+  type: string;
+  evidence?: string;
+  confidence?: number;
+  spans?: ChunkSpan[];
+  rawType?: string;
+  typeScore?: number | null;
+}
+
+/**
+ * Document an ingestion job reads from, recorded as a Source node
+ */
+export interface SourceContext {
+  sourceId: string;
+  jobId: string;
+  text: string;
+  metadata?: Record<string, unknown>;
+  revision?: SourceRevision;
+}
+
+/**
+ * Query parameters accepted by GET /provenance: a node ID or a relationship triple
+ */
+export const ProvenanceQuerySchema = z.union([
+  z.object({ nodeId: z.string().min(1) }),
+  z.object({
+    fromId: z.string().min(1),
+    type: z.string().min(1),
+    toId: z.string().min(1),
+  }),
+]);
+
+export type ProvenanceQuery = z.infer<typeof ProvenanceQuerySchema>;
+
+/**
+ * Relationship dropped because its mentions could not be resolved to canonical entities
+ */
+export const UnresolvedRelationshipSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  type: z.string(),
+  reason: z.enum([
+    'unknown_source',
+    'unknown_target',
+    'unknown_source_and_target',
+    'ambiguous_reference',
+    'self_reference',
+  ]),
+  detail: z.string(),
+});
+
+export type UnresolvedRelationship = z.infer<typeof UnresolvedRelationshipSchema>;
+
+/**
+ * Entities and relationships a job will write, stored by dry runs so they can be committed
+ */
+export interface GraphWritePlan {
+  jobId: string;
+  sourceId: string;
+  entities: CanonicalEntity[];
+  relationships: ResolvedRelationship[];
+  quarantined?: QuarantineEntry[]; // Held back for review when the plan is committed
+}
+
+/**
+ * Property of an existing node that a write would change
+ */
+export const PropertyChangeSchema = z.object({
+  property: z.string(),
+  oldValue: z.unknown(),
+  newValue: z.unknown(),
+});
+
+/**
+ * Relationship type outside the ontology, written by the generic relationship query
+ */
+export const UnmappedRelationshipTypeSchema = z.object({
+  type: z.string(),
+  count: z.number().int().min(0),
+});
+
+export type UnmappedRelationshipType = z.infer<typeof UnmappedRelationshipTypeSchema>;
+
+/**
+ * Proposed changes to the knowledge graph, returned by dry runs
+ */
+export const GraphDiffSchema = z.object({
+  newNodes: z.array(
+    z.object({
+      id: z.string(),
+      type: z.string(),
+      properties: z.record(z.string(), z.unknown()),
+      aliases: z.array(z.string()),
+    }),
+  ),
+  updatedNodes: z.array(
+    z.object({
+      id: z.string(),
+      type: z.string(),
+      changes: z.array(PropertyChangeSchema),
+      newAliases: z.array(z.string()),
+    }),
+  ),
+  unchangedNodes: z.number().describe('Existing nodes the write would leave as they are'),
+  newRelationships: z.array(
+    z.object({
+      fromId: z.string(),
+      type: z.string(),
+      toId: z.string(),
+      evidence: z.string().optional(),
+      rawType: z.string().optional().describe('Phrase the type was classified from'),
+    }),
+  ),
+  existingRelationships: z.number().describe('Relationships already present in the graph'),
+  droppedEntities: z.array(
+    z.object({ id: z.string(), type: z.string(), name: z.string(), reason: z.string() }),
+  ),
+  droppedRelationships: z.array(
+    z.object({ fromId: z.string(), type: z.string(), toId: z.string(), reason: z.string() }),
+  ),
+  unresolvedRelationships: z.array(UnresolvedRelationshipSchema),
+  unmappedRelationshipTypes: z
+    .array(UnmappedRelationshipTypeSchema)
+    .describe('Types outside the ontology the write would create through the generic query'),
+});
+
+export type GraphDiff = z.infer<typeof GraphDiffSchema>;
+
+/**
+ * What retracting a source removed from the graph, or what replacing an earlier revision did
+ */
+export const RetractionResultSchema = z.object({
+  sourceId: z.string(),
+  relationshipsRemoved: z.number().describe('Relationships no other source asserts'),
+  relationshipsKept: z.number().describe('Relationships other sources still assert'),
+  entitiesRemoved: z.number().describe('Nodes no other source mentions'),
+  entitiesRecomputed: z.number().describe('Nodes recomputed from the remaining sources'),
+  vectorPointIds: z.array(z.string()).describe('Vector chunks the source was indexed under'),
+});
+
+export type RetractionResult = z.infer<typeof RetractionResultSchema>;
+
 /**
  * Final ingestion result
  */
 export const IngestionResultSchema = z.object({
   jobId: z.string(),
-  status: z.enum(['completed', 'partial', 'failed']),
+  sourceId: z.string().optional().describe('Source node the extracted facts are linked to'),
+  status: z.enum(['completed', 'partial', 'failed', 'cancelled']),
   entitiesCreated: z.number(),
+  entitiesUpdated: z.number().optional().describe('Existing nodes updated by this job'),
   relationshipsCreated: z.number(),
+  relationshipsUpdated: z
+    .number()
+    .optional()
+    .describe('Existing relationships updated by this job'),
+  relationshipsUnresolved: z.number().optional(),
   extractionTimeMs: z.number(),
   defineTimeMs: z.number(),
   canonicalizeTimeMs: z.number(),
   graphWriteTimeMs: z.number(),
+  vectorWriteTimeMs: z.number().optional().describe('Time spent embedding and upserting chunks'),
+  vectorChunksIndexed: z.number().optional(),
   totalTimeMs: z.number(),
+  models: z
+    .object({
+      extraction: z.array(z.string()).optional(),
+      embedding: z.string().optional(),
+    })
+    .optional()
+    .describe('Models that answered for this job'),
+  coreferences: z
+    .array(CoreferenceLinkSchema)
+    .optional()
+    .describe('Relationship endpoints resolved to entities mentioned elsewhere in the text'),
+  mergeDecisions: z.array(MergeDecisionSchema).optional(),
+  attributeReports: z
+    .array(AttributeReportSchema)
+    .optional()
+    .describe('Entities with missing required or unrecognized attribute values'),
+  quarantined: z
+    .object({ entities: z.number(), relationships: z.number() })
+    .optional()
+    .describe('Items held for curator review instead of being written'),
+  dryRun: z.boolean().optional().describe('Set when the graph was not written'),
+  diff: GraphDiffSchema.optional().describe('Proposed graph changes of a dry run'),
+  previewJobId: z.string().optional().describe('Dry run this job committed'),
+  revision: z.number().int().optional().describe('Revision of the source this job wrote'),
+  replaced: RetractionResultSchema.omit({ vectorPointIds: true })
+    .optional()
+    .describe('Facts of earlier revisions of the source this job replaced'),
+  supersededBy: z
+    .number()
+    .int()
+    .optional()
+    .describe('Later revision of the source written while this job ran, which kept its facts'),
+  unresolvedRelationships: z.array(UnresolvedRelationshipSchema).optional(),
+  unmappedRelationshipTypes: z
+    .array(UnmappedRelationshipTypeSchema)
+    .optional()
+    .describe('Relationship types outside the ontology, candidates for promotion'),
   errors: z.array(z.string()).optional(),
 });
 
 export type IngestionResult = z.infer<typeof IngestionResultSchema>;
 
+/**
+ * Combined entity and relationship report of a batch, across all of its documents
+ */
+export const BatchReportSchema = z.object({
+  entities: z.array(
+    z.object({
+      id: z.string(),
+      type: z.string(),
+      name: z.string(),
+      isNew: z.boolean(),
+      jobIds: z.array(z.string()).describe('Child jobs whose documents mention the entity'),
+    }),
+  ),
+  relationships: z.array(
+    z.object({
+      fromId: z.string(),
+      type: z.string(),
+      toId: z.string(),
+      jobIds: z.array(z.string()).describe('Child jobs whose documents assert the relationship'),
+    }),
+  ),
+  crossDocumentEntities: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Entities mentioned in more than one document of the batch'),
+  canonicalizeTimeMs: z.number(),
+});
+
+export type BatchReport = z.infer<typeof BatchReportSchema>;
+
+/**
+ * Lifecycle states of a persisted ingestion job
+ */
+export const JobStatusSchema = z.enum([
+  'queued',
+  'processing',
+  'completed',
+  'partial',
+  'failed',
+  'cancelled',
+]);
+
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+/**
+ * EDC pipeline stages tracked per job
+ */
+export const PipelineStageSchema = z.enum(['extract', 'define', 'canonicalize', 'write', 'index']);
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+
+export type StageTimestamps = Partial<
+  Record<PipelineStage, { startedAt?: string; finishedAt?: string }>
+>;
+
+/**
+ * Query parameters accepted by GET /jobs
+ */
+export const JobListQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((s) => s.trim()) : undefined))
+    .pipe(z.array(JobStatusSchema).optional())
+    .describe('Comma-separated list of job statuses to include'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type JobListQuery = z.infer<typeof JobListQuerySchema>;
+
+/**
+ * Entity or relationship held back from the graph because its confidence is below the
+ * threshold for its type
+ */
+export type QuarantineEntry = (
+  | { kind: 'entity'; entity: CanonicalEntity }
+  | { kind: 'relationship'; relationship: ResolvedRelationship }
+) & {
+  jobId: string;
+  sourceId: string;
+  confidence: number | null;
+  threshold: number;
+  reason: string;
+};
+
+export const QuarantineStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+export type QuarantineStatus = z.infer<typeof QuarantineStatusSchema>;
+
+/**
+ * Persisted quarantine item and its review
+ */
+export type QuarantineRecord = QuarantineEntry & {
+  id: string;
+  status: QuarantineStatus;
+  reviewNote: string | null;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+};
+
+/**
+ * Query parameters accepted by GET /quarantine
+ */
+export const QuarantineListQuerySchema = z.object({
+  status: QuarantineStatusSchema.optional().default('pending'),
+  kind: z.enum(['entity', 'relationship']).optional(),
+  jobId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type QuarantineListQuery = z.infer<typeof QuarantineListQuerySchema>;
+
+/**
+ * Curator edits to a pending item; entity edits merge into its properties
+ */
+export const QuarantineEditSchema = z
+  .object({
+    type: z.string().min(1).optional().describe('Entity label or relationship type'),
+    properties: z.record(z.string(), z.unknown()).optional(),
+    aliases: z.array(z.string().min(1)).optional(),
+    evidence: z.string().min(1).optional(),
+  })
+  .refine((edit) => Object.values(edit).some((value) => value !== undefined), {
+    message: 'Provide at least one of type, properties, aliases or evidence',
+  });
+
+export type QuarantineEdit = z.infer<typeof QuarantineEditSchema>;
+
+export const QuarantineReviewSchema = z.object({
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * Persisted ingestion job record
+ */
+export interface JobRecord {
+  jobId: string;
+  status: JobStatus;
+  request: IngestionRequest;
+  result: IngestionResult | null;
+  stages: StageTimestamps;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  retryOf: string | null;
+  batchId: string | null;
+  contentHash: string | null; // Hash of the normalized text and sourceId; null for dry runs
+  revision: number | null;
+  retractedAt: string | null; // Set once the source's facts were retracted from the graph
+}
+
+/**
+ * Persisted batch; its status is aggregated from the child jobs
+ */
+export interface BatchRecord {
+  batchId: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  report: BatchReport | null;
+}
+
+/**
+ * Stored dry-run plan and the job that committed it, if any
+ */
+export interface PreviewRecord {
+  jobId: string;
+  plan: GraphWritePlan;
+  createdAt: string;
+  commitJobId: string | null;
+  committedAt: string | null;
+}
+
+/**
+ * Content version of a source: each distinct text ingested under a sourceId is a revision
+ */
+export interface SourceRevision {
+  contentHash: string;
+  revision: number;
+}
+
 /**
  * Worker message types
  */
 export interface WorkerJob {
   id: string;
   request: IngestionRequest;
+  plan?: GraphWritePlan; // Write a previewed plan instead of running the LLM
+  revision?: SourceRevision;
+}
+
+/**
+ * One document of a batch, processed as a child job
+ */
+export interface BatchDocument {
+  jobId: string;
+  request: IngestionRequest;
+  revision?: SourceRevision;
+}
+
+/**
+ * A batch runs as one worker job so canonicalization spans all of its documents
+ */
+export interface WorkerBatchJob {
+  id: string;
+  documents: BatchDocument[];
+}
+
+/**
+ * Anything the worker pool queues
+ */
+export type QueuedJob = WorkerJob | WorkerBatchJob;
+
+export interface WorkerCancel {
+  type: 'cancel';
+  jobId: string;
+}
+
+/**
+ * Messages the main thread sends to a worker
+ */
+export type WorkerCommand = QueuedJob | WorkerCancel;
+
+export interface WorkerStageEvent {
+  type: 'stage';
+  jobId: string;
+  stage: PipelineStage;
+  phase: 'started' | 'finished';
+  timestamp: string;
+  durationMs?: number; // Set when the stage finishes
+  details?: Record<string, unknown>; // Stage counts, e.g. entities extracted or nodes written
 }
 
 export interface WorkerResult {
+  type: 'result';
   jobId: string;
   result: IngestionResult;
+  plan?: GraphWritePlan; // Set for dry runs so the preview can be committed later
+  quarantined?: QuarantineEntry[]; // Items held back from the write, to be stored for review
+}
+
+export interface WorkerBatchResult {
+  type: 'batch-result';
+  jobId: string;
+  results: IngestionResult[]; // One per child job, in document order
+  report: BatchReport;
+  quarantined?: QuarantineEntry[]; // Across every child job, each naming its job
 }
+
+export type WorkerMessage = WorkerStageEvent | WorkerResult | WorkerBatchResult;
+
+/**
+ * A crashed worker's job went back to the queue
+ */
+export interface JobRequeuedEvent {
+  type: 'requeued';
+  jobId: string;
+  reason: string;
+  timestamp: string;
+}
+
+/**
+ * The job reached a terminal state
+ */
+export interface JobResultEvent {
+  type: 'result';
+  jobId: string;
+  result: IngestionResult;
+}
+
+/**
+ * Events streamed to clients on GET /jobs/:jobId/events
+ */
+export type JobEvent = WorkerStageEvent | JobRequeuedEvent | JobResultEvent;
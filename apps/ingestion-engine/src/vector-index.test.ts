@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { CanonicalEntity } from './types';
+import { buildPointId, buildVectorDocuments } from './vector-index';
+
+function entity(id: string, name: string, aliases: string[] = []): CanonicalEntity {
+  return {
+    id,
+    type: 'Faction',
+    properties: { name },
+    aliases,
+    mergedFrom: [],
+    confidence: 0.9,
+    isNew: true,
+  };
+}
+
+describe('buildPointId', () => {
+  it('derives a stable UUID per source chunk', () => {
+    const id = buildPointId('chronicle-1', 0);
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(buildPointId('chronicle-1', 0)).toBe(id);
+    expect(buildPointId('chronicle-1', 1)).not.toBe(id);
+    expect(buildPointId('chronicle-1', 0, 2)).not.toBe(buildPointId('chronicle-1', 0, 3));
+  });
+});
+
+describe('buildVectorDocuments', () => {
+  it('links each chunk to the entities mentioned inside it', () => {
+    const text =
+      'The Crimson Empire controls the Ruby Mines. The Iron League guards the northern pass.';
+
+    const documents = buildVectorDocuments(
+      { sourceId: 'chronicle-1', jobId: 'job-1', text },
+      [
+        entity('faction-crimson-empire', 'Crimson Empire'),
+        entity('faction-iron-league', 'Iron League', ['the League']),
+      ],
+      { maxTokens: 12, overlapTokens: 0 },
+    );
+
+    expect(documents).toHaveLength(2);
+    expect(documents.map((document) => document.metadata)).toEqual([
+      expect.objectContaining({
+        sourceId: 'chronicle-1',
+        jobId: 'job-1',
+        chunkIndex: 0,
+        start: 0,
+        entityIds: ['faction-crimson-empire'],
+      }),
+      expect.objectContaining({ chunkIndex: 1, entityIds: ['faction-iron-league'] }),
+    ]);
+    expect(documents[1]?.text).toContain('Iron League');
+  });
+});
@@ -0,0 +1,120 @@
+import type { VectorClient, VectorDocument } from '@ace/vector-client';
+import { type ChunkOptions, chunkText } from './chunk';
+import { isReferringExpression } from './coreference';
+import { findMentionOffsets } from './provenance';
+import type { CanonicalEntity, SourceContext } from './types';
+
+/**
+ * Vector indexing of ingested lore
+ * Source text is split into retrieval-sized chunks, embedded and upserted into Qdrant so
+ * the Historian's similarity search can find it
+ */
+
+/**
+ * Retrieval chunks are smaller than extraction chunks so each embedding stays focused
+ */
+export const VECTOR_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: Number(Bun.env.VECTOR_CHUNK_TOKENS ?? 400),
+  overlapTokens: Number(Bun.env.VECTOR_CHUNK_OVERLAP_TOKENS ?? 50),
+};
+
+export interface VectorIndexResult {
+  chunksIndexed: number;
+  pointIds: string[];
+  writeTimeMs: number;
+}
+
+/**
+ * Deterministic Qdrant point ID (UUID-formatted SHA-1) for a chunk of a source revision
+ * Re-ingesting a revision overwrites its chunks instead of duplicating them, and revisions
+ * indexed concurrently never overwrite each other's. Sources indexed before revisions were
+ * recorded have IDs without one.
+ */
+export function buildPointId(sourceId: string, chunkIndex: number, revision?: number): string {
+  const key =
+    revision === undefined ? `${sourceId}:${chunkIndex}` : `${sourceId}:${chunkIndex}:${revision}`;
+  const hex = new Bun.CryptoHasher('sha1').update(key).digest('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    ((Number.parseInt(hex.slice(16, 18), 16) & 0x3f) | 0x80).toString(16) + hex.slice(18, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Build the vector documents for a source: one per chunk, with its character offsets and
+ * the canonical entities mentioned inside it
+ */
+export function buildVectorDocuments(
+  source: SourceContext,
+  entities: CanonicalEntity[],
+  options: ChunkOptions = VECTOR_CHUNK_OPTIONS,
+): VectorDocument[] {
+  const mentions = entities.map((entity) => ({
+    id: entity.id,
+    offsets: findMentionOffsets(
+      source.text,
+      [entity.properties.name, ...entity.aliases].filter(
+        (value): value is string => typeof value === 'string' && !isReferringExpression(value),
+      ),
+    ),
+  }));
+
+  return chunkText(source.text, options).map((chunk) => ({
+    id: buildPointId(source.sourceId, chunk.index, source.revision?.revision),
+    text: chunk.text,
+    metadata: {
+      sourceId: source.sourceId,
+      jobId: source.jobId,
+      chunkIndex: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      entityIds: mentions
+        .filter(({ offsets }) =>
+          offsets.some((offset) => offset.start < chunk.end && offset.end > chunk.start),
+        )
+        .map(({ id }) => id),
+    },
+  }));
+}
+
+let collectionReady: Promise<void> | null = null;
+
+/**
+ * Create the collection once per process; a failed attempt is retried on the next call
+ */
+export function ensureVectorCollection(client: VectorClient): Promise<void> {
+  if (!collectionReady) {
+    collectionReady = client.initialize().catch((error) => {
+      collectionReady = null;
+      throw error;
+    });
+  }
+  return collectionReady;
+}
+
+/**
+ * Embed and upsert a source's chunks into the vector collection
+ */
+export async function indexSourceText(
+  client: VectorClient,
+  source: SourceContext,
+  entities: CanonicalEntity[],
+): Promise<VectorIndexResult> {
+  const startTime = Date.now();
+
+  await ensureVectorCollection(client);
+
+  const documents = buildVectorDocuments(source, entities);
+  if (documents.length > 0) {
+    await client.upsertDocuments(documents);
+  }
+
+  return {
+    chunksIndexed: documents.length,
+    pointIds: documents.map((document) => document.id),
+    writeTimeMs: Date.now() - startTime,
+  };
+}
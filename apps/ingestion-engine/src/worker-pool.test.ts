@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { WorkerCommand, WorkerJob, WorkerMessage } from './types';
+import { type PoolWorker, WorkerPool, type WorkerPoolOptions } from './worker-pool';
+
+class FakeWorker implements PoolWorker {
+  posted: WorkerCommand[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(command: WorkerCommand): void {
+    this.posted.push(command);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  finish(jobId: string): void {
+    this.onmessage?.(
+      new MessageEvent('message', {
+        data: {
+          type: 'result',
+          jobId,
+          result: {
+            jobId,
+            status: 'completed',
+            entitiesCreated: 0,
+            relationshipsCreated: 0,
+            extractionTimeMs: 0,
+            defineTimeMs: 0,
+            canonicalizeTimeMs: 0,
+            graphWriteTimeMs: 0,
+            totalTimeMs: 0,
+          },
+        },
+      }),
+    );
+  }
+
+  crash(): void {
+    this.onerror?.(new ErrorEvent('error', { message: 'boom' }));
+  }
+}
+
+function job(id: string): WorkerJob {
+  return { id, request: { text: 'lore' } };
+}
+
+function createPool(overrides: Partial<WorkerPoolOptions> = {}) {
+  const workers: FakeWorker[] = [];
+  const crashes: Array<{ jobId: string; willRetry: boolean }> = [];
+  const pool = new WorkerPool({
+    size: 1,
+    maxQueueDepth: 1,
+    maxJobRestarts: 1,
+    restartDelayMs: 0,
+    createWorker: () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    },
+    onMessage: () => {},
+    onJobCrashed: (crashed, _error, willRetry) => crashes.push({ jobId: crashed.id, willRetry }),
+    ...overrides,
+  });
+  return { pool, workers, crashes };
+}
+
+describe('WorkerPool', () => {
+  it('runs one job per worker and rejects submissions beyond the queue depth', () => {
+    const { pool, workers } = createPool();
+
+    expect(pool.submit(job('job-1'))).toBe(true);
+    expect(pool.submit(job('job-2'))).toBe(true);
+    expect(pool.submit(job('job-3'))).toBe(false);
+    expect(pool.submit(job('job-3'), { force: true })).toBe(true);
+    expect(pool.stats()).toMatchObject({ busy: 1, queueDepth: 2 });
+
+    workers[0]?.finish('job-1');
+    expect(workers[0]?.posted.map((posted) => ('id' in posted ? posted.id : posted.type))).toEqual([
+      'job-1',
+      'job-2',
+    ]);
+    expect(pool.stats().queueDepth).toBe(1);
+  });
+
+  it('replaces a crashed worker and requeues its job a limited number of times', async () => {
+    const { pool, workers, crashes } = createPool();
+    pool.submit(job('job-1'));
+
+    workers[0]?.crash();
+    expect(workers[0]?.terminated).toBe(true);
+    await Bun.sleep(5);
+
+    expect(workers[1]?.posted.map((posted) => ('id' in posted ? posted.id : posted.type))).toEqual([
+      'job-1',
+    ]);
+
+    workers[1]?.crash();
+    await Bun.sleep(5);
+
+    expect(crashes).toEqual([
+      { jobId: 'job-1', willRetry: true },
+      { jobId: 'job-1', willRetry: false },
+    ]);
+    expect(workers[2]?.posted).toEqual([]);
+    expect(pool.stats()).toMatchObject({ busy: 0, queueDepth: 0, restarts: 2 });
+  });
+
+  it('drops queued jobs and signals running ones on cancel', () => {
+    const { pool, workers } = createPool();
+    pool.submit(job('job-1'));
+    pool.submit(job('job-2'));
+
+    expect(pool.cancel('job-2')).toBe('dequeued');
+    expect(pool.cancel('job-1')).toBe('signalled');
+    expect(pool.cancel('job-3')).toBe('not_found');
+    expect(workers[0]?.posted).toEqual([job('job-1'), { type: 'cancel', jobId: 'job-1' }]);
+
+    workers[0]?.finish('job-1');
+    expect(pool.stats()).toMatchObject({ busy: 0, queueDepth: 0 });
+  });
+});
@@ -0,0 +1,246 @@
+import { incrementCounter, setGauge } from '@ace/metrics';
+import type { QueuedJob, WorkerCommand, WorkerMessage } from './types';
+
+/**
+ * Pool of EDC pipeline workers with a bounded queue and crash supervision
+ * Jobs wait in the queue until a worker is idle; a crashed worker is replaced and its
+ * in-flight job is requeued a limited number of times
+ */
+
+/**
+ * The part of the Worker interface the pool relies on (injectable for tests)
+ */
+export interface PoolWorker {
+  postMessage(command: WorkerCommand): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  maxQueueDepth: number;
+  maxJobRestarts: number;
+  restartDelayMs?: number;
+  createWorker: () => PoolWorker;
+  onMessage: (message: WorkerMessage) => void;
+  onJobCrashed: (job: QueuedJob, error: string, willRetry: boolean) => void;
+}
+
+/**
+ * How a cancellation reached its job: removed before it started, or signalled to its worker
+ */
+export type CancelOutcome = 'dequeued' | 'signalled' | 'not_found';
+
+export interface WorkerPoolStats {
+  workers: number;
+  busy: number;
+  queueDepth: number;
+  maxQueueDepth: number;
+  restarts: number;
+}
+
+/**
+ * Pool sizing defaults, overridable per deployment
+ */
+export const DEFAULT_POOL_OPTIONS = {
+  size: Number(Bun.env.INGESTION_WORKERS ?? 2),
+  maxQueueDepth: Number(Bun.env.INGESTION_QUEUE_DEPTH ?? 100),
+  maxJobRestarts: Number(Bun.env.INGESTION_MAX_JOB_RESTARTS ?? 2),
+};
+
+// Retry hint used before any job has finished
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// Pause before replacing a crashed worker so a worker failing at startup cannot spin
+const DEFAULT_RESTART_DELAY_MS = 1000;
+
+interface WorkerSlot {
+  index: number;
+  worker: PoolWorker;
+  job: QueuedJob | null;
+  startedAt: number;
+  restarting: boolean;
+}
+
+export class WorkerPool {
+  private readonly slots: WorkerSlot[] = [];
+  private readonly queue: QueuedJob[] = [];
+  private readonly crashes = new Map<string, number>();
+  private restarts = 0;
+  private averageJobMs: number | null = null;
+  private stopped = false;
+
+  constructor(private readonly options: WorkerPoolOptions) {
+    if (options.size < 1) {
+      throw new Error('Worker pool size must be at least 1');
+    }
+
+    for (let index = 0; index < options.size; index++) {
+      this.slots.push(this.spawn(index));
+    }
+    this.reportGauges();
+  }
+
+  /**
+   * Whether a new job would fit in the queue
+   */
+  canAccept(): boolean {
+    return this.queue.length < this.options.maxQueueDepth;
+  }
+
+  /**
+   * Queue a job; returns false when the queue is full
+   * Resumed jobs pass `force` so persisted work is never rejected
+   */
+  submit(job: QueuedJob, { force = false }: { force?: boolean } = {}): boolean {
+    if (!force && !this.canAccept()) {
+      return false;
+    }
+
+    this.queue.push(job);
+    this.dispatch();
+    return true;
+  }
+
+  /**
+   * Cancel a job: queued jobs are dropped, running jobs are asked to stop
+   * A signalled worker still reports a result, which frees its slot as usual
+   */
+  cancel(jobId: string): CancelOutcome {
+    const queued = this.queue.findIndex((job) => job.id === jobId);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      this.crashes.delete(jobId);
+      this.reportGauges();
+      return 'dequeued';
+    }
+
+    const slot = this.slots.find((candidate) => candidate.job?.id === jobId);
+    if (slot) {
+      slot.worker.postMessage({ type: 'cancel', jobId });
+      return 'signalled';
+    }
+
+    return 'not_found';
+  }
+
+  /**
+   * Seconds a rejected client should wait, from the recent job duration and queue depth
+   */
+  retryAfterSeconds(): number {
+    if (this.averageJobMs === null) {
+      return DEFAULT_RETRY_AFTER_SECONDS;
+    }
+    const waves = Math.ceil((this.queue.length + 1) / this.slots.length);
+    return Math.max(1, Math.ceil((waves * this.averageJobMs) / 1000));
+  }
+
+  stats(): WorkerPoolStats {
+    return {
+      workers: this.slots.length,
+      busy: this.slots.filter((slot) => slot.job).length,
+      queueDepth: this.queue.length,
+      maxQueueDepth: this.options.maxQueueDepth,
+      restarts: this.restarts,
+    };
+  }
+
+  terminate(): void {
+    this.stopped = true;
+    for (const slot of this.slots) {
+      slot.worker.onmessage = null;
+      slot.worker.onerror = null;
+      slot.worker.terminate();
+    }
+  }
+
+  private spawn(index: number): WorkerSlot {
+    const slot: WorkerSlot = {
+      index,
+      worker: this.options.createWorker(),
+      job: null,
+      startedAt: 0,
+      restarting: false,
+    };
+
+    slot.worker.onmessage = (event) => this.handleMessage(slot, event.data);
+    slot.worker.onerror = (event) => this.handleCrash(slot, event.message || 'Worker crashed');
+
+    return slot;
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (slot.job || slot.restarting) continue;
+
+      const job = this.queue.shift();
+      if (!job) break;
+
+      slot.job = job;
+      slot.startedAt = Date.now();
+      slot.worker.postMessage(job);
+    }
+    this.reportGauges();
+  }
+
+  private handleMessage(slot: WorkerSlot, message: WorkerMessage): void {
+    this.options.onMessage(message);
+
+    if (message.type === 'stage') return;
+
+    if (slot.job) {
+      const duration = Date.now() - slot.startedAt;
+      this.averageJobMs =
+        this.averageJobMs === null ? duration : this.averageJobMs * 0.8 + duration * 0.2;
+      this.crashes.delete(slot.job.id);
+    }
+
+    slot.job = null;
+    this.dispatch();
+  }
+
+  /**
+   * Replace a crashed worker and requeue or give up on its in-flight job
+   */
+  private handleCrash(slot: WorkerSlot, error: string): void {
+    const job = slot.job;
+    console.error(`[worker-pool] Worker ${slot.index} crashed: ${error}`);
+
+    slot.worker.onmessage = null;
+    slot.worker.onerror = null;
+    slot.worker.terminate();
+    slot.job = null;
+    slot.restarting = true;
+
+    this.restarts++;
+    incrementCounter('ingestion_worker_restarts_total');
+    setTimeout(() => {
+      if (this.stopped) return;
+      this.slots[slot.index] = this.spawn(slot.index);
+      this.dispatch();
+    }, this.options.restartDelayMs ?? DEFAULT_RESTART_DELAY_MS);
+
+    if (job) {
+      const crashes = (this.crashes.get(job.id) ?? 0) + 1;
+      const willRetry = crashes <= this.options.maxJobRestarts;
+      this.options.onJobCrashed(job, error, willRetry);
+
+      if (willRetry) {
+        this.crashes.set(job.id, crashes);
+        this.queue.unshift(job);
+      } else {
+        this.crashes.delete(job.id);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  private reportGauges(): void {
+    const { workers, busy, queueDepth } = this.stats();
+    setGauge('ingestion_queue_depth', queueDepth);
+    setGauge('ingestion_workers_busy', busy);
+    setGauge('ingestion_worker_utilization', busy / workers);
+  }
+}
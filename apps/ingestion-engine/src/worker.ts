@@ -1,117 +1,812 @@
 /// <reference lib="webworker" />
 
-import { Ollama } from 'ollama';
+import { getLLMProvider } from '@ace/llm';
+import { getVectorClient } from '@ace/vector-client';
+import { buildBatchReport, selectDocumentEntities } from './batch';
 import { canonicalizeEntities, resolveRelationshipReferences } from './canonicalize';
-import { classifyEntities, normalizeRelationshipType } from './define';
+import { resolveCoreferences } from './coreference';
+import { classifyEntities, classifyRelationships } from './define';
 import { extractEntitiesAndRelationships } from './extract';
-import { writeToGraph } from './graph-writer';
-import type { IngestionResult, WorkerJob, WorkerResult } from './types';
+import { buildGraphDiff, loadGraphState } from './graph-diff';
+import { type GraphWriteResult, writeToGraph } from './graph-writer';
+import { combineNoteExtraction, type MarkdownNote, prepareMarkdownRequest } from './markdown';
+import { connectToGraph } from './neo4j';
+import { resolveSourceId } from './provenance';
+import { countQuarantined, quarantineLowConfidence } from './quarantine';
+import { recordVectorPoints } from './retraction';
+import { buildStructuredExtraction, isStructuredRequest } from './structured-import';
+import type {
+  AttributeReport,
+  BatchDocument,
+  CanonicalEntity,
+  ClassifiedEntity,
+  ClassifiedRelationship,
+  CoreferenceLink,
+  ExtractionResult,
+  GraphWritePlan,
+  IngestionResult,
+  PipelineStage,
+  QuarantineEntry,
+  ResolvedRelationship,
+  SourceContext,
+  WorkerBatchJob,
+  WorkerBatchResult,
+  WorkerCommand,
+  WorkerJob,
+  WorkerResult,
+  WorkerStageEvent,
+} from './types';
+import { ensureVectorCollection, indexSourceText, type VectorIndexResult } from './vector-index';
 
 declare const self: DedicatedWorkerGlobalScope;
 
-// Initialize Ollama client
-const ollama = new Ollama({
-  host: Bun.env.OLLAMA_HOST || 'http://localhost:11434',
+connectToGraph();
+
+// Create the lore collection up front; indexing retries if Qdrant is not reachable yet
+const vectorClient = getVectorClient();
+ensureVectorCollection(vectorClient).catch((error) => {
+  console.warn('[worker] Vector collection not initialized:', error);
 });
 
+// Abort controllers of the jobs this worker is running, for cancel commands
+const controllers = new Map<string, AbortController>();
+
+// Start times of running stages per job, for stage durations
+const stageStarts = new Map<string, Partial<Record<PipelineStage, number>>>();
+
 /**
- * Process ingestion job using the EDC (Extract → Define → Canonicalize) pipeline
+ * Report a stage transition back to the main thread for the job store and event stream
+ * `details` carries the stage's counts so clients can show progress without the final result
+ */
+function reportStage(
+  jobId: string,
+  stage: PipelineStage,
+  phase: 'started' | 'finished',
+  details?: Record<string, unknown>,
+): void {
+  const now = Date.now();
+  const starts = stageStarts.get(jobId) ?? {};
+  stageStarts.set(jobId, starts);
+
+  let durationMs: number | undefined;
+  if (phase === 'started') {
+    starts[stage] = now;
+  } else {
+    const startedAt = starts[stage];
+    durationMs = startedAt === undefined ? undefined : now - startedAt;
+  }
+
+  self.postMessage({
+    type: 'stage',
+    jobId,
+    stage,
+    phase,
+    timestamp: new Date(now).toISOString(),
+    durationMs,
+    details,
+  } satisfies WorkerStageEvent);
+}
+
+/**
+ * Result of a job plus, for dry runs, the plan needed to commit it later
  */
-async function processIngestion(job: WorkerJob): Promise<IngestionResult> {
+interface PipelineOutcome {
+  result: IngestionResult;
+  plan?: GraphWritePlan;
+  quarantined?: QuarantineEntry[]; // Held back from the write, stored for review by the main thread
+}
+
+function buildSourceContext(job: WorkerJob | BatchDocument, sourceId: string): SourceContext {
+  return {
+    sourceId,
+    jobId: 'id' in job ? job.id : job.jobId,
+    text: job.request.text,
+    metadata: job.request.metadata,
+    revision: job.revision,
+  };
+}
+
+/**
+ * Result fields of a job's graph write and indexing
+ */
+type WriteOutcome = Pick<
+  IngestionResult,
+  | 'entitiesCreated'
+  | 'entitiesUpdated'
+  | 'relationshipsCreated'
+  | 'relationshipsUpdated'
+  | 'graphWriteTimeMs'
+  | 'unmappedRelationshipTypes'
+  | 'vectorWriteTimeMs'
+  | 'vectorChunksIndexed'
+  | 'models'
+  | 'replaced'
+  | 'supersededBy'
+>;
+
+function graphCounts(graphWriteResult: GraphWriteResult) {
+  return {
+    entitiesCreated: graphWriteResult.nodesCreated,
+    entitiesUpdated: graphWriteResult.nodesUpdated,
+    relationshipsCreated: graphWriteResult.relationshipsCreated,
+    relationshipsUpdated: graphWriteResult.relationshipsUpdated,
+    graphWriteTimeMs: graphWriteResult.writeTimeMs,
+    unmappedRelationshipTypes:
+      graphWriteResult.unmappedRelationshipTypes.length > 0
+        ? graphWriteResult.unmappedRelationshipTypes
+        : undefined,
+  };
+}
+
+/**
+ * Write to Neo4j, then embed the source text for semantic retrieval
+ * The graph is already committed when indexing runs, so an indexing failure is recorded
+ * in `errors` and only makes the job partial
+ */
+async function writeAndIndex(
+  source: SourceContext,
+  entities: CanonicalEntity[],
+  relationships: ResolvedRelationship[],
+  errors: string[],
+): Promise<WriteOutcome> {
+  reportStage(source.jobId, 'write', 'started', {
+    entities: entities.length,
+    relationships: relationships.length,
+  });
+  const graphWriteResult = await writeToGraph(entities, relationships, source);
+  reportStage(source.jobId, 'write', 'finished', {
+    nodesCreated: graphWriteResult.nodesCreated,
+    nodesUpdated: graphWriteResult.nodesUpdated,
+    relationshipsCreated: graphWriteResult.relationshipsCreated,
+    relationshipsUpdated: graphWriteResult.relationshipsUpdated,
+    provenanceLinksCreated: graphWriteResult.provenanceLinksCreated,
+  });
+
+  // A later revision was written first: this one's facts are already retracted, and
+  // indexing its chunks would only make the stale text searchable
+  const replacement = graphWriteResult.replacement;
+  if (replacement?.superseded) {
+    console.warn(
+      `[worker] Revision ${source.revision?.revision} of ${source.sourceId} was superseded by revision ${replacement.latestRevision}`,
+    );
+    reportStage(source.jobId, 'index', 'finished', {
+      chunksIndexed: 0,
+      supersededBy: replacement.latestRevision,
+    });
+    return {
+      ...graphCounts(graphWriteResult),
+      vectorChunksIndexed: 0,
+      supersededBy: replacement.latestRevision,
+    };
+  }
+
+  // The write replaced the facts only earlier revisions of the source supported
+  let replaced: IngestionResult['replaced'];
+  if (
+    replacement &&
+    (replacement.counts.relationshipsRemoved > 0 || replacement.counts.entitiesRemoved > 0)
+  ) {
+    replaced = { sourceId: source.sourceId, ...replacement.counts };
+  }
+
+  reportStage(source.jobId, 'index', 'started');
+  let vectorIndexResult: VectorIndexResult | null = null;
+  try {
+    vectorIndexResult = await indexSourceText(vectorClient, source, entities);
+    console.log(
+      `[worker] Indexed ${vectorIndexResult.chunksIndexed} chunk(s) in ${vectorIndexResult.writeTimeMs}ms`,
+    );
+
+    // Chunks of earlier revisions, or of this one once a later revision was written,
+    // would otherwise stay searchable
+    const stale = await recordVectorPoints(
+      source.sourceId,
+      source.revision?.revision ?? null,
+      vectorIndexResult.pointIds,
+    );
+    if (stale.length > 0) {
+      await vectorClient.deleteByIds(stale);
+    }
+  } catch (error) {
+    console.error('[worker] Vector indexing failed:', error);
+    errors.push(
+      `Vector indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  reportStage(source.jobId, 'index', 'finished', {
+    chunksIndexed: vectorIndexResult?.chunksIndexed ?? 0,
+    failed: vectorIndexResult === null,
+  });
+
+  return {
+    ...graphCounts(graphWriteResult),
+    vectorWriteTimeMs: vectorIndexResult?.writeTimeMs,
+    vectorChunksIndexed: vectorIndexResult?.chunksIndexed ?? 0,
+    models: vectorIndexResult ? { embedding: vectorClient.embeddingModel } : undefined,
+    replaced,
+  };
+}
+
+function failedResult(
+  jobId: string,
+  startTime: number,
+  errors: string[],
+  status: 'failed' | 'cancelled' = 'failed',
+): IngestionResult {
+  return {
+    jobId,
+    status,
+    entitiesCreated: 0,
+    relationshipsCreated: 0,
+    extractionTimeMs: 0,
+    defineTimeMs: 0,
+    canonicalizeTimeMs: 0,
+    graphWriteTimeMs: 0,
+    totalTimeMs: Date.now() - startTime,
+    errors,
+  };
+}
+
+function cancelledResult(jobId: string, startTime: number): IngestionResult {
+  return failedResult(jobId, startTime, ['Cancelled by request'], 'cancelled');
+}
+
+interface DefinedDocument {
+  extraction: ExtractionResult;
+  coreferences: CoreferenceLink[];
+  classifiedEntities: ClassifiedEntity[];
+  classifiedRelationships: ClassifiedRelationship[];
+  attributeReports: AttributeReport[];
+  defineTimeMs: number;
+}
+
+/**
+ * STEPS 1 and 2 of the pipeline for one document, reported against its job
+ * For Markdown notes the LLM reads the prose and the note's frontmatter and wikilinks are
+ * merged in as explicit entities and references.
+ */
+async function extractAndDefine(
+  jobId: string,
+  request: WorkerJob['request'],
+  signal: AbortSignal,
+  note: MarkdownNote | null = null,
+): Promise<DefinedDocument> {
+  // STEP 1: EXTRACT - Extract entities and relationships from raw text
+  // Structured imports map their rows directly and never reach the LLM
+  reportStage(jobId, 'extract', 'started');
+  let extraction: ExtractionResult;
+  if (isStructuredRequest(request)) {
+    extraction = buildStructuredExtraction(request);
+  } else if (note && request.text.trim().length === 0) {
+    extraction = {
+      entities: [],
+      relationships: [],
+      issues: [],
+      chunkCount: 0,
+      extractionTimeMs: 0,
+    };
+  } else {
+    extraction = await extractEntitiesAndRelationships(request, getLLMProvider(), signal);
+  }
+
+  if (note) {
+    extraction = {
+      ...extraction,
+      ...combineNoteExtraction(note, extraction),
+      issues: [...note.issues, ...extraction.issues],
+    };
+  }
+
+  // Pronouns, titles and descriptions used as endpoints point at entities of the document
+  let coreferences: CoreferenceLink[] = [];
+  if (!isStructuredRequest(request)) {
+    const coreference = resolveCoreferences(
+      request.text,
+      extraction.entities,
+      extraction.relationships,
+    );
+    extraction = { ...extraction, relationships: coreference.relationships };
+    coreferences = coreference.links;
+  }
+  reportStage(jobId, 'extract', 'finished', {
+    entities: extraction.entities.length,
+    relationships: extraction.relationships.length,
+    chunks: extraction.chunkCount,
+    issues: extraction.issues.length,
+    coreferences: coreferences.length,
+  });
+  console.log(
+    `[worker] Extracted ${extraction.entities.length} entities, ${extraction.relationships.length} relationships from ${extraction.chunkCount} chunk(s)`,
+  );
+
+  if (extraction.entities.length === 0) {
+    return {
+      extraction,
+      coreferences,
+      classifiedEntities: [],
+      classifiedRelationships: [],
+      attributeReports: [],
+      defineTimeMs: 0,
+    };
+  }
+
+  signal.throwIfAborted();
+
+  // STEP 2: DEFINE - Classify entities and relationship phrases against ontology
+  reportStage(jobId, 'define', 'started');
+  const defineStart = Date.now();
+  const { entities: classifiedEntities, attributeReports } = classifyEntities(extraction.entities);
+  const classifiedRelationships = await classifyRelationships(
+    extraction.relationships,
+    vectorClient,
+  );
+  const defineTimeMs = Date.now() - defineStart;
+  const countByMethod = (method: ClassifiedRelationship['typeMethod']) =>
+    classifiedRelationships.filter((rel) => rel.typeMethod === method).length;
+  reportStage(jobId, 'define', 'finished', {
+    entities: classifiedEntities.length,
+    attributeReports: attributeReports.length,
+    relationships: {
+      exact: countByMethod('exact'),
+      embedding: countByMethod('embedding'),
+      unmapped: countByMethod('unmapped'),
+    },
+  });
+
+  console.log(
+    `[worker] Classified ${classifiedEntities.length} entities and ${classifiedRelationships.length} relationships against ontology`,
+  );
+
+  return {
+    extraction,
+    coreferences,
+    classifiedEntities,
+    classifiedRelationships,
+    attributeReports,
+    defineTimeMs,
+  };
+}
+
+/**
+ * Resolve the mentions (names and aliases) of classified relationships to canonical IDs
+ */
+function resolveRelationships(
+  relationships: ClassifiedRelationship[],
+  canonicalEntities: CanonicalEntity[],
+) {
+  const resolution = resolveRelationshipReferences(relationships, canonicalEntities);
+
+  console.log(
+    `[worker] Resolved ${resolution.resolved.length} relationships to canonical IDs (${resolution.unresolved.length} unresolved)`,
+  );
+  return resolution;
+}
+
+/**
+ * Commit a previously previewed plan without re-running the LLM
+ */
+async function commitPlan(job: WorkerJob, plan: GraphWritePlan): Promise<PipelineOutcome> {
   const startTime = Date.now();
   const errors: string[] = [];
+  const quarantined = plan.quarantined ?? [];
 
   try {
-    console.log(`[worker] Starting EDC pipeline for job ${job.id}`);
-
-    // STEP 1: EXTRACT - Extract entities and relationships from raw text
-    const extractionResult = await extractEntitiesAndRelationships(job.request, ollama);
-    console.log(
-      `[worker] Extracted ${extractionResult.entities.length} entities, ${extractionResult.relationships.length} relationships`,
+    console.log(`[worker] Committing preview ${plan.jobId} as job ${job.id}`);
+    const written = await writeAndIndex(
+      buildSourceContext(job, plan.sourceId),
+      plan.entities,
+      plan.relationships,
+      errors,
     );
 
-    if (extractionResult.entities.length === 0) {
-      return {
+    return {
+      quarantined,
+      result: {
+        jobId: job.id,
+        sourceId: plan.sourceId,
+        previewJobId: plan.jobId,
+        status: errors.length > 0 ? 'partial' : 'completed',
+        revision: job.revision?.revision,
+        ...written,
+        extractionTimeMs: 0,
+        defineTimeMs: 0,
+        canonicalizeTimeMs: 0,
+        totalTimeMs: Date.now() - startTime,
+        quarantined: quarantined.length > 0 ? countQuarantined(quarantined) : undefined,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    };
+  } catch (error) {
+    console.error('[worker] Preview commit failed:', error);
+    return {
+      result: {
         jobId: job.id,
+        sourceId: plan.sourceId,
+        previewJobId: plan.jobId,
         status: 'failed',
         entitiesCreated: 0,
         relationshipsCreated: 0,
-        extractionTimeMs: extractionResult.extractionTimeMs,
+        extractionTimeMs: 0,
         defineTimeMs: 0,
         canonicalizeTimeMs: 0,
         graphWriteTimeMs: 0,
         totalTimeMs: Date.now() - startTime,
-        errors: ['No entities extracted from text'],
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      },
+    };
+  }
+}
+
+/**
+ * Process ingestion job using the EDC (Extract → Define → Canonicalize) pipeline
+ * Dry runs stop after Canonicalize and return the proposed graph diff
+ * Cancellation is honoured until the graph write starts; after that the job runs to the end
+ */
+async function processIngestion(job: WorkerJob, signal: AbortSignal): Promise<PipelineOutcome> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+
+  try {
+    console.log(`[worker] Starting EDC pipeline for job ${job.id}`);
+
+    const { request, note } = prepareMarkdownRequest(job.request);
+    const {
+      extraction: extractionResult,
+      coreferences,
+      classifiedEntities,
+      classifiedRelationships,
+      attributeReports,
+      defineTimeMs,
+    } = await extractAndDefine(job.id, request, signal, note);
+
+    // Items rejected by schema validation are reported but do not block the rest
+    errors.push(...extractionResult.issues);
+
+    if (extractionResult.entities.length === 0) {
+      return {
+        result: {
+          jobId: job.id,
+          status: 'failed',
+          entitiesCreated: 0,
+          relationshipsCreated: 0,
+          extractionTimeMs: extractionResult.extractionTimeMs,
+          defineTimeMs: 0,
+          canonicalizeTimeMs: 0,
+          graphWriteTimeMs: 0,
+          totalTimeMs: Date.now() - startTime,
+          models: { extraction: extractionResult.models },
+          errors: ['No entities extracted from text', ...errors],
+        },
       };
     }
 
-    // STEP 2: DEFINE - Classify entities against ontology
-    const defineStart = Date.now();
-    const classifiedEntities = classifyEntities(extractionResult.entities);
-    const defineTimeMs = Date.now() - defineStart;
-
-    console.log(`[worker] Classified ${classifiedEntities.length} entities against ontology`);
+    signal.throwIfAborted();
 
     // STEP 3: CANONICALIZE - Merge duplicates and assign permanent IDs
+    reportStage(job.id, 'canonicalize', 'started');
     const canonicalizeStart = Date.now();
-    const canonicalEntities = await canonicalizeEntities(classifiedEntities);
+    const { entities: canonicalEntities, decisions: mergeDecisions } =
+      await canonicalizeEntities(classifiedEntities);
     const canonicalizeTimeMs = Date.now() - canonicalizeStart;
+    reportStage(job.id, 'canonicalize', 'finished', {
+      entities: canonicalEntities.length,
+      matchedExisting: canonicalEntities.filter((entity) => !entity.isNew).length,
+      mergeDecisions,
+    });
 
-    console.log(`[worker] Canonicalized to ${canonicalEntities.length} unique entities`);
+    console.log(
+      `[worker] Canonicalized to ${canonicalEntities.length} unique entities (${canonicalEntities.filter((entity) => !entity.isNew).length} matched existing nodes)`,
+    );
 
-    // Normalize relationship types
-    const normalizedRelationships = extractionResult.relationships.map((rel) => ({
-      from: rel.from,
-      to: rel.to,
-      type: normalizeRelationshipType(rel.type),
-    }));
+    const { resolved: resolvedRelationships, unresolved: unresolvedRelationships } =
+      resolveRelationships(classifiedRelationships, canonicalEntities);
 
-    // Resolve relationship references to canonical IDs
-    const resolvedRelationships = resolveRelationshipReferences(
-      normalizedRelationships,
-      canonicalEntities,
-    );
+    const sourceId = resolveSourceId(job.request, job.id);
+    signal.throwIfAborted();
+
+    // Items below their type's confidence threshold are held for review instead of written
+    const held = quarantineLowConfidence(canonicalEntities, resolvedRelationships, {
+      jobId: job.id,
+      sourceId,
+    });
+    const quarantined =
+      held.quarantined.length > 0 ? countQuarantined(held.quarantined) : undefined;
+
+    if (job.request.dryRun) {
+      const plan: GraphWritePlan = {
+        jobId: job.id,
+        sourceId,
+        entities: held.entities,
+        relationships: held.relationships,
+        quarantined: held.quarantined,
+      };
+      const diff = buildGraphDiff(plan, await loadGraphState(plan), unresolvedRelationships);
 
-    console.log(`[worker] Resolved ${resolvedRelationships.length} relationships to canonical IDs`);
+      console.log(
+        `[worker] Dry run: ${diff.newNodes.length} new nodes, ${diff.updatedNodes.length} updated, ${diff.newRelationships.length} new relationships`,
+      );
 
-    // STEP 4: WRITE - Persist to Neo4j knowledge graph
-    const graphWriteResult = await writeToGraph(canonicalEntities, resolvedRelationships);
+      return {
+        plan,
+        result: {
+          jobId: job.id,
+          sourceId,
+          status: errors.length > 0 ? 'partial' : 'completed',
+          dryRun: true,
+          diff,
+          entitiesCreated: 0,
+          relationshipsCreated: 0,
+          relationshipsUnresolved: unresolvedRelationships.length,
+          extractionTimeMs: extractionResult.extractionTimeMs,
+          defineTimeMs,
+          canonicalizeTimeMs,
+          graphWriteTimeMs: 0,
+          totalTimeMs: Date.now() - startTime,
+          models: { extraction: extractionResult.models },
+          coreferences: coreferences.length > 0 ? coreferences : undefined,
+          mergeDecisions,
+          attributeReports: attributeReports.length > 0 ? attributeReports : undefined,
+          quarantined,
+          unresolvedRelationships,
+          errors: errors.length > 0 ? errors : undefined,
+        },
+      };
+    }
+
+    // STEP 4: WRITE - Persist to Neo4j knowledge graph, then index into Qdrant
+    const written = await writeAndIndex(
+      buildSourceContext({ ...job, request }, sourceId),
+      held.entities,
+      held.relationships,
+      errors,
+    );
 
     return {
-      jobId: job.id,
-      status: 'completed',
-      entitiesCreated: graphWriteResult.nodesCreated,
-      relationshipsCreated: graphWriteResult.relationshipsCreated,
-      extractionTimeMs: extractionResult.extractionTimeMs,
-      defineTimeMs,
-      canonicalizeTimeMs,
-      graphWriteTimeMs: graphWriteResult.writeTimeMs,
-      totalTimeMs: Date.now() - startTime,
-      errors: errors.length > 0 ? errors : undefined,
+      quarantined: held.quarantined,
+      result: {
+        jobId: job.id,
+        sourceId,
+        status: errors.length > 0 ? 'partial' : 'completed',
+        revision: job.revision?.revision,
+        ...written,
+        relationshipsUnresolved: unresolvedRelationships.length,
+        extractionTimeMs: extractionResult.extractionTimeMs,
+        defineTimeMs,
+        canonicalizeTimeMs,
+        totalTimeMs: Date.now() - startTime,
+        models: { ...written.models, extraction: extractionResult.models },
+        coreferences: coreferences.length > 0 ? coreferences : undefined,
+        mergeDecisions,
+        attributeReports: attributeReports.length > 0 ? attributeReports : undefined,
+        quarantined,
+        unresolvedRelationships,
+        errors: errors.length > 0 ? errors : undefined,
+      },
     };
   } catch (error) {
+    if (signal.aborted) {
+      console.log(`[worker] Job ${job.id} cancelled`);
+      return { result: cancelledResult(job.id, startTime) };
+    }
+
     console.error('[worker] Ingestion pipeline failed:', error);
     return {
-      jobId: job.id,
-      status: 'failed',
-      entitiesCreated: 0,
-      relationshipsCreated: 0,
-      extractionTimeMs: 0,
-      defineTimeMs: 0,
-      canonicalizeTimeMs: 0,
-      graphWriteTimeMs: 0,
-      totalTimeMs: Date.now() - startTime,
-      errors: [error instanceof Error ? error.message : 'Unknown error'],
+      result: failedResult(job.id, startTime, [
+        error instanceof Error ? error.message : 'Unknown error',
+      ]),
     };
   }
 }
 
-self.onmessage = async (event: MessageEvent<WorkerJob>) => {
+interface BatchDocumentRun {
+  document: BatchDocument; // Markdown documents carry their rendered prose
+  note: MarkdownNote | null;
+  startTime: number;
+  errors: string[];
+  defined?: DefinedDocument;
+  temporaryIds: Set<string>;
+  entities: CanonicalEntity[];
+  relationships: ResolvedRelationship[];
+  quarantined: QuarantineEntry[];
+  result?: IngestionResult;
+}
+
+/**
+ * Process a batch: Extract and Define each document, Canonicalize all documents together so
+ * an entity shared between them gets one ID, then write each document under its own source
+ * A failing document only fails its own child job.
+ */
+async function processBatch(job: WorkerBatchJob, signal: AbortSignal): Promise<WorkerBatchResult> {
+  console.log(`[worker] Starting batch ${job.id} with ${job.documents.length} document(s)`);
+
+  const runs: BatchDocumentRun[] = job.documents.map((document) => {
+    const { request, note } = prepareMarkdownRequest(document.request);
+    return {
+      document: { jobId: document.jobId, request, revision: document.revision },
+      note,
+      startTime: Date.now(),
+      errors: [],
+      temporaryIds: new Set(),
+      entities: [],
+      relationships: [],
+      quarantined: [],
+    };
+  });
+  let canonicalizeTimeMs = 0;
+
+  try {
+    for (const [index, run] of runs.entries()) {
+      run.startTime = Date.now();
+      try {
+        const defined = await extractAndDefine(
+          run.document.jobId,
+          run.document.request,
+          signal,
+          run.note,
+        );
+        run.errors.push(...defined.extraction.issues);
+
+        if (defined.extraction.entities.length === 0) {
+          run.result = failedResult(run.document.jobId, run.startTime, [
+            'No entities extracted from text',
+            ...run.errors,
+          ]);
+          continue;
+        }
+
+        // Temporary IDs are only unique within one document
+        defined.classifiedEntities = defined.classifiedEntities.map((entity) => ({
+          ...entity,
+          id: `doc${index}_${entity.id}`,
+        }));
+        run.temporaryIds = new Set(defined.classifiedEntities.map((entity) => entity.id));
+        run.defined = defined;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error(`[worker] Extraction failed for job ${run.document.jobId}:`, error);
+        run.result = failedResult(run.document.jobId, run.startTime, [
+          error instanceof Error ? error.message : 'Unknown error',
+        ]);
+      }
+    }
+
+    signal.throwIfAborted();
+    const active = runs.filter((run) => run.defined && !run.result);
+
+    // STEP 3: CANONICALIZE - Across every document of the batch at once
+    for (const run of active) reportStage(run.document.jobId, 'canonicalize', 'started');
+    const canonicalizeStart = Date.now();
+    const { entities: canonicalEntities, decisions } = await canonicalizeEntities(
+      active.flatMap((run) => run.defined?.classifiedEntities ?? []),
+    );
+    canonicalizeTimeMs = Date.now() - canonicalizeStart;
+
+    for (const run of active) {
+      const mergeDecisions = decisions.filter((decision) =>
+        run.temporaryIds.has(decision.entityId),
+      );
+      reportStage(run.document.jobId, 'canonicalize', 'finished', {
+        entities: new Set(mergeDecisions.map((decision) => decision.canonicalId)).size,
+        batchEntities: canonicalEntities.length,
+        mergeDecisions,
+      });
+    }
+
+    console.log(
+      `[worker] Canonicalized batch ${job.id} to ${canonicalEntities.length} unique entities`,
+    );
+
+    signal.throwIfAborted();
+
+    // STEP 4: WRITE - Each document under its own source, so provenance stays per document
+    for (const run of active) {
+      const defined = run.defined as DefinedDocument;
+      const { resolved, unresolved } = resolveRelationships(
+        defined.classifiedRelationships,
+        canonicalEntities,
+      );
+      const sourceId = resolveSourceId(run.document.request, run.document.jobId);
+      const held = quarantineLowConfidence(
+        selectDocumentEntities(canonicalEntities, run.temporaryIds, resolved),
+        resolved,
+        { jobId: run.document.jobId, sourceId },
+      );
+      const mergeDecisions = decisions.filter((decision) =>
+        run.temporaryIds.has(decision.entityId),
+      );
+
+      try {
+        const written = await writeAndIndex(
+          buildSourceContext(run.document, sourceId),
+          held.entities,
+          held.relationships,
+          run.errors,
+        );
+        run.entities = held.entities;
+        run.relationships = held.relationships;
+        run.quarantined = held.quarantined;
+        run.result = {
+          jobId: run.document.jobId,
+          sourceId,
+          status: run.errors.length > 0 ? 'partial' : 'completed',
+          revision: run.document.revision?.revision,
+          ...written,
+          relationshipsUnresolved: unresolved.length,
+          extractionTimeMs: defined.extraction.extractionTimeMs,
+          defineTimeMs: defined.defineTimeMs,
+          canonicalizeTimeMs,
+          totalTimeMs: Date.now() - run.startTime,
+          models: { ...written.models, extraction: defined.extraction.models },
+          coreferences: defined.coreferences.length > 0 ? defined.coreferences : undefined,
+          mergeDecisions,
+          attributeReports:
+            defined.attributeReports.length > 0 ? defined.attributeReports : undefined,
+          quarantined: held.quarantined.length > 0 ? countQuarantined(held.quarantined) : undefined,
+          unresolvedRelationships: unresolved,
+          errors: run.errors.length > 0 ? run.errors : undefined,
+        };
+      } catch (error) {
+        console.error(`[worker] Graph write failed for job ${run.document.jobId}:`, error);
+        run.result = failedResult(run.document.jobId, run.startTime, [
+          error instanceof Error ? error.message : 'Unknown error',
+          ...run.errors,
+        ]);
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error(`[worker] Batch ${job.id} failed:`, error);
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    for (const run of runs) {
+      run.result ??= signal.aborted
+        ? cancelledResult(run.document.jobId, run.startTime)
+        : failedResult(run.document.jobId, run.startTime, [message, ...run.errors]);
+    }
+  }
+
+  return {
+    type: 'batch-result',
+    jobId: job.id,
+    results: runs.map(
+      (run) =>
+        run.result ?? failedResult(run.document.jobId, run.startTime, ['Document not processed']),
+    ),
+    report: buildBatchReport(
+      runs.map((run) => ({
+        jobId: run.document.jobId,
+        entities: run.entities,
+        relationships: run.relationships,
+      })),
+      canonicalizeTimeMs,
+    ),
+    quarantined: runs.flatMap((run) => run.quarantined),
+  };
+}
+
+self.onmessage = async (event: MessageEvent<WorkerCommand>) => {
+  if (event.data && 'type' in event.data) {
+    controllers.get(event.data.jobId)?.abort();
+    return;
+  }
+
+  if (event.data && 'documents' in event.data) {
+    const batch = event.data;
+    const controller = new AbortController();
+    controllers.set(batch.id, controller);
+    const message = await processBatch(batch, controller.signal);
+    controllers.delete(batch.id);
+    for (const document of batch.documents) stageStarts.delete(document.jobId);
+    self.postMessage(message satisfies WorkerBatchResult);
+    return;
+  }
+
   const job = event.data;
 
   if (!job || !job.id || !job.request) {
     console.error('[worker] Invalid job received:', job);
     self.postMessage({
+      type: 'result',
       jobId: 'unknown',
       result: {
         jobId: 'unknown',
@@ -129,10 +824,30 @@ self.onmessage = async (event: MessageEvent<WorkerJob>) => {
     return;
   }
 
-  const result = await processIngestion(job);
+  if (job.plan) {
+    // Preview commits go straight to the write stage, so there is nothing left to cancel
+    const { result, quarantined } = await commitPlan(job, job.plan);
+    stageStarts.delete(job.id);
+    self.postMessage({
+      type: 'result',
+      jobId: job.id,
+      result,
+      quarantined,
+    } satisfies WorkerResult);
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  const { result, plan, quarantined } = await processIngestion(job, controller.signal);
+  controllers.delete(job.id);
+  stageStarts.delete(job.id);
 
   self.postMessage({
+    type: 'result',
     jobId: job.id,
     result,
+    plan,
+    quarantined,
   } satisfies WorkerResult);
 };
@@ -67,7 +67,7 @@ function App() {
 
               {activeJobId && (
                 <div style={{ marginTop: '24px' }}>
-                  <JobStatus jobId={activeJobId} />
+                  <JobStatus jobId={activeJobId} onRetried={setActiveJobId} />
                 </div>
               )}
             </div>
@@ -2,17 +2,100 @@
  * Job Status Tracker - Monitor ingestion job progress
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { getJobStatus } from '../lib/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import {
+  cancelJob,
+  FINISHED_STATUSES,
+  getJobStatus,
+  type IngestionJob,
+  type JobStageEvent,
+  PIPELINE_STAGES,
+  retryJob,
+  subscribeToJobEvents,
+} from '../lib/api';
+
+/**
+ * Per-stage progress from live events, falling back to the stored stage timestamps
+ */
+function PipelineProgress({ job, events }: { job: IngestionJob; events: JobStageEvent[] }) {
+  return (
+    <ul style={{ listStyle: 'none', padding: 0, margin: '8px 0', fontSize: '13px' }}>
+      {PIPELINE_STAGES.map((stage) => {
+        const latest = events.filter((event) => event.stage === stage).at(-1);
+        const stored = job.stages?.[stage];
+        const finished = latest ? latest.phase === 'finished' : Boolean(stored?.finishedAt);
+        const started = Boolean(latest) || Boolean(stored?.startedAt);
+
+        const durationMs =
+          latest?.durationMs ??
+          (stored?.startedAt && stored.finishedAt
+            ? Date.parse(stored.finishedAt) - Date.parse(stored.startedAt)
+            : undefined);
+
+        const counts = Object.entries(latest?.details ?? {})
+          .filter(([, value]) => typeof value === 'number')
+          .map(([key, value]) => `${value} ${key}`)
+          .join(', ');
+
+        return (
+          <li key={stage} style={{ margin: '2px 0', color: started ? '#222' : '#999' }}>
+            {finished ? '✓' : started ? '…' : '○'} {stage}
+            {finished && durationMs !== undefined && ` — ${durationMs}ms`}
+            {counts && ` (${counts})`}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function JobStatus({
+  jobId,
+  onRetried,
+}: {
+  jobId: string;
+  onRetried?: (jobId: string) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [stageEvents, setStageEvents] = useState<JobStageEvent[]>([]);
+  const [live, setLive] = useState(false);
+
+  // Live progress replaces polling once the stream delivers its first snapshot; the stream
+  // closes itself once the job finishes
+  useEffect(() => {
+    setStageEvents([]);
+    setLive(false);
+    return subscribeToJobEvents(jobId, {
+      onSnapshot: (job) => {
+        setLive(true);
+        queryClient.setQueryData(['job', jobId], job);
+      },
+      onStage: (event) => setStageEvents((previous) => [...previous, event]),
+      onRequeued: () => {
+        setStageEvents([]);
+        queryClient.invalidateQueries({ queryKey: ['job', jobId] });
+      },
+      onFinished: () => queryClient.invalidateQueries({ queryKey: ['job', jobId] }),
+      onError: () => setLive(false),
+    });
+  }, [jobId, queryClient]);
+  const cancel = useMutation({
+    mutationFn: () => cancelJob(jobId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['job', jobId] }),
+  });
+  const retry = useMutation({
+    mutationFn: () => retryJob(jobId),
+    onSuccess: (data) => onRetried?.(data.jobId),
+  });
 
-export function JobStatus({ jobId }: { jobId: string }) {
   const { data, isLoading, error } = useQuery({
     queryKey: ['job', jobId],
     queryFn: () => getJobStatus(jobId),
+    // Poll while no stream delivers updates: it failed, or a proxy is buffering it
     refetchInterval: (query) => {
-      const data = query.state.data;
-      // Stop polling if job is completed or failed
-      if (data?.status === 'completed' || data?.status === 'failed') {
+      const status = query.state.data?.status;
+      if (live || (status && FINISHED_STATUSES.has(status))) {
         return false;
       }
       return 2000; // Poll every 2 seconds
@@ -40,13 +123,18 @@ export function JobStatus({ jobId }: { jobId: string }) {
   }
 
   const statusColors = {
-    pending: '#FFA500',
+    queued: '#FFA500',
     processing: '#2196F3',
     completed: '#4CAF50',
     partial: '#FF9800',
     failed: '#f44336',
+    cancelled: '#9E9E9E',
   };
 
+  const canCancel = data.status === 'queued' || data.status === 'processing';
+  const canRetry =
+    data.status === 'failed' || data.status === 'partial' || data.status === 'cancelled';
+
   const statusColor = statusColors[data.status];
 
   return (
@@ -75,15 +163,33 @@ export function JobStatus({ jobId }: { jobId: string }) {
         >
           {data.status}
         </span>
+        {canCancel && (
+          <button type="button" onClick={() => cancel.mutate()} disabled={cancel.isPending}>
+            Cancel
+          </button>
+        )}
+        {canRetry && (
+          <button type="button" onClick={() => retry.mutate()} disabled={retry.isPending}>
+            Retry
+          </button>
+        )}
       </div>
 
+      {data.retryOf && (
+        <p style={{ margin: '0 0 8px', fontSize: '12px', color: '#666' }}>
+          Retry of job {data.retryOf.slice(0, 8)}...
+        </p>
+      )}
+
       {data.status === 'completed' && (
         <div style={{ fontSize: '14px' }}>
           <p style={{ margin: '4px 0' }}>
             <strong>Entities created:</strong> {data.entitiesCreated || 0}
+            {data.entitiesUpdated ? ` (${data.entitiesUpdated} updated)` : ''}
           </p>
           <p style={{ margin: '4px 0' }}>
             <strong>Relationships created:</strong> {data.relationshipsCreated || 0}
+            {data.relationshipsUpdated ? ` (${data.relationshipsUpdated} updated)` : ''}
           </p>
           <p style={{ margin: '4px 0' }}>
             <strong>Total time:</strong> {data.totalTimeMs}ms
@@ -97,6 +203,9 @@ export function JobStatus({ jobId }: { jobId: string }) {
               <li>Definition: {data.defineTimeMs}ms</li>
               <li>Canonicalization: {data.canonicalizeTimeMs}ms</li>
               <li>Graph Write: {data.graphWriteTimeMs}ms</li>
+              {data.vectorWriteTimeMs !== undefined && (
+                <li>Vector Index: {data.vectorWriteTimeMs}ms</li>
+              )}
             </ul>
           </details>
         </div>
@@ -113,29 +222,8 @@ export function JobStatus({ jobId }: { jobId: string }) {
         </div>
       )}
 
-      {data.status === 'processing' && (
-        <div style={{ fontSize: '14px' }}>
-          <p>Processing your lore... This may take a few moments.</p>
-          <div
-            style={{
-              width: '100%',
-              height: '4px',
-              backgroundColor: '#e0e0e0',
-              borderRadius: '2px',
-              overflow: 'hidden',
-              marginTop: '8px',
-            }}
-          >
-            <div
-              style={{
-                width: '30%',
-                height: '100%',
-                backgroundColor: statusColor,
-                animation: 'progress 1.5s ease-in-out infinite',
-              }}
-            />
-          </div>
-        </div>
+      {(data.status === 'processing' || stageEvents.length > 0) && (
+        <PipelineProgress job={data} events={stageEvents} />
       )}
     </div>
   );
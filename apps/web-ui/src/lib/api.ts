@@ -23,17 +23,36 @@ export interface IngestionRequest {
   metadata?: Record<string, unknown>;
 }
 
+export type PipelineStage = 'extract' | 'define' | 'canonicalize' | 'write' | 'index';
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'extract',
+  'define',
+  'canonicalize',
+  'write',
+  'index',
+];
+
 export interface IngestionJob {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'partial' | 'failed' | 'cancelled';
   entitiesCreated?: number;
+  entitiesUpdated?: number;
   relationshipsCreated?: number;
+  relationshipsUpdated?: number;
   extractionTimeMs?: number;
   defineTimeMs?: number;
   canonicalizeTimeMs?: number;
   graphWriteTimeMs?: number;
+  vectorWriteTimeMs?: number;
   totalTimeMs?: number;
   errors?: string[];
+  stages?: Partial<Record<PipelineStage, { startedAt?: string; finishedAt?: string }>>;
+  createdAt?: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  retryOf?: string | null;
+  retriedBy?: string[];
 }
 
 export async function submitLore(request: IngestionRequest): Promise<{ jobId: string }> {
@@ -46,6 +65,74 @@ export async function getJobStatus(jobId: string): Promise<IngestionJob> {
   return response.data;
 }
 
+export async function cancelJob(jobId: string): Promise<{ jobId: string; status: string }> {
+  const response = await apiClient.post<{ jobId: string; status: string }>(`/jobs/${jobId}/cancel`);
+  return response.data;
+}
+
+export async function retryJob(jobId: string): Promise<{ jobId: string; retryOf: string }> {
+  const response = await apiClient.post<{ jobId: string; retryOf: string }>(`/jobs/${jobId}/retry`);
+  return response.data;
+}
+
+/**
+ * Live job progress - Server-Sent Events from GET /jobs/:jobId/events
+ */
+export interface JobStageEvent {
+  type: 'stage';
+  jobId: string;
+  stage: PipelineStage;
+  phase: 'started' | 'finished';
+  timestamp: string;
+  durationMs?: number;
+  details?: Record<string, unknown>;
+}
+
+export interface JobEventHandlers {
+  onSnapshot: (job: IngestionJob) => void;
+  onStage: (event: JobStageEvent) => void;
+  onRequeued: (reason: string) => void;
+  onFinished: () => void;
+  onError: () => void;
+}
+
+export const FINISHED_STATUSES = new Set(['completed', 'partial', 'failed', 'cancelled']);
+
+/**
+ * Follow a job's pipeline live; returns a function that closes the stream
+ * The stream is closed once the job finishes so EventSource does not reconnect. A failed
+ * stream is closed too and reported through `onError`, so callers can poll instead.
+ */
+export function subscribeToJobEvents(jobId: string, handlers: JobEventHandlers): () => void {
+  const source = new EventSource(`${API_BASE_URL}/jobs/${jobId}/events`, {
+    withCredentials: true,
+  });
+
+  source.addEventListener('snapshot', (event) => {
+    const job = JSON.parse(event.data) as IngestionJob;
+    handlers.onSnapshot(job);
+    if (FINISHED_STATUSES.has(job.status)) {
+      source.close();
+    }
+  });
+  source.addEventListener('stage', (event) => {
+    handlers.onStage(JSON.parse(event.data) as JobStageEvent);
+  });
+  source.addEventListener('requeued', (event) => {
+    handlers.onRequeued((JSON.parse(event.data) as { reason: string }).reason);
+  });
+  source.addEventListener('result', () => {
+    source.close();
+    handlers.onFinished();
+  });
+  source.addEventListener('error', () => {
+    source.close();
+    handlers.onError();
+  });
+
+  return () => source.close();
+}
+
 /**
  * Knowledge Graph API - Query entities and relationships
  */
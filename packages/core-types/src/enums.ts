@@ -30,12 +30,3 @@ export enum EventType {
   Diplomacy = 'DIPLOMACY',
   Catastrophe = 'CATASTROPHE',
 }
-
-export enum RelationshipType {
-  ControlsResource = 'CONTROLS_RESOURCE',
-  IsAllyOf = 'IS_ALLY_OF',
-  ParticipatedIn = 'PARTICIPATED_IN',
-  LocatedIn = 'LOCATED_IN',
-  Commands = 'COMMANDS',
-  MemberOf = 'MEMBER_OF',
-}
@@ -47,6 +47,8 @@ export const FaithfulnessResultSchema = z.object({
   totalClaims: z.number(),
   groundedClaims: z.number(),
   ungroundedClaims: z.number(),
+  model: z.string().optional(), // Judge model that answered, or the last one tried
+  timedOut: z.array(z.string()).optional(), // Judge models that timed out first
   evaluationTimeMs: z.number(),
 });
 
@@ -59,6 +61,8 @@ export const EvidenceCoverageResultSchema = z.object({
   coveredPoints: z.number(),
   missedPoints: z.array(z.string()),
   reasoning: z.string(),
+  model: z.string().optional(), // Judge model that answered, or the last one tried
+  timedOut: z.array(z.string()).optional(), // Judge models that timed out first
   evaluationTimeMs: z.number(),
 });
 
@@ -70,6 +74,8 @@ export const AnswerAccuracyResultSchema = z.object({
   semanticSimilarity: z.number().min(0).max(1),
   factualConsistency: z.number().min(0).max(1),
   reasoning: z.string(),
+  model: z.string().optional(), // Judge model that answered, or the last one tried
+  timedOut: z.array(z.string()).optional(), // Judge models that timed out first
   evaluationTimeMs: z.number(),
 });
 
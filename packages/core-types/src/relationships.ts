@@ -1,60 +1,11 @@
-import type { RelationshipType } from './enums';
-
-type RelationshipDirection<From extends string, To extends string> = {
-  from: From;
-  to: To;
+/**
+ * A typed relationship between two entity labels
+ * The types, the labels each may connect and their default properties come from the world
+ * ontology in @ace/ontology.
+ */
+export type KnowledgeGraphRelationship = {
+  type: string;
+  from: string;
+  to: string;
+  properties: Record<string, string | number | boolean>;
 };
-
-type RelationshipProperties<T extends object = Record<string, never>> = T;
-
-export type ControlsResourceRelationship = RelationshipDirection<'Faction', 'Resource'> & {
-  type: RelationshipType.ControlsResource;
-  properties: RelationshipProperties<{
-    since?: string;
-  }>;
-};
-
-export type IsAllyOfRelationship = RelationshipDirection<'Faction', 'Faction'> & {
-  type: RelationshipType.IsAllyOf;
-  properties: RelationshipProperties<{
-    treatyName?: string;
-    since?: string;
-  }>;
-};
-
-export type ParticipatedInRelationship = RelationshipDirection<
-  'Character' | 'Faction',
-  'HistoricalEvent'
-> & {
-  type: RelationshipType.ParticipatedIn;
-  properties: RelationshipProperties<{
-    role?: string;
-  }>;
-};
-
-export type LocatedInRelationship = RelationshipDirection<'Resource' | 'Faction', 'Location'> & {
-  type: RelationshipType.LocatedIn;
-  properties: RelationshipProperties;
-};
-
-export type CommandsRelationship = RelationshipDirection<'Faction', 'Character'> & {
-  type: RelationshipType.Commands;
-  properties: RelationshipProperties<{
-    rank?: string;
-  }>;
-};
-
-export type MemberOfRelationship = RelationshipDirection<'Character', 'Faction'> & {
-  type: RelationshipType.MemberOf;
-  properties: RelationshipProperties<{
-    joinDate?: string;
-  }>;
-};
-
-export type KnowledgeGraphRelationship =
-  | ControlsResourceRelationship
-  | IsAllyOfRelationship
-  | ParticipatedInRelationship
-  | LocatedInRelationship
-  | CommandsRelationship
-  | MemberOfRelationship;
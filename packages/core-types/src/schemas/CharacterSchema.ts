@@ -1,10 +1,11 @@
 import { z } from 'zod';
 
-import { RelationshipType } from '../enums';
-
 const CharacterRelationshipSchema = z.object({
   character_id: z.string().min(1, 'Related character id is required'),
-  type: z.nativeEnum(RelationshipType),
+  type: z
+    .string()
+    .min(1, 'Relationship type is required')
+    .describe('A relationship type of the world ontology, such as MEMBER_OF'),
   description: z
     .string()
     .min(1, 'Relationship description is required')
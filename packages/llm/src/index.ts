@@ -0,0 +1,6 @@
+export * from './mock';
+export * from './ollama';
+export * from './openai';
+export * from './provider';
+export * from './routing';
+export * from './types';
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+
+import { hashEmbedding, MockLLMProvider } from './mock';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+}
+
+describe('MockLLMProvider', () => {
+  it('replays the first matching fixture and repeats its last response', async () => {
+    const llm = new MockLLMProvider({
+      fixtures: [
+        {
+          match: 'Extract entities',
+          format: 'json',
+          response: ['{"attempt": 1}', '{"attempt": 2}'],
+        },
+        { match: 'Extract entities', response: 'plain text' },
+      ],
+    });
+
+    const replies = [];
+    for (let call = 0; call < 3; call++) {
+      replies.push(
+        (await llm.generate({ prompt: 'Extract entities from: ...', format: 'json' })).text,
+      );
+    }
+    const chat = await llm.chat({ messages: [{ role: 'user', content: 'Extract entities now' }] });
+
+    expect(replies).toEqual(['{"attempt": 1}', '{"attempt": 2}', '{"attempt": 2}']);
+    expect(chat.text).toBe('plain text');
+    expect(llm.calls.map((call) => call.kind)).toEqual([
+      'generate',
+      'generate',
+      'generate',
+      'chat',
+    ]);
+  });
+
+  it('answers unmatched prompts with an empty object in JSON mode', async () => {
+    const llm = new MockLLMProvider({ model: 'llama3.2:3b' });
+
+    const json = await llm.generate({ prompt: 'anything', format: 'json' });
+    const text = await llm.chat({ model: 'judge', messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(json).toEqual({ text: '{}', model: 'llama3.2:3b', durationMs: 0 });
+    expect(text).toMatchObject({ text: '', model: 'judge' });
+  });
+
+  it('rejects requests whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      new MockLLMProvider().generate({ prompt: 'x', signal: controller.signal }),
+    ).rejects.toThrow();
+  });
+});
+
+describe('hashEmbedding', () => {
+  it('is deterministic, normalized and closer for texts sharing words', () => {
+    const oath = hashEmbedding('swore an oath of fealty', 64);
+    const fealty = hashEmbedding('pledged fealty by oath', 64);
+    const trade = hashEmbedding('sells grain to merchants', 64);
+
+    expect(hashEmbedding('swore an oath of fealty', 64)).toEqual(oath);
+    expect(cosine(oath, oath)).toBeCloseTo(1);
+    expect(cosine(oath, fealty)).toBeGreaterThan(cosine(oath, trade));
+  });
+});
@@ -0,0 +1,125 @@
+import { readFileSync } from 'node:fs';
+import {
+  type ChatRequest,
+  type CompletionResult,
+  type EmbeddingResult,
+  type EmbedRequest,
+  type GenerateRequest,
+  type LLMProvider,
+  type MockFixture,
+  type MockFixtureFile,
+  MockFixtureFileSchema,
+} from './types';
+
+export interface MockProviderOptions {
+  fixtures?: MockFixture[];
+  fallback?: string; // Response when no fixture matches; `{}` in JSON mode, '' otherwise
+  model?: string;
+  embeddingModel?: string;
+  embeddingDimension?: number;
+}
+
+/**
+ * Call received by the mock provider, for assertions in tests
+ */
+export interface MockCall {
+  kind: 'generate' | 'chat' | 'embed';
+  model: string;
+  prompt: string;
+  format?: 'json';
+}
+
+/**
+ * Read and validate a fixture file for the mock provider
+ */
+export function loadMockFixtures(path: string): MockFixtureFile {
+  const parsed = MockFixtureFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+    throw new Error(`Invalid LLM fixtures ${path}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Deterministic bag-of-words embedding: each word adds ±1 to a hashed dimension
+ * Texts sharing words point the same way, so similarity search behaves plausibly offline.
+ */
+export function hashEmbedding(text: string, dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const digest = new Bun.CryptoHasher('sha256').update(word).digest();
+    const index = digest.readUInt32BE(0) % dimension;
+    vector[index] = (vector[index] ?? 0) + ((digest[4] ?? 0) & 1 ? 1 : -1);
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Offline provider replaying canned responses, so pipelines run in tests without a model
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly calls: MockCall[] = [];
+  private readonly fixtures: MockFixture[];
+  private readonly replayed = new Map<MockFixture, number>();
+
+  constructor(private readonly options: MockProviderOptions = {}) {
+    this.fixtures = options.fixtures ?? [];
+  }
+
+  private respond(call: MockCall): CompletionResult {
+    this.calls.push(call);
+    const format = call.format ?? 'text';
+    const fixture = this.fixtures.find(
+      (candidate) =>
+        (candidate.match === undefined || call.prompt.includes(candidate.match)) &&
+        (candidate.format === undefined || candidate.format === format),
+    );
+
+    let text = this.options.fallback ?? (format === 'json' ? '{}' : '');
+    if (fixture) {
+      const responses = Array.isArray(fixture.response) ? fixture.response : [fixture.response];
+      const count = this.replayed.get(fixture) ?? 0;
+      this.replayed.set(fixture, count + 1);
+      text = responses[Math.min(count, responses.length - 1)] as string;
+    }
+
+    return { text, model: call.model, durationMs: 0 };
+  }
+
+  async generate(request: GenerateRequest): Promise<CompletionResult> {
+    request.signal?.throwIfAborted();
+    return this.respond({
+      kind: 'generate',
+      model: request.model ?? this.options.model ?? 'mock',
+      prompt: request.system ? `${request.system}\n\n${request.prompt}` : request.prompt,
+      format: request.format,
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<CompletionResult> {
+    request.signal?.throwIfAborted();
+    return this.respond({
+      kind: 'chat',
+      model: request.model ?? this.options.model ?? 'mock',
+      prompt: request.messages.map((message) => message.content).join('\n\n'),
+      format: request.format,
+    });
+  }
+
+  async embed(request: EmbedRequest): Promise<EmbeddingResult> {
+    request.signal?.throwIfAborted();
+    const model = request.model ?? this.options.embeddingModel ?? 'mock-embedding';
+    this.calls.push({ kind: 'embed', model, prompt: request.input });
+    return {
+      embedding: hashEmbedding(request.input, this.options.embeddingDimension ?? 768),
+      model,
+      durationMs: 0,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { Ollama } from 'ollama';
+import type {
+  ChatRequest,
+  CompletionResult,
+  EmbeddingResult,
+  EmbedRequest,
+  GenerateRequest,
+  LLMOptions,
+  LLMProvider,
+} from './types';
+
+export interface OllamaProviderOptions {
+  host: string;
+  model: string;
+  embeddingModel: string;
+  fetch?: typeof fetch;
+}
+
+function toOllamaOptions(options: LLMOptions = {}) {
+  return {
+    temperature: options.temperature,
+    top_p: options.topP,
+    num_predict: options.maxTokens,
+    num_ctx: options.contextWindow,
+  };
+}
+
+/**
+ * Provider backed by a local Ollama server
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+  private readonly ollama: Ollama;
+
+  constructor(private readonly options: OllamaProviderOptions) {
+    this.ollama = new Ollama({ host: options.host, fetch: options.fetch });
+  }
+
+  /**
+   * Client whose HTTP requests are aborted by the signal
+   * The client's own abort() only reaches streamed requests, so the signal is injected into fetch
+   */
+  private client(signal?: AbortSignal): Ollama {
+    if (!signal) return this.ollama;
+
+    const baseFetch = this.options.fetch ?? fetch;
+    return new Ollama({
+      host: this.options.host,
+      fetch: Object.assign(
+        (input: RequestInfo | URL, init?: RequestInit) => baseFetch(input, { ...init, signal }),
+        { preconnect: fetch.preconnect },
+      ),
+    });
+  }
+
+  async generate(request: GenerateRequest): Promise<CompletionResult> {
+    const startTime = Date.now();
+    const model = request.model ?? this.options.model;
+    const response = await this.client(request.signal).generate({
+      model,
+      prompt: request.prompt,
+      system: request.system,
+      format: request.format,
+      options: toOllamaOptions(request.options),
+    });
+
+    return {
+      text: response.response,
+      model,
+      durationMs: Date.now() - startTime,
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count,
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<CompletionResult> {
+    const startTime = Date.now();
+    const model = request.model ?? this.options.model;
+    const response = await this.client(request.signal).chat({
+      model,
+      messages: request.messages,
+      format: request.format,
+      options: toOllamaOptions(request.options),
+    });
+
+    return {
+      text: response.message.content,
+      model,
+      durationMs: Date.now() - startTime,
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count,
+    };
+  }
+
+  async embed(request: EmbedRequest): Promise<EmbeddingResult> {
+    const startTime = Date.now();
+    const model = request.model ?? this.options.embeddingModel;
+    const response = await this.client(request.signal).embeddings({
+      model,
+      prompt: request.input,
+    });
+
+    return { embedding: response.embedding, model, durationMs: Date.now() - startTime };
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test';
+
+import { OpenAICompatibleProvider } from './openai';
+
+/**
+ * fetch stand-in recording requests and answering each with the next canned body
+ */
+function scriptedFetch(bodies: unknown[], status = 200) {
+  const requests: Array<{ url: string; headers: Record<string, string>; body: unknown }> = [];
+  const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({
+      url: String(input),
+      headers: init?.headers as Record<string, string>,
+      body: JSON.parse(String(init?.body)),
+    });
+    return new Response(JSON.stringify(bodies[requests.length - 1] ?? {}), { status });
+  }) as typeof fetch;
+  return { fetcher, requests };
+}
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends prompts as chat completions with JSON mode and sampling options', async () => {
+    const { fetcher, requests } = scriptedFetch([
+      {
+        choices: [{ message: { content: '{"ok": true}' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 4 },
+      },
+    ]);
+    const llm = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1/',
+      apiKey: 'secret',
+      model: 'qwen2.5',
+      embeddingModel: 'bge-small',
+      fetch: fetcher,
+    });
+
+    const result = await llm.generate({
+      system: 'You extract lore.',
+      prompt: 'The Crimson Empire.',
+      format: 'json',
+      options: { temperature: 0.3, maxTokens: 2000 },
+    });
+
+    expect(requests[0]?.url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(requests[0]?.headers.Authorization).toBe('Bearer secret');
+    expect(requests[0]?.body).toEqual({
+      model: 'qwen2.5',
+      messages: [
+        { role: 'system', content: 'You extract lore.' },
+        { role: 'user', content: 'The Crimson Empire.' },
+      ],
+      temperature: 0.3,
+      max_tokens: 2000,
+      response_format: { type: 'json_object' },
+    });
+    expect(result).toMatchObject({
+      text: '{"ok": true}',
+      model: 'qwen2.5',
+      promptTokens: 12,
+      completionTokens: 4,
+    });
+  });
+
+  it('embeds with the default embedding model and reports failed requests', async () => {
+    const { fetcher, requests } = scriptedFetch([{ data: [{ embedding: [0.1, 0.2] }] }]);
+    const llm = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'qwen2.5',
+      embeddingModel: 'bge-small',
+      fetch: fetcher,
+    });
+
+    expect((await llm.embed({ input: 'oath' })).embedding).toEqual([0.1, 0.2]);
+    expect(requests[0]?.body).toEqual({ model: 'bge-small', input: 'oath' });
+
+    const failing = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'qwen2.5',
+      embeddingModel: 'bge-small',
+      fetch: scriptedFetch([{ error: 'overloaded' }], 503).fetcher,
+    });
+    await expect(failing.chat({ messages: [] })).rejects.toThrow('failed with 503');
+  });
+});
@@ -0,0 +1,104 @@
+import type {
+  ChatRequest,
+  CompletionResult,
+  EmbeddingResult,
+  EmbedRequest,
+  GenerateRequest,
+  LLMMessage,
+  LLMProvider,
+} from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ embedding: number[] }>;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions and embeddings API
+ * (OpenAI, vLLM, LM Studio, llama.cpp server, Ollama's /v1 endpoint)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {}
+
+  private async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await (this.options.fetch ?? fetch)(
+      `${this.options.baseUrl.replace(/\/+$/, '')}${path}`,
+      { method: 'POST', headers, body: JSON.stringify(body), signal },
+    );
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM request to ${path} failed with ${response.status}: ${detail}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  generate(request: GenerateRequest): Promise<CompletionResult> {
+    const messages: LLMMessage[] = request.system
+      ? [{ role: 'system', content: request.system }]
+      : [];
+    messages.push({ role: 'user', content: request.prompt });
+    return this.chat({ ...request, messages });
+  }
+
+  async chat(request: ChatRequest): Promise<CompletionResult> {
+    const startTime = Date.now();
+    const model = request.model ?? this.options.model;
+    const { temperature, topP, maxTokens } = request.options ?? {};
+
+    const response = await this.post<ChatCompletionResponse>(
+      '/chat/completions',
+      {
+        model,
+        messages: request.messages,
+        temperature,
+        top_p: topP,
+        max_tokens: maxTokens,
+        response_format: request.format === 'json' ? { type: 'json_object' } : undefined,
+      },
+      request.signal,
+    );
+
+    return {
+      text: response.choices[0]?.message.content ?? '',
+      model,
+      durationMs: Date.now() - startTime,
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens,
+    };
+  }
+
+  async embed(request: EmbedRequest): Promise<EmbeddingResult> {
+    const startTime = Date.now();
+    const model = request.model ?? this.options.embeddingModel;
+    const response = await this.post<EmbeddingsResponse>(
+      '/embeddings',
+      { model, input: request.input },
+      request.signal,
+    );
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error('LLM embeddings response has no embedding');
+    }
+    return { embedding, model, durationMs: Date.now() - startTime };
+  }
+}
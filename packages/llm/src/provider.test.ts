@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+
+import { MockLLMProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { createLLMProvider, loadLLMConfig } from './provider';
+
+describe('loadLLMConfig', () => {
+  it('defaults to the local Ollama models', () => {
+    const { stages, ...config } = loadLLMConfig({});
+
+    expect(config).toEqual({
+      provider: 'ollama',
+      model: 'llama3.2:3b',
+      embeddingModel: 'nomic-embed-text',
+      ollamaHost: 'http://localhost:11434',
+      baseUrl: 'https://api.openai.com/v1',
+    });
+    expect(stages.extraction).toMatchObject({ model: 'llama3.2:3b', fallbackModels: [] });
+    expect(stages.embedding.model).toBe('nomic-embed-text');
+  });
+
+  it('reads the models and sampling of each stage', () => {
+    const { stages } = loadLLMConfig({
+      LLM_MODEL: 'llama3.1:8b',
+      LLM_EXTRACTION_MODEL: 'qwen2.5:14b',
+      LLM_EXTRACTION_FALLBACK_MODELS: 'llama3.1:8b, llama3.2:3b',
+      LLM_EXTRACTION_CONTEXT_WINDOW: '16384',
+      LLM_EXTRACTION_TIMEOUT_MS: '45000',
+      LLM_JUDGING_TEMPERATURE: '0',
+    });
+
+    expect(stages.extraction).toEqual({
+      model: 'qwen2.5:14b',
+      fallbackModels: ['llama3.1:8b', 'llama3.2:3b'],
+      temperature: 0.3,
+      contextWindow: 16384,
+      maxTokens: 2000,
+      timeoutMs: 45000,
+    });
+    expect(stages.narration.model).toBe('llama3.1:8b');
+    expect(stages.judging.temperature).toBe(0);
+    expect(() => loadLLMConfig({ LLM_NARRATION_TOP_P: '1.5' })).toThrow(
+      'Invalid LLM configuration: stages.narration.topP',
+    );
+  });
+
+  it('selects the provider named by the environment', () => {
+    const openai = createLLMProvider(
+      loadLLMConfig({ LLM_PROVIDER: 'openai', LLM_BASE_URL: 'http://vllm:8000/v1' }),
+    );
+    const mock = createLLMProvider(loadLLMConfig({ LLM_PROVIDER: 'mock' }));
+
+    expect(openai).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(mock).toBeInstanceOf(MockLLMProvider);
+    expect(() => loadLLMConfig({ LLM_PROVIDER: 'gpt' })).toThrow('Invalid LLM configuration');
+  });
+});
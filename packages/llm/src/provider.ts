@@ -0,0 +1,144 @@
+import { loadMockFixtures, MockLLMProvider } from './mock';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai';
+import {
+  type LLMConfig,
+  LLMConfigSchema,
+  type LLMProvider,
+  type LLMStage,
+  type ModelSettings,
+} from './types';
+
+/**
+ * Settings of each stage that the environment does not set, besides the models
+ */
+const STAGE_DEFAULTS: Record<LLMStage, Omit<ModelSettings, 'model' | 'fallbackModels'>> = {
+  extraction: { temperature: 0.3, maxTokens: 2000, timeoutMs: 120_000 },
+  narration: { temperature: 0.7, topP: 0.9, timeoutMs: 120_000 },
+  judging: { temperature: 0.1, topP: 0.9, timeoutMs: 60_000 },
+  embedding: { timeoutMs: 30_000 },
+};
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+function formatIssues(issues: Array<{ path: PropertyKey[]; message: string }>): string {
+  return issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Settings of one stage from `LLM_<STAGE>_MODEL`, `_FALLBACK_MODELS` (comma-separated),
+ * `_TEMPERATURE`, `_TOP_P`, `_CONTEXT_WINDOW`, `_MAX_TOKENS` and `_TIMEOUT_MS`
+ */
+function stageFromEnv(
+  stage: LLMStage,
+  defaultModel: string,
+  env: Record<string, string | undefined>,
+): Record<string, unknown> {
+  const prefix = `LLM_${stage.toUpperCase()}_`;
+  const defaults = STAGE_DEFAULTS[stage];
+  return {
+    model: env[`${prefix}MODEL`] || defaultModel,
+    fallbackModels: (env[`${prefix}FALLBACK_MODELS`] ?? '')
+      .split(',')
+      .map((model) => model.trim())
+      .filter((model) => model.length > 0),
+    temperature: optionalNumber(env[`${prefix}TEMPERATURE`]) ?? defaults.temperature,
+    topP: optionalNumber(env[`${prefix}TOP_P`]) ?? defaults.topP,
+    contextWindow: optionalNumber(env[`${prefix}CONTEXT_WINDOW`]) ?? defaults.contextWindow,
+    maxTokens: optionalNumber(env[`${prefix}MAX_TOKENS`]) ?? defaults.maxTokens,
+    timeoutMs: optionalNumber(env[`${prefix}TIMEOUT_MS`]) ?? defaults.timeoutMs,
+  };
+}
+
+/**
+ * Provider settings from the environment
+ * `LLM_PROVIDER` selects `ollama` (default), `openai` or `mock`; `LLM_MODEL` and
+ * `LLM_EMBEDDING_MODEL` are the default models. The OpenAI-compatible adapter uses
+ * `LLM_BASE_URL` and `LLM_API_KEY`; the mock replays `LLM_FIXTURES`. Each stage can set
+ * its own models and sampling, see `stageFromEnv`.
+ */
+export function loadLLMConfig(env: Record<string, string | undefined> = Bun.env): LLMConfig {
+  const base = LLMConfigSchema.omit({ stages: true }).safeParse({
+    provider: env.LLM_PROVIDER || undefined,
+    model: env.LLM_MODEL || undefined,
+    embeddingModel: env.LLM_EMBEDDING_MODEL || undefined,
+    ollamaHost: env.OLLAMA_HOST || undefined,
+    baseUrl: env.LLM_BASE_URL || undefined,
+    apiKey: env.LLM_API_KEY || undefined,
+    fixturesPath: env.LLM_FIXTURES || undefined,
+  });
+  if (!base.success) {
+    throw new Error(`Invalid LLM configuration: ${formatIssues(base.error.issues)}`);
+  }
+
+  const { model, embeddingModel } = base.data;
+  const parsed = LLMConfigSchema.safeParse({
+    ...base.data,
+    stages: {
+      extraction: stageFromEnv('extraction', model, env),
+      narration: stageFromEnv('narration', model, env),
+      judging: stageFromEnv('judging', model, env),
+      embedding: stageFromEnv('embedding', embeddingModel, env),
+    },
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid LLM configuration: ${formatIssues(parsed.error.issues)}`);
+  }
+  return parsed.data;
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaProvider({
+        host: config.ollamaHost,
+        model: config.model,
+        embeddingModel: config.embeddingModel,
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        embeddingModel: config.embeddingModel,
+      });
+    case 'mock':
+      return new MockLLMProvider({
+        ...(config.fixturesPath ? loadMockFixtures(config.fixturesPath) : {}),
+        model: config.model,
+        embeddingModel: config.embeddingModel,
+      });
+  }
+}
+
+let activeConfig: LLMConfig | null = null;
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * The LLM configuration services run with, loaded once
+ */
+export function getLLMConfig(): LLMConfig {
+  if (!activeConfig) {
+    activeConfig = loadLLMConfig();
+  }
+  return activeConfig;
+}
+
+/**
+ * The provider services run with, created once from the environment
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(getLLMConfig());
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the shared provider, e.g. with a mock in tests; null recreates it from the environment
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
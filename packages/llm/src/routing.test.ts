@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+
+import { MockLLMProvider } from './mock';
+import { generateWithFallback } from './routing';
+import type { GenerateRequest, ModelSettings } from './types';
+
+const settings: ModelSettings = {
+  model: 'large',
+  fallbackModels: ['medium', 'small'],
+  temperature: 0.3,
+  timeoutMs: 20,
+};
+
+/**
+ * Mock whose listed models never answer, until their request is aborted
+ */
+class SlowModelsProvider extends MockLLMProvider {
+  constructor(private readonly slow: string[]) {
+    super();
+  }
+
+  override async generate(request: GenerateRequest) {
+    if (request.model && this.slow.includes(request.model)) {
+      await new Promise((_resolve, reject) =>
+        request.signal?.addEventListener('abort', () => reject(request.signal?.reason)),
+      );
+    }
+    return super.generate(request);
+  }
+}
+
+describe('generateWithFallback', () => {
+  it('calls the configured model first', async () => {
+    const llm = new MockLLMProvider();
+    const result = await generateWithFallback(llm, settings, { prompt: 'hello' });
+
+    expect(result).toMatchObject({ model: 'large', timedOut: [] });
+    expect(llm.calls.map((call) => call.model)).toEqual(['large']);
+  });
+
+  it('moves down the chain when a model times out', async () => {
+    const llm = new SlowModelsProvider(['large', 'medium']);
+    const result = await generateWithFallback(llm, settings, { prompt: 'hello' });
+
+    expect(result.model).toBe('small');
+    expect(result.timedOut).toEqual(['large', 'medium']);
+  });
+
+  it('fails once every model timed out', async () => {
+    const llm = new SlowModelsProvider(['large', 'medium', 'small']);
+
+    const failure = generateWithFallback(llm, settings, { prompt: 'hello' });
+
+    await expect(failure).rejects.toThrow('No model answered within 20ms: large, medium, small');
+    await expect(failure).rejects.toMatchObject({
+      model: 'small',
+      timedOut: ['large', 'medium', 'small'],
+    });
+  });
+
+  it('does not fall back when the caller aborts', async () => {
+    const llm = new SlowModelsProvider(['large']);
+    const controller = new AbortController();
+    const pending = generateWithFallback(llm, settings, {
+      prompt: 'hello',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    expect(llm.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { getLLMConfig } from './provider';
+import type {
+  ChatRequest,
+  CompletionResult,
+  GenerateRequest,
+  LLMOptions,
+  LLMProvider,
+  LLMStage,
+  ModelOverride,
+  ModelSettings,
+} from './types';
+
+/**
+ * Completion of a routed call, with the models that timed out before one answered
+ */
+export interface RoutedCompletion extends CompletionResult {
+  timedOut: string[];
+}
+
+/**
+ * Failure of a routed call, naming the model that failed and the models that timed out first
+ * When every model timed out, `model` is the last one in the chain.
+ */
+export class ModelCallError extends Error {
+  constructor(
+    message: string,
+    readonly model: string,
+    readonly timedOut: string[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'ModelCallError';
+  }
+}
+
+/**
+ * A stage's configured settings with a request's override applied
+ */
+export function stageSettings(stage: LLMStage, override: ModelOverride = {}): ModelSettings {
+  return { ...getLLMConfig().stages[stage], ...override };
+}
+
+function toOptions(settings: ModelSettings): LLMOptions {
+  return {
+    temperature: settings.temperature,
+    topP: settings.topP,
+    maxTokens: settings.maxTokens,
+    contextWindow: settings.contextWindow,
+  };
+}
+
+/**
+ * Call the stage's model, moving down the fallback chain each time a model times out
+ * Other errors fail the call without trying another model, and the caller's own abort is
+ * rethrown as is.
+ */
+async function withFallback(
+  settings: ModelSettings,
+  signal: AbortSignal | undefined,
+  call: (model: string, signal: AbortSignal) => Promise<CompletionResult>,
+): Promise<RoutedCompletion> {
+  const models = [settings.model, ...settings.fallbackModels];
+  const timedOut: string[] = [];
+
+  for (const model of models) {
+    const timeout = AbortSignal.timeout(settings.timeoutMs);
+    try {
+      const result = await call(model, signal ? AbortSignal.any([signal, timeout]) : timeout);
+      return { ...result, timedOut };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (!timeout.aborted) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ModelCallError(message, model, timedOut, { cause: error });
+      }
+      timedOut.push(model);
+      console.warn(`[llm] ${model} did not answer within ${settings.timeoutMs}ms`);
+    }
+  }
+
+  throw new ModelCallError(
+    `No model answered within ${settings.timeoutMs}ms: ${timedOut.join(', ')}`,
+    timedOut.at(-1) ?? settings.model,
+    timedOut,
+  );
+}
+
+export function generateWithFallback(
+  llm: LLMProvider,
+  settings: ModelSettings,
+  request: Omit<GenerateRequest, 'model' | 'options'>,
+): Promise<RoutedCompletion> {
+  return withFallback(settings, request.signal, (model, signal) =>
+    llm.generate({ ...request, model, options: toOptions(settings), signal }),
+  );
+}
+
+export function chatWithFallback(
+  llm: LLMProvider,
+  settings: ModelSettings,
+  request: Omit<ChatRequest, 'model' | 'options'>,
+): Promise<RoutedCompletion> {
+  return withFallback(settings, request.signal, (model, signal) =>
+    llm.chat({ ...request, model, options: toOptions(settings), signal }),
+  );
+}
@@ -0,0 +1,163 @@
+import { z } from 'zod';
+
+/**
+ * Sampling options shared by every provider; each adapter maps them to its own API
+ */
+export interface LLMOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  contextWindow?: number; // Ollama only; OpenAI-compatible servers fix it per deployment
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Single-prompt completion; `format: 'json'` asks the model for one JSON object
+ */
+export interface GenerateRequest {
+  model?: string; // Provider's default model when omitted
+  prompt: string;
+  system?: string;
+  format?: 'json';
+  options?: LLMOptions;
+  signal?: AbortSignal;
+}
+
+export interface ChatRequest {
+  model?: string;
+  messages: LLMMessage[];
+  format?: 'json';
+  options?: LLMOptions;
+  signal?: AbortSignal;
+}
+
+export interface EmbedRequest {
+  model?: string; // Provider's default embedding model when omitted
+  input: string;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  durationMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  model: string;
+  durationMs: number;
+}
+
+/**
+ * A model backend: every LLM call site goes through this interface
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: GenerateRequest): Promise<CompletionResult>;
+  chat(request: ChatRequest): Promise<CompletionResult>;
+  embed(request: EmbedRequest): Promise<EmbeddingResult>;
+}
+
+export const LLMProviderNameSchema = z.enum(['ollama', 'openai', 'mock']);
+
+export type LLMProviderName = z.infer<typeof LLMProviderNameSchema>;
+
+/**
+ * Pipeline stages that call a model, each configured separately
+ */
+export const LLMStageSchema = z.enum(['extraction', 'narration', 'judging', 'embedding']);
+
+export type LLMStage = z.infer<typeof LLMStageSchema>;
+
+/**
+ * Model and sampling settings of a stage
+ * When a model does not answer within `timeoutMs` the next of `fallbackModels` is tried.
+ */
+export const ModelSettingsSchema = z.object({
+  model: z.string().min(1),
+  fallbackModels: z
+    .array(z.string().min(1))
+    .describe('Usually smaller models, tried in order when the previous one times out'),
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  contextWindow: z.number().int().positive().optional().describe('Ollama num_ctx'),
+  maxTokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Ollama num_predict, max_tokens on OpenAI-compatible servers'),
+  timeoutMs: z.number().int().positive(),
+});
+
+export type ModelSettings = z.infer<typeof ModelSettingsSchema>;
+
+/**
+ * Per-request changes to a stage's settings; omitted fields keep the configured value
+ */
+export const ModelOverrideSchema = z
+  .object({
+    model: z.string().min(1),
+    fallbackModels: z.array(z.string().min(1)),
+    temperature: z.number().min(0).max(2),
+    topP: z.number().min(0).max(1),
+    contextWindow: z.number().int().positive(),
+    maxTokens: z.number().int().positive(),
+    timeoutMs: z.number().int().positive(),
+  })
+  .partial()
+  .strict();
+
+export type ModelOverride = z.infer<typeof ModelOverrideSchema>;
+
+/**
+ * Provider selection and connection settings, read from the environment by default
+ */
+export const LLMConfigSchema = z.object({
+  provider: LLMProviderNameSchema.default('ollama'),
+  model: z.string().min(1).default('llama3.2:3b'),
+  embeddingModel: z.string().min(1).default('nomic-embed-text'),
+  ollamaHost: z.string().url().default('http://localhost:11434'),
+  baseUrl: z
+    .string()
+    .url()
+    .default('https://api.openai.com/v1')
+    .describe('Root of the OpenAI-compatible API, up to and including /v1'),
+  apiKey: z.string().optional(),
+  fixturesPath: z.string().optional().describe('Fixture file the mock provider replays'),
+  stages: z.object({
+    extraction: ModelSettingsSchema,
+    narration: ModelSettingsSchema,
+    judging: ModelSettingsSchema,
+    embedding: ModelSettingsSchema,
+  }),
+});
+
+export type LLMConfig = z.infer<typeof LLMConfigSchema>;
+
+/**
+ * Canned response of the mock provider
+ * A fixture applies when its `match` occurs in the prompt (all messages, for chats) and its
+ * format matches; an array replays its responses in order and then repeats the last one.
+ */
+export const MockFixtureSchema = z.object({
+  match: z.string().optional().describe('Substring of the prompt; omitted matches any prompt'),
+  format: z.enum(['json', 'text']).optional(),
+  response: z.union([z.string(), z.array(z.string()).min(1)]),
+});
+
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+export const MockFixtureFileSchema = z.object({
+  fixtures: z.array(MockFixtureSchema),
+  fallback: z.string().optional(),
+});
+
+export type MockFixtureFile = z.infer<typeof MockFixtureFileSchema>;
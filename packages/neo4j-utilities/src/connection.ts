@@ -1,6 +1,6 @@
-import type { Session } from 'neo4j-driver';
+import type { ManagedTransaction, Session } from 'neo4j-driver';
 import { createSession } from './driver';
-import type { QueryMetadata, QueryResult } from './types';
+import type { QueryMetadata, QueryResult, TransactionResult } from './types';
 
 /**
  * Execute a read query within a transaction
@@ -83,20 +83,25 @@ export async function executeWrite<T = unknown>(
  *
  * @param queries - Array of query objects with cypher and parameters
  * @param database - Optional database name
- * @returns Combined metadata from all queries
+ * @param finish - Optional callback running last in the same transaction, for work that
+ *   depends on what the queries wrote; its result is returned as `finished`
+ * @returns Combined metadata from all queries, plus per-query records and counters
  */
-export async function executeTransaction(
+export async function executeTransaction<T = undefined>(
   queries: Array<{ cypher: string; parameters?: Record<string, unknown> }>,
   database?: string,
-): Promise<QueryMetadata> {
+  finish?: (tx: ManagedTransaction) => Promise<T>,
+): Promise<TransactionResult & { finished?: T }> {
   const session = createSession(database);
   try {
     const startTime = Date.now();
+    let finished: T | undefined;
     const result = await session.executeWrite(async (tx) => {
       const results = [];
       for (const query of queries) {
         results.push(await tx.run(query.cypher, query.parameters ?? {}));
       }
+      finished = await finish?.(tx);
       return results;
     });
 
@@ -121,9 +126,26 @@ export async function executeTransaction(
       },
     );
 
+    const executionTimeMs = Date.now() - startTime;
+
     return {
       ...aggregatedCounters,
-      executionTimeMs: Date.now() - startTime,
+      executionTimeMs,
+      finished,
+      results: result.map((res) => {
+        const counters = res.summary.counters.updates();
+        return {
+          records: res.records.map((record) => record.toObject()),
+          metadata: {
+            nodesCreated: counters.nodesCreated,
+            nodesDeleted: counters.nodesDeleted,
+            relationshipsCreated: counters.relationshipsCreated,
+            relationshipsDeleted: counters.relationshipsDeleted,
+            propertiesSet: counters.propertiesSet,
+            executionTimeMs,
+          },
+        };
+      }),
     };
   } finally {
     await session.close();
@@ -3,78 +3,6 @@
  * Uses MERGE for idempotent operations to support concurrent writes
  */
 
-/**
- * Node creation queries using MERGE for idempotency
- */
-export const NodeQueries = {
-  /**
-   * Create or update a Faction node
-   */
-  mergeFaction: `
-    MERGE (f:Faction {id: $id})
-    SET f.name = $name,
-        f.alignment = $alignment,
-        f.core_motivation = $core_motivation,
-        f.leader_name = $leader_name,
-        f.relationship_to_hegemony = $relationship_to_hegemony,
-        f.justification = $justification,
-        f.updated_at = datetime()
-    RETURN f
-  `,
-
-  /**
-   * Create or update a Character node
-   */
-  mergeCharacter: `
-    MERGE (c:Character {id: $id})
-    SET c.name = $name,
-        c.role = $role,
-        c.description = $description,
-        c.updated_at = datetime()
-    RETURN c
-  `,
-
-  /**
-   * Create or update a Location node
-   */
-  mergeLocation: `
-    MERGE (l:Location {id: $id})
-    SET l.name = $name,
-        l.type = $type,
-        l.description = $description,
-        l.strategic_importance = $strategic_importance,
-        l.updated_at = datetime()
-    RETURN l
-  `,
-
-  /**
-   * Create or update a Resource node
-   */
-  mergeResource: `
-    MERGE (r:Resource {id: $id})
-    SET r.name = $name,
-        r.type = $type,
-        r.quantity = $quantity,
-        r.description = $description,
-        r.updated_at = datetime()
-    RETURN r
-  `,
-
-  /**
-   * Create or update an Event node
-   */
-  mergeEvent: `
-    MERGE (e:Event {id: $id})
-    SET e.name = $name,
-        e.type = $type,
-        e.timestamp = $timestamp,
-        e.description = $description,
-        e.outcome = $outcome,
-        e.updated_at = datetime()
-    RETURN e
-  `,
-};
-
 /**
  * Relationship creation queries using MERGE for idempotency
  */
@@ -153,6 +81,325 @@ export const RelationshipQueries = {
   `,
 };
 
+/**
+ * Provenance queries linking graph facts to the source documents that assert them
+ * Relationships are reified as Fact nodes (keyed by fromId|TYPE|toId) so they can carry links
+ */
+export const ProvenanceQueries = {
+  /**
+   * Create or update the Source node for an ingested document
+   * A revision older than the stored one leaves the node as it is.
+   */
+  mergeSource: `
+    MERGE (s:Source {id: $sourceId})
+    WITH s, $revision IS NULL OR s.revision IS NULL OR $revision >= s.revision AS latest
+    SET s.job_id = CASE WHEN latest THEN $jobId ELSE s.job_id END,
+        s.metadata_json = CASE WHEN latest THEN $metadataJson ELSE s.metadata_json END,
+        s.text_length = CASE WHEN latest THEN $textLength ELSE s.text_length END,
+        s.content_hash = CASE WHEN latest THEN coalesce($contentHash, s.content_hash)
+                         ELSE s.content_hash END,
+        s.revision = CASE WHEN latest THEN coalesce($revision, s.revision) ELSE s.revision END,
+        s.ingested_at = CASE WHEN latest THEN datetime() ELSE s.ingested_at END
+    RETURN s
+  `,
+
+  /**
+   * Sources mentioning a node
+   */
+  getNodeSources: `
+    MATCH (n {id: $id})-[m:MENTIONED_IN]->(s:Source)
+    RETURN s.id AS sourceId,
+           m.job_id AS jobId,
+           s.metadata_json AS metadataJson,
+           toString(s.ingested_at) AS ingestedAt,
+           m.mentions AS mentions,
+           m.starts AS starts,
+           m.ends AS ends,
+           m.confidence AS confidence
+    ORDER BY ingestedAt DESC
+  `,
+
+  /**
+   * Sources asserting a relationship
+   */
+  getFactSources: `
+    MATCH (f:Fact {id: $factId})-[a:ASSERTED_BY]->(s:Source)
+    RETURN s.id AS sourceId,
+           a.job_id AS jobId,
+           s.metadata_json AS metadataJson,
+           toString(s.ingested_at) AS ingestedAt,
+           a.evidence AS evidence,
+           a.start AS start,
+           a.end AS end,
+           a.confidence AS confidence
+    ORDER BY ingestedAt DESC
+  `,
+};
+
+/**
+ * Batched provenance queries
+ * Each takes a `$rows` list, is meant to run inside one transaction per ingestion job and
+ * returns the number of rows written. Nodes and relationships are batched by the queries
+ * buildNodeMergeQuery and buildGenericRelationshipQuery build from the ontology.
+ */
+export const BatchQueries = {
+  /**
+   * Link entities to the Source they were mentioned in
+   */
+  mentionedIn: `
+    MATCH (s:Source {id: $sourceId})
+    UNWIND $rows AS row
+    MATCH (n:Entity {id: row.entityId})
+    MERGE (n)-[m:MENTIONED_IN {job_id: $jobId}]->(s)
+    SET m.revision = $revision,
+        m.mentions = row.mentions,
+        m.starts = row.starts,
+        m.ends = row.ends,
+        m.confidence = row.confidence,
+        m.properties_json = row.propertiesJson,
+        m.aliases = row.aliases,
+        m.updated_at = datetime(),
+        n.origin_source = CASE WHEN row.created THEN coalesce(n.origin_source, $sourceId)
+                          ELSE n.origin_source END
+    RETURN count(m) AS written
+  `,
+
+  /**
+   * Link relationships (as Fact nodes) to the Source asserting them
+   * Rows whose relationship was not written are skipped
+   */
+  assertedBy: `
+    MATCH (s:Source {id: $sourceId})
+    UNWIND $rows AS row
+    WITH s, row
+    WHERE EXISTS {
+      MATCH (:Entity {id: row.fromId})-[r]->(:Entity {id: row.toId})
+      WHERE type(r) = row.type
+    }
+    MERGE (f:Fact {id: row.factId})
+    SET f.type = row.type,
+        f.from_id = row.fromId,
+        f.to_id = row.toId
+    MERGE (f)-[a:ASSERTED_BY {job_id: $jobId}]->(s)
+    SET a.revision = $revision,
+        a.evidence = row.evidence,
+        a.start = row.start,
+        a.end = row.end,
+        a.confidence = row.confidence,
+        a.updated_at = datetime()
+    RETURN count(a) AS written
+  `,
+};
+
+/**
+ * Queries retracting what a source contributed to the graph
+ * With `$belowRevision` set only links of earlier revisions are retracted, which replaces
+ * them with the latest revision; links written before revisions were recorded count as 0.
+ */
+export const RetractionQueries = {
+  /**
+   * Latest revision and vector chunk point IDs of a source; no row when it does not exist
+   */
+  getSource: `
+    MATCH (s:Source {id: $sourceId})
+    RETURN s.id AS sourceId,
+           s.revision AS revision,
+           coalesce(s.vector_point_ids, []) AS vectorPointIds
+  `,
+
+  /**
+   * Remove the source's assertions; relationships no other source asserts are deleted with
+   * their Fact node, the others take the evidence and confidence of their latest assertion
+   */
+  retractFacts: `
+    MATCH (f:Fact)-[a:ASSERTED_BY]->(:Source {id: $sourceId})
+    WHERE $belowRevision IS NULL OR coalesce(a.revision, 0) < $belowRevision
+    DELETE a
+    WITH DISTINCT f
+    OPTIONAL MATCH (f)-[rest:ASSERTED_BY]->(:Source)
+    WITH f, rest ORDER BY rest.updated_at DESC
+    WITH f, collect(rest)[0] AS latest
+    OPTIONAL MATCH (:Entity {id: f.from_id})-[r]->(:Entity {id: f.to_id})
+    WHERE type(r) = f.type
+    FOREACH (_ IN CASE WHEN latest IS NULL THEN [1] ELSE [] END | DELETE r)
+    FOREACH (_ IN CASE WHEN latest IS NOT NULL AND r IS NOT NULL THEN [1] ELSE [] END |
+      SET r.evidence = CASE WHEN r.evidence IS NULL THEN null ELSE latest.evidence END,
+          r.confidence = CASE WHEN r.confidence IS NULL THEN null ELSE latest.confidence END,
+          r.updated_at = datetime())
+    FOREACH (_ IN CASE WHEN latest IS NULL THEN [1] ELSE [] END | DETACH DELETE f)
+    RETURN count(CASE WHEN latest IS NULL THEN 1 END) AS removed,
+           count(CASE WHEN latest IS NOT NULL THEN 1 END) AS kept
+  `,
+
+  /**
+   * Remove the source's mentions and return each affected node with the contributions
+   * removed and those of the sources still mentioning it, oldest first
+   */
+  retractMentions: `
+    MATCH (n:Entity)-[m:MENTIONED_IN]->(:Source {id: $sourceId})
+    WHERE $belowRevision IS NULL OR coalesce(m.revision, 0) < $belowRevision
+    WITH n, m, {propertiesJson: m.properties_json, aliases: m.aliases} AS contribution
+    DELETE m
+    WITH n, collect(contribution) AS retracted
+    OPTIONAL MATCH (n)-[rest:MENTIONED_IN]->(:Source)
+    WITH n, retracted, rest ORDER BY rest.updated_at ASC
+    RETURN n.id AS id,
+           n.origin_source IS NOT NULL AS ingested,
+           retracted,
+           [link IN collect(rest) | {propertiesJson: link.properties_json, aliases: link.aliases}]
+             AS contributions
+  `,
+
+  /**
+   * Delete nodes that ingestion created and no remaining source mentions
+   */
+  deleteNodes: `
+    UNWIND $ids AS id
+    MATCH (n:Entity {id: id})
+    DETACH DELETE n
+    RETURN count(*) AS deleted
+  `,
+
+  /**
+   * Reset the properties the retracted source contributed to the merge of the remaining
+   * contributions; properties set to null in a row are removed
+   */
+  recomputeNodes: `
+    UNWIND $rows AS row
+    MATCH (n:Entity {id: row.id})
+    SET n += row.properties,
+        n.aliases = row.aliases,
+        n.updated_at = datetime()
+    RETURN count(n) AS written
+  `,
+
+  deleteSource: `
+    MATCH (s:Source {id: $sourceId})
+    DETACH DELETE s
+  `,
+
+  /**
+   * Record the chunk points a revision is indexed under, returning the ones no longer used
+   * Points of a revision older than the source's latest are returned instead of recorded.
+   */
+  recordVectorPoints: `
+    MATCH (s:Source {id: $sourceId})
+    WITH s, coalesce(s.vector_point_ids, []) AS previous,
+         $revision IS NULL OR s.revision IS NULL OR $revision >= s.revision AS latest
+    SET s.vector_point_ids = CASE WHEN latest THEN $pointIds ELSE previous END
+    RETURN CASE WHEN latest THEN [id IN previous WHERE NOT id IN $pointIds]
+                ELSE [id IN $pointIds WHERE NOT id IN previous] END AS stale
+  `,
+};
+
+/**
+ * Node labels and property names accepted by the generated node query
+ */
+export const NODE_LABEL_PATTERN = /^[A-Z][A-Za-z0-9_]{0,63}$/;
+export const PROPERTY_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Graph indexes the batch queries look nodes up by, created at startup
+ * Entity nodes carry the shared `Entity` label besides their ontology label, so queries that
+ * only know an id match `(:Entity {id})` through one index.
+ */
+export const SchemaQueries = {
+  entityIdIndex: 'CREATE INDEX entity_id IF NOT EXISTS FOR (n:Entity) ON (n.id)',
+  sourceIdIndex: 'CREATE INDEX source_id IF NOT EXISTS FOR (s:Source) ON (s.id)',
+  factIdIndex: 'CREATE INDEX fact_id IF NOT EXISTS FOR (f:Fact) ON (f.id)',
+};
+
+/**
+ * Schema setup for one ontology label: the id index its MERGE uses, and the shared Entity
+ * label for its nodes written before that label existed
+ */
+export function buildLabelSchemaQueries(label: string): string[] {
+  if (!NODE_LABEL_PATTERN.test(label)) {
+    throw new Error(`Invalid node label: ${JSON.stringify(label)}`);
+  }
+
+  return [
+    `CREATE INDEX ${label.toLowerCase()}_id IF NOT EXISTS FOR (n:${label}) ON (n.id)`,
+    `MATCH (n:${label}) WHERE NOT n:Entity SET n:Entity`,
+  ];
+}
+
+/**
+ * Batch MERGE for nodes of one label, setting the given properties like the hand-written
+ * merge queries: values missing from a row keep the stored value and aliases accumulate
+ * Label and property names are interpolated, so they are checked first.
+ */
+export function buildNodeMergeQuery(label: string, properties: string[]): string {
+  if (!NODE_LABEL_PATTERN.test(label)) {
+    throw new Error(`Invalid node label: ${JSON.stringify(label)}`);
+  }
+  const invalid = properties.find((property) => !PROPERTY_NAME_PATTERN.test(property));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid property name: ${JSON.stringify(invalid)}`);
+  }
+
+  const assignments = properties.map(
+    (property) => `n.${property} = coalesce(row.${property}, n.${property}),`,
+  );
+
+  return `
+    UNWIND $rows AS row
+    MERGE (n:${label} {id: row.id})
+    SET ${[
+      ...assignments,
+      `n.aliases = reduce(acc = coalesce(n.aliases, []), alias IN coalesce(row.aliases, []) |
+          CASE WHEN alias IN acc THEN acc ELSE acc + alias END),`,
+      'n.updated_at = datetime(),',
+      'n:Entity',
+    ].join('\n        ')}
+    RETURN count(n) AS written
+  `;
+}
+
+/**
+ * Relationship type names the generic writer accepts: upper snake case starting with a letter
+ */
+export const RELATIONSHIP_TYPE_PATTERN = /^[A-Z][A-Z0-9_]{0,63}$/;
+
+/**
+ * Batch MERGE for one relationship type between entities of any label, also setting the
+ * given type-specific properties
+ * Cypher cannot take the relationship type as a parameter, so the type and property names
+ * are checked before they are interpolated. Rows flag types outside the ontology as `unmapped`.
+ */
+export function buildGenericRelationshipQuery(type: string, properties: string[] = []): string {
+  if (!RELATIONSHIP_TYPE_PATTERN.test(type)) {
+    throw new Error(`Invalid relationship type name: ${JSON.stringify(type)}`);
+  }
+  const invalid = properties.find((property) => !PROPERTY_NAME_PATTERN.test(property));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid property name: ${JSON.stringify(invalid)}`);
+  }
+
+  const assignments = properties.map(
+    (property) => `rel.${property} = coalesce(row.${property}, rel.${property}),`,
+  );
+
+  return `
+    UNWIND $rows AS row
+    MATCH (from:Entity {id: row.fromId})
+    MATCH (to:Entity {id: row.toId})
+    MERGE (from)-[rel:${type}]->(to)
+    SET ${[
+      'rel.raw_type = coalesce(row.raw_type, rel.raw_type),',
+      'rel.type_score = coalesce(row.type_score, rel.type_score),',
+      'rel.evidence = row.evidence,',
+      'rel.confidence = row.confidence,',
+      ...assignments,
+      'rel.since = COALESCE(rel.since, row.since),',
+      'rel.created_at = COALESCE(rel.created_at, datetime()),',
+      'rel.updated_at = datetime(),',
+      'rel.unmapped = row.unmapped',
+    ].join('\n        ')}
+    RETURN count(rel) AS written
+  `;
+}
+
 /**
  * Read queries for retrieving graph data
  */
@@ -204,6 +451,41 @@ export const ReadQueries = {
     RETURN f1, f2, ally, e1, e2
   `,
 
+  /**
+   * Get the stored properties of nodes by ID
+   */
+  getNodesByIds: `
+    MATCH (n)
+    WHERE n.id IN $ids
+    RETURN n.id AS id, labels(n) AS labels, properties(n) AS properties
+  `,
+
+  /**
+   * Which of the given relationships (fromId, type, toId rows) already exist
+   */
+  findExistingRelationships: `
+    UNWIND $rows AS row
+    MATCH ({id: row.fromId})-[r]->({id: row.toId})
+    WHERE type(r) = row.type
+    RETURN DISTINCT row.fromId AS fromId, row.type AS type, row.toId AS toId
+  `,
+
+  /**
+   * Relationship types written by the generic writer, with counts and sample evidence
+   */
+  getUnmappedRelationshipTypes: `
+    MATCH (from)-[r]->(to)
+    WHERE r.unmapped = true
+    WITH type(r) AS type, r,
+         [label IN labels(from) WHERE label <> 'Entity'][0] + '->' +
+         [label IN labels(to) WHERE label <> 'Entity'][0] AS endpoints
+    RETURN type,
+           count(r) AS count,
+           collect(DISTINCT endpoints)[0..5] AS endpoints,
+           [evidence IN collect(r.evidence) WHERE evidence IS NOT NULL][0..3] AS examples
+    ORDER BY count DESC, type ASC
+  `,
+
   /**
    * Get all events for a time range
    */
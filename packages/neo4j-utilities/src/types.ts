@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+export type { ManagedTransaction } from 'neo4j-driver';
+
 /**
  * Neo4j connection configuration schema
  */
@@ -33,3 +35,10 @@ export interface QueryResult<T = unknown> {
   records: T[];
   metadata: QueryMetadata;
 }
+
+/**
+ * Transaction result: aggregated counters plus each query's result in submission order
+ */
+export interface TransactionResult extends QueryMetadata {
+  results: QueryResult[];
+}
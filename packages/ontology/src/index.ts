@@ -0,0 +1,3 @@
+export * from './loader';
+export * from './registry';
+export * from './types';
@@ -0,0 +1,83 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { OntologyRegistry } from './registry';
+import { OntologyDefinitionSchema } from './types';
+
+/**
+ * Directory holding the bundled `<world>-v<version>.json|yaml` ontology files
+ */
+export const ONTOLOGY_DIRECTORY = join(import.meta.dir, '..', 'ontologies');
+
+const ONTOLOGY_FILE_PATTERN = /^(.+)-v(\d+\.\d+\.\d+)\.(json|ya?ml)$/;
+
+function compareVersions(a: string, b: string): number {
+  const [left, right] = [a, b].map((version) => version.split('.').map(Number));
+  for (let index = 0; index < 3; index++) {
+    const difference = (left?.[index] ?? 0) - (right?.[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Path of a world's ontology file; without a version the newest one in the directory wins
+ */
+export function resolveOntologyPath(
+  world: string,
+  version?: string,
+  directory: string = ONTOLOGY_DIRECTORY,
+): string {
+  const candidates = readdirSync(directory).flatMap((file) => {
+    const match = file.match(ONTOLOGY_FILE_PATTERN);
+    return match && match[1] === world ? [{ file, version: match[2] as string }] : [];
+  });
+
+  const [selected] = candidates
+    .filter((candidate) => !version || candidate.version === version)
+    .sort((a, b) => compareVersions(b.version, a.version));
+
+  if (!selected) {
+    throw new Error(
+      `Ontology not found for world "${world}"${version ? ` version "${version}"` : ''} in ${directory}`,
+    );
+  }
+
+  return join(directory, selected.file);
+}
+
+/**
+ * Read and validate an ontology file (JSON or YAML)
+ */
+export function loadOntologyFile(path: string): OntologyRegistry {
+  const content = readFileSync(path, 'utf8');
+  const raw: unknown = ['.yaml', '.yml'].includes(extname(path))
+    ? Bun.YAML.parse(content)
+    : JSON.parse(content);
+
+  const parsed = OntologyDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+    throw new Error(`Invalid ontology ${path}: ${issues.join('; ')}`);
+  }
+
+  return new OntologyRegistry(parsed.data);
+}
+
+let activeOntology: OntologyRegistry | null = null;
+
+/**
+ * The ontology services run with, loaded once
+ * `ONTOLOGY_PATH` names a file directly; otherwise `ONTOLOGY_WORLD` (default `default`) and
+ * `ONTOLOGY_VERSION` (default newest) select a bundled file.
+ */
+export function getOntology(): OntologyRegistry {
+  if (!activeOntology) {
+    activeOntology = loadOntologyFile(
+      Bun.env.ONTOLOGY_PATH ||
+        resolveOntologyPath(Bun.env.ONTOLOGY_WORLD || 'default', Bun.env.ONTOLOGY_VERSION),
+    );
+  }
+  return activeOntology;
+}
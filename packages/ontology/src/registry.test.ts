@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { loadOntologyFile, resolveOntologyPath } from './loader';
+
+const ontology = loadOntologyFile(resolveOntologyPath('default'));
+
+describe('OntologyRegistry', () => {
+  it('resolves entity labels and synonyms case-insensitively', () => {
+    expect(ontology.resolveEntityType('Faction')).toBe('Faction');
+    expect(ontology.resolveEntityType('GUILD')).toBe('Faction');
+    expect(ontology.resolveEntityType('npc')).toBe('Character');
+    expect(ontology.resolveEntityType('Artifact')).toBeNull();
+  });
+
+  it('resolves relationship types exactly first, then by contained synonym', () => {
+    expect(ontology.resolveRelationshipType('member_of')).toBe('MEMBER_OF');
+    expect(ontology.resolveRelationshipType('allied with')).toBe('IS_ALLY_OF');
+    expect(ontology.resolveRelationshipType('secretly fought in')).toBe('PARTICIPATED_IN');
+    expect(ontology.resolveRelationshipType('betrayed')).toBeNull();
+    expect(ontology.resolveRelationshipType('secretly fought in', { partial: false })).toBeNull();
+  });
+
+  it('constrains endpoints of ontology types only', () => {
+    expect(ontology.allowsRelationship('COMMANDS', 'Character', 'Faction')).toBe(true);
+    expect(ontology.allowsRelationship('COMMANDS', 'Faction', 'Character')).toBe(false);
+    expect(ontology.allowsRelationship('BETRAYED', 'Faction', 'Character')).toBe(true);
+  });
+
+  it('defines the default world types', () => {
+    expect(ontology.entityLabels.sort()).toEqual([
+      'Character',
+      'Event',
+      'Faction',
+      'Location',
+      'Resource',
+    ]);
+    expect(ontology.relationshipTypeNames.sort()).toEqual([
+      'COMMANDS',
+      'CONTROLS_RESOURCE',
+      'IS_ALLY_OF',
+      'LOCATED_IN',
+      'MEMBER_OF',
+      'PARTICIPATED_IN',
+    ]);
+    expect(ontology.relationshipType('MEMBER_OF')?.defaults).toEqual({ rank: 'member' });
+  });
+});
+
+describe('ontology loader', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'ontology-'));
+  const definition = {
+    world: 'test',
+    version: '1.0.0',
+    entityTypes: [{ label: 'Ship', description: 'Vessels', properties: ['name'] }],
+    relationshipTypes: [],
+  };
+
+  writeFileSync(join(directory, 'test-v1.2.0.json'), JSON.stringify(definition));
+  writeFileSync(join(directory, 'test-v1.10.0.yaml'), 'world: test');
+  writeFileSync(join(directory, 'other-v2.0.0.json'), '{}');
+
+  it('picks the newest version of a world unless one is pinned', () => {
+    expect(resolveOntologyPath('test', undefined, directory)).toEndWith('test-v1.10.0.yaml');
+    expect(resolveOntologyPath('test', '1.2.0', directory)).toEndWith('test-v1.2.0.json');
+    expect(() => resolveOntologyPath('test', '3.0.0', directory)).toThrow(
+      'Ontology not found for world "test" version "3.0.0"',
+    );
+  });
+
+  it('reports every validation issue in the file', () => {
+    const path = join(directory, 'broken-v1.0.0.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        ...definition,
+        entityTypes: [
+          { ...definition.entityTypes[0], required: ['hull'], enums: { rig: { SLOOP: [] } } },
+        ],
+        relationshipTypes: [
+          { type: 'DOCKED_AT', description: 'Moored', from: ['Ship'], to: ['Port'] },
+        ],
+      }),
+    );
+
+    expect(() => loadOntologyFile(path)).toThrow(
+      /Required property hull .*Enum property rig .*relationshipTypes\.0\.to: Unknown entity label Port/,
+    );
+  });
+});
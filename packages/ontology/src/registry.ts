@@ -0,0 +1,85 @@
+import type { EntityTypeDefinition, OntologyDefinition, RelationshipTypeDefinition } from './types';
+
+/**
+ * Lower-case a type name or phrase and treat `_`, `-` and runs of spaces alike
+ */
+export function normalizeTerm(value: string): string {
+  return value.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Lookup over one world's ontology: entity labels, relationship types and their synonyms
+ */
+export class OntologyRegistry {
+  private readonly entityTypesByLabel = new Map<string, EntityTypeDefinition>();
+  private readonly relationshipTypesByName = new Map<string, RelationshipTypeDefinition>();
+  private readonly entityTerms = new Map<string, string>();
+  private readonly relationshipTerms = new Map<string, string>();
+
+  constructor(readonly definition: OntologyDefinition) {
+    for (const entityType of definition.entityTypes) {
+      this.entityTypesByLabel.set(entityType.label, entityType);
+      for (const term of [entityType.label, ...entityType.synonyms]) {
+        this.entityTerms.set(normalizeTerm(term), entityType.label);
+      }
+    }
+
+    for (const relationshipType of definition.relationshipTypes) {
+      this.relationshipTypesByName.set(relationshipType.type, relationshipType);
+      for (const term of [relationshipType.type, ...relationshipType.synonyms]) {
+        this.relationshipTerms.set(normalizeTerm(term), relationshipType.type);
+      }
+    }
+  }
+
+  get entityLabels(): string[] {
+    return Array.from(this.entityTypesByLabel.keys());
+  }
+
+  get relationshipTypeNames(): string[] {
+    return Array.from(this.relationshipTypesByName.keys());
+  }
+
+  entityType(label: string): EntityTypeDefinition | undefined {
+    return this.entityTypesByLabel.get(label);
+  }
+
+  relationshipType(type: string): RelationshipTypeDefinition | undefined {
+    return this.relationshipTypesByName.get(type);
+  }
+
+  /**
+   * Label for an entity type name or one of its synonyms, compared case-insensitively
+   */
+  resolveEntityType(value: string): string | null {
+    return this.entityTerms.get(normalizeTerm(value)) ?? null;
+  }
+
+  /**
+   * Relationship type for a free-text description: an exact type name or synonym first,
+   * then (unless `partial` is false) the first synonym the description contains
+   */
+  resolveRelationshipType(value: string, { partial = true } = {}): string | null {
+    const normalized = normalizeTerm(value);
+    const exact = this.relationshipTerms.get(normalized);
+    if (exact || !partial) {
+      return exact ?? null;
+    }
+
+    for (const [term, type] of this.relationshipTerms) {
+      if (normalized.includes(term)) {
+        return type;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether the ontology lets a relationship type connect the two labels
+   * Types outside the ontology are not constrained.
+   */
+  allowsRelationship(type: string, fromLabel: string, toLabel: string): boolean {
+    const definition = this.relationshipTypesByName.get(type);
+    return !definition || (definition.from.includes(fromLabel) && definition.to.includes(toLabel));
+  }
+}
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+
+/**
+ * Entity labels are interpolated into Cypher, so they are restricted to identifier characters
+ */
+export const ENTITY_LABEL_PATTERN = /^[A-Z][A-Za-z0-9_]{0,63}$/;
+
+/**
+ * Relationship types use the graph's upper snake case convention
+ */
+export const RELATIONSHIP_TYPE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{0,63}$/;
+
+const PROPERTY_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+export const EntityTypeDefinitionSchema = z.object({
+  label: z.string().regex(ENTITY_LABEL_PATTERN, 'Labels are PascalCase identifiers'),
+  description: z.string().min(1).describe('Shown to the extraction model'),
+  synonyms: z
+    .array(z.string().min(1))
+    .default([])
+    .describe('Other names the type is given in text, frontmatter or imports'),
+  properties: z
+    .array(z.string().regex(PROPERTY_NAME_PATTERN, 'Properties are snake_case identifiers'))
+    .min(1)
+    .describe('Node properties the graph writer stores'),
+  required: z.array(z.string()).default([]).describe('Properties every entity must have'),
+  enums: z
+    .record(z.string(), z.record(z.string().min(1), z.array(z.string().min(1))))
+    .default({})
+    .describe('Values of enum-valued properties, each with the words in text that mean it'),
+});
+
+export type EntityTypeDefinition = z.infer<typeof EntityTypeDefinitionSchema>;
+
+export const RelationshipTypeDefinitionSchema = z.object({
+  type: z.string().regex(RELATIONSHIP_TYPE_NAME_PATTERN, 'Types are UPPER_SNAKE_CASE'),
+  description: z.string().min(1),
+  from: z.array(z.string()).min(1).describe('Entity labels the relationship may start at'),
+  to: z.array(z.string()).min(1).describe('Entity labels the relationship may end at'),
+  synonyms: z
+    .array(z.string().min(1))
+    .default([])
+    .describe('Phrases in extracted relationship types that mean this type'),
+  defaults: z
+    .record(
+      z.string().regex(PROPERTY_NAME_PATTERN, 'Properties are snake_case identifiers'),
+      z.union([z.string(), z.number(), z.boolean()]),
+    )
+    .default({})
+    .describe('Properties the graph writer sets on every relationship of this type'),
+});
+
+export type RelationshipTypeDefinition = z.infer<typeof RelationshipTypeDefinitionSchema>;
+
+/**
+ * A world's ontology file
+ */
+export const OntologyDefinitionSchema = z
+  .object({
+    world: z.string().min(1),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Versions are semantic (1.2.3)'),
+    description: z.string().optional(),
+    entityTypes: z.array(EntityTypeDefinitionSchema).min(1),
+    relationshipTypes: z.array(RelationshipTypeDefinitionSchema),
+  })
+  .superRefine((ontology, ctx) => {
+    const labels = new Set(ontology.entityTypes.map((entityType) => entityType.label));
+
+    ontology.entityTypes.forEach((entityType, index) => {
+      for (const property of entityType.required) {
+        if (!entityType.properties.includes(property)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['entityTypes', index, 'required'],
+            message: `Required property ${property} is not one of the type's properties`,
+          });
+        }
+      }
+      for (const property of Object.keys(entityType.enums)) {
+        if (!entityType.properties.includes(property)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['entityTypes', index, 'enums', property],
+            message: `Enum property ${property} is not one of the type's properties`,
+          });
+        }
+      }
+    });
+
+    ontology.relationshipTypes.forEach((relationshipType, index) => {
+      for (const end of ['from', 'to'] as const) {
+        for (const label of relationshipType[end]) {
+          if (!labels.has(label)) {
+            ctx.addIssue({
+              code: 'custom',
+              path: ['relationshipTypes', index, end],
+              message: `Unknown entity label ${label}`,
+            });
+          }
+        }
+      }
+    });
+  });
+
+export type OntologyDefinition = z.infer<typeof OntologyDefinitionSchema>;
@@ -1,9 +1,9 @@
 /**
- * Vector database client for semantic search using Qdrant and Ollama embeddings
+ * Vector database client for semantic search using Qdrant and the configured LLM provider's embeddings
  */
 
+import { getLLMConfig, getLLMProvider, type LLMProvider } from '@ace/llm';
 import { QdrantClient } from '@qdrant/js-client-rest';
-import { Ollama } from 'ollama';
 import type {
   EmbeddingResult,
   UpsertResult,
@@ -14,20 +14,20 @@ import type {
 
 export class VectorClient {
   private qdrant: QdrantClient;
-  private ollama: Ollama;
+  private llm: LLMProvider;
   private collectionName: string;
-  private embeddingModel: string;
+  readonly embeddingModel: string;
   private embeddingDimension: number;
 
   constructor(
     qdrantUrl: string,
-    ollamaHost: string,
+    llm: LLMProvider,
     collectionName = 'ace-lore',
-    embeddingModel = 'nomic-embed-text',
+    embeddingModel = getLLMConfig().stages.embedding.model,
     embeddingDimension = 768,
   ) {
     this.qdrant = new QdrantClient({ url: qdrantUrl });
-    this.ollama = new Ollama({ host: ollamaHost });
+    this.llm = llm;
     this.collectionName = collectionName;
     this.embeddingModel = embeddingModel;
     this.embeddingDimension = embeddingDimension;
@@ -59,21 +59,21 @@ export class VectorClient {
   }
 
   /**
-   * Generate embedding for text using Ollama
+   * Generate embedding for text using the LLM provider
    */
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
-    const startTime = Date.now();
-
     try {
-      const response = await this.ollama.embeddings({
+      // Embeddings never fall back: vectors of different models are not comparable
+      const response = await this.llm.embed({
         model: this.embeddingModel,
-        prompt: text,
+        input: text,
+        signal: AbortSignal.timeout(getLLMConfig().stages.embedding.timeoutMs),
       });
 
       return {
         embedding: response.embedding,
-        model: this.embeddingModel,
-        embeddingTimeMs: Date.now() - startTime,
+        model: response.model,
+        embeddingTimeMs: response.durationMs,
       };
     } catch (error) {
       console.error('[vector-client] Error generating embedding:', error);
@@ -217,9 +217,8 @@ let vectorClientInstance: VectorClient | null = null;
 export function getVectorClient(): VectorClient {
   if (!vectorClientInstance) {
     const qdrantUrl = process.env.QDRANT_URL || 'http://localhost:6333';
-    const ollamaHost = process.env.OLLAMA_HOST || 'http://localhost:11434';
 
-    vectorClientInstance = new VectorClient(qdrantUrl, ollamaHost);
+    vectorClientInstance = new VectorClient(qdrantUrl, getLLMProvider());
   }
 
   return vectorClientInstance;